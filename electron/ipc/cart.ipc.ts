@@ -1,18 +1,40 @@
-import { ipcMain } from 'electron';
 import fs from 'fs/promises';
-import path from 'path';
-import os from 'os';
+import { IPC_CONTRACT } from '../../shared/ipc-contract';
+import { handle } from './ipc-handle';
+import type { Cart, Order, OrderRequest, OrderStatus, OrderStatusDetails } from '../../src/app/core/interfaces/cart.interface';
+import { validate } from '../validation/schema';
+import {
+  cancellationReasonSchema,
+  orderIdSchema,
+  orderRequestSchema,
+  orderStatusDetailsSchema,
+  orderStatusSchema,
+  savedCartSchema
+} from '../validation/cart.schemas';
+import { PricedOrder, hasDiscrepancies, priceOrder } from '../services/order-pricing';
+import { getCatalogProduct } from './product.ipc';
+import { OrderTransitionError, PaymentError, PriceDiscrepancyError, PromotionError, toTransportError } from '../../shared/ipc-errors';
+import { transitionOrder } from '../../shared/order-status';
+import { resolvePricingRules } from '../../shared/pricing';
+import { estimateDelivery, resolveDeliveryRules } from '../../shared/delivery';
+import { DEFAULT_PROMOTIONS, applyPromotion, countRedemptions } from '../../shared/promotions';
+import { BASE_CURRENCY, findCurrency, orderCurrencyFor, resolveCurrencies } from '../../shared/currency';
+import { DEFAULT_PAYMENT_TIMEOUT_MS, PaymentGateway, chargePayment, createPaymentGateway } from '../../shared/payment-gateway';
+import type { DeliveryRules, PricingRules } from '../../src/app/core/interfaces/app-config.interface';
+import type { Promotion } from '../../src/app/core/interfaces/promotion.interface';
+import type { Currency } from '../../src/app/core/interfaces/currency.interface';
+import type { PaymentCharge } from '../../src/app/core/interfaces/payment.interface';
+import { cartMigrator, ordersMigrator } from '../../shared/migrations';
+import { DataProfile, USER_DATA_DIR, redemptionStore, resolveProfile } from '../services/data-stores';
+import type { JsonFileStore } from '../services/json-file-store';
+import type { VersionedDocument } from '../../shared/migrations';
 
 /**
  * Cart IPC Handlers for Electron
  * Handles cart persistence and order processing in desktop mode
+ * (for the active data profile, see services/data-stores.ts)
  */
 
-// User data directory for storing cart and orders
-const USER_DATA_DIR = path.join(os.homedir(), '.electron-faker-angular');
-const CART_FILE = path.join(USER_DATA_DIR, 'cart.json');
-const ORDERS_FILE = path.join(USER_DATA_DIR, 'orders.json');
-
 // Ensure user data directory exists
 async function ensureUserDataDir(): Promise<void> {
   try {
@@ -22,20 +44,68 @@ async function ensureUserDataDir(): Promise<void> {
   }
 }
 
+/**
+ * Order pipeline settings (read from the app config)
+ */
+export interface CartIpcOptions {
+  /** 'reject' refuses orders whose client prices disagree with the catalog, 'flag' reprices them */
+  pricingPolicy?: 'reject' | 'flag';
+  /** Shipping and tax rules; omitted fields use the defaults (see shared/pricing.ts) */
+  pricingRules?: Partial<PricingRules>;
+  /** Transit times, cutoff and holidays; omitted fields use the defaults (see shared/delivery.ts) */
+  deliveryRules?: Partial<DeliveryRules>;
+  /** Redeemable promo codes (defaults to DEFAULT_PROMOTIONS, see shared/promotions.ts) */
+  promotions?: Promotion[];
+  /** Display currencies and exchange rates (defaults to DEFAULT_CURRENCIES, see shared/currency.ts) */
+  currencies?: Currency[];
+  /** Gateway orders are charged through (defaults to an approving mock gateway) */
+  paymentGateway?: PaymentGateway;
+  /** How long to wait for the gateway before failing the order, in milliseconds */
+  paymentTimeoutMs?: number;
+}
+
+/**
+ * CartIpcOptions with every default applied
+ */
+interface OrderPipelineSettings {
+  pricingPolicy: 'reject' | 'flag';
+  pricingRules: PricingRules;
+  deliveryRules: DeliveryRules;
+  promotions: Promotion[];
+  currencies: Currency[];
+  paymentGateway: PaymentGateway;
+  paymentTimeoutMs: number;
+}
+
+// Order submissions still being priced or saved, by profile and idempotency key
+const submissionsInFlight = new Map<string, Promise<Order>>();
+
 /**
  * Initialize cart IPC handlers
  */
-export function setupCartIPC(): void {
+export function setupCartIPC(options: CartIpcOptions = {}): void {
+  const pricingPolicy = options.pricingPolicy ?? 'reject';
+  const pricingRules = resolvePricingRules(options.pricingRules);
+  const deliveryRules = resolveDeliveryRules(options.deliveryRules);
+  const promotions = options.promotions ?? DEFAULT_PROMOTIONS;
+  const currencies = resolveCurrencies(options.currencies);
+  const paymentGateway = options.paymentGateway ?? createPaymentGateway();
+  const paymentTimeoutMs = options.paymentTimeoutMs ?? DEFAULT_PAYMENT_TIMEOUT_MS;
+
   console.log('⚡ [ELECTRON MAIN] Setting up cart IPC handlers');
 
   // Ensure user data directory exists
   ensureUserDataDir();
 
   // Save cart to file
-  ipcMain.handle('cart:save', async (event, cart) => {
+  handle(IPC_CONTRACT.cart.save, async (event, payload) => {
+    // Reject malformed carts before anything touches the disk
+    const cart = validate<Cart>(savedCartSchema, payload, IPC_CONTRACT.cart.save.channel, 'cart');
+    const { cartStore } = await resolveProfile();
+
     try {
       console.log('⚡ [ELECTRON MAIN] Saving cart to file system');
-      await fs.writeFile(CART_FILE, JSON.stringify(cart, null, 2));
+      await cartStore.write(cartMigrator.wrap(cart));
       return true;
     } catch (error) {
       console.error('⚡ [ELECTRON MAIN] Failed to save cart:', error);
@@ -44,91 +114,57 @@ export function setupCartIPC(): void {
   });
 
   // Load cart from file
-  ipcMain.handle('cart:load', async (event) => {
+  handle(IPC_CONTRACT.cart.load, async (event) => {
+    const { cartStore } = await resolveProfile();
+
     try {
       console.log('⚡ [ELECTRON MAIN] Loading cart from file system');
-      const cartData = await fs.readFile(CART_FILE, 'utf-8');
-      const cart = JSON.parse(cartData);
+      const cart = (await cartStore.read())?.data;
+      if (!cart) {
+        console.log('⚡ [ELECTRON MAIN] No cart file found, returning null');
+        return null;
+      }
       
       // Ensure dates are properly parsed
       cart.createdAt = new Date(cart.createdAt);
       cart.updatedAt = new Date(cart.updatedAt);
       
       return cart;
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        console.log('⚡ [ELECTRON MAIN] No cart file found, returning null');
-        return null;
-      }
+    } catch (error) {
       console.error('⚡ [ELECTRON MAIN] Failed to load cart:', error);
       throw new Error('Failed to load cart');
     }
   });
 
-  // Submit order
-  ipcMain.handle('cart:submitOrder', async (event, orderRequest) => {
-    try {
-      console.log('⚡ [ELECTRON MAIN] Processing order submission');
-      
-      // Generate order ID
-      const orderId = `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`.toUpperCase();
-      
-      // Calculate order totals
-      const subtotal = orderRequest.cart.totalAmount;
-      const shipping_cost = subtotal >= 50 ? 0 : 9.99;
-      const tax = subtotal * 0.085;
-      const total = subtotal + shipping_cost + tax;
-
-      // Calculate estimated delivery
-      const estimatedDelivery = calculateEstimatedDelivery(orderRequest.shipping.shippingMethod);
-
-      // Create order object
-      const order = {
-        id: orderId,
-        cart: orderRequest.cart,
-        billing: orderRequest.billing,
-        shipping: orderRequest.shipping,
-        payment: {
-          method: orderRequest.payment.method,
-          cardholderName: orderRequest.payment.cardholderName,
-          paypalEmail: orderRequest.payment.paypalEmail,
-          cryptoWallet: orderRequest.payment.cryptoWallet
-          // Sensitive payment data excluded for security
-        },
-        subtotal,
-        shipping_cost,
-        tax,
-        total,
-        status: 'pending',
-        createdAt: new Date(),
-        estimatedDelivery
-      };
-
-      // Save order to file
-      await saveOrderToFile(order);
-
-      // Clear cart after successful order
-      try {
-        await fs.unlink(CART_FILE);
-        console.log('⚡ [ELECTRON MAIN] Cart cleared after successful order');
-      } catch (error) {
-        // Cart file might not exist, which is fine
-        console.log('⚡ [ELECTRON MAIN] Cart file already cleared or not found');
-      }
+  // Submit order (idempotent: resubmitting with the same key returns the order it created)
+  handle(IPC_CONTRACT.cart.submitOrder, async (event, payload) => {
+    const orderRequest = validate<OrderRequest>(orderRequestSchema, payload, IPC_CONTRACT.cart.submitOrder.channel, 'orderRequest');
+    const profile = await resolveProfile();
 
-      console.log('⚡ [ELECTRON MAIN] Order created successfully:', orderId);
-      return order;
-    } catch (error) {
-      console.error('⚡ [ELECTRON MAIN] Failed to process order:', error);
-      throw new Error('Failed to process order');
+    // A retry that arrives while the first attempt is still being priced or saved joins that attempt
+    const submissionKey = `${profile.id}:${orderRequest.idempotencyKey}`;
+    const inFlight = submissionsInFlight.get(submissionKey);
+    if (inFlight) {
+      console.log('⚡ [ELECTRON MAIN] Duplicate order submission, waiting for the original');
+      return inFlight;
     }
+
+    const submission = placeOrder(orderRequest, profile, {
+      pricingPolicy, pricingRules, deliveryRules, promotions, currencies, paymentGateway, paymentTimeoutMs
+    })
+      .finally(() => submissionsInFlight.delete(submissionKey));
+    submissionsInFlight.set(submissionKey, submission);
+    return submission;
   });
 
   // Get order by ID
-  ipcMain.handle('cart:getOrder', async (event, orderId) => {
+  handle(IPC_CONTRACT.cart.getOrder, async (event, payload) => {
+    const orderId = validate<string>(orderIdSchema, payload, IPC_CONTRACT.cart.getOrder.channel, 'orderId');
+    const { ordersStore } = await resolveProfile();
+
     try {
       console.log('⚡ [ELECTRON MAIN] Getting order:', orderId);
-      const orders = await loadOrdersFromFile();
+      const orders = await loadOrdersFromFile(ordersStore);
       const order = orders.find(o => o.id === orderId);
       
       if (!order) {
@@ -143,45 +179,184 @@ export function setupCartIPC(): void {
   });
 
   // Get all orders
-  ipcMain.handle('cart:getOrders', async (event) => {
+  handle(IPC_CONTRACT.cart.getOrders, async (event) => {
+    const { ordersStore } = await resolveProfile();
+
     try {
       console.log('⚡ [ELECTRON MAIN] Getting all orders');
-      return await loadOrdersFromFile();
+      return await loadOrdersFromFile(ordersStore);
     } catch (error) {
       console.error('⚡ [ELECTRON MAIN] Failed to get orders:', error);
       throw new Error('Failed to get orders');
     }
   });
+
+  // Move an order to a new status
+  handle(IPC_CONTRACT.cart.updateOrderStatus, async (event, orderIdPayload, statusPayload, detailsPayload) => {
+    const channel = IPC_CONTRACT.cart.updateOrderStatus.channel;
+    const orderId = validate<string>(orderIdSchema, orderIdPayload, channel, 'orderId');
+    const status = validate<OrderStatus>(orderStatusSchema, statusPayload, channel, 'status');
+    const details = validate<OrderStatusDetails | undefined>(orderStatusDetailsSchema, detailsPayload, channel, 'details');
+    const { ordersStore } = await resolveProfile();
+
+    console.log(`⚡ [ELECTRON MAIN] Updating order ${orderId} to ${status}`);
+    return updateOrderInFile(ordersStore, orderId, order => transitionOrder(order, status, details ?? {}));
+  });
+
+  // Cancel an order (only before it ships)
+  handle(IPC_CONTRACT.cart.cancelOrder, async (event, orderIdPayload, reasonPayload) => {
+    const channel = IPC_CONTRACT.cart.cancelOrder.channel;
+    const orderId = validate<string>(orderIdSchema, orderIdPayload, channel, 'orderId');
+    const reason = validate<string | undefined>(cancellationReasonSchema, reasonPayload, channel, 'reason');
+    const { ordersStore } = await resolveProfile();
+
+    console.log('⚡ [ELECTRON MAIN] Cancelling order:', orderId);
+    return updateOrderInFile(ordersStore, orderId, order => transitionOrder(order, 'cancelled', { note: reason || undefined }));
+  });
 }
 
 /**
- * Helper functions
+ * Price, store and confirm an order for a profile
+ * An order already stored under the request's idempotency key is returned unchanged.
  */
-function calculateEstimatedDelivery(shippingMethod: string): Date {
-  const now = new Date();
-  const deliveryDate = new Date(now);
-  
-  switch (shippingMethod) {
-    case 'overnight':
-      deliveryDate.setDate(now.getDate() + 1);
-      break;
-    case 'express':
-      deliveryDate.setDate(now.getDate() + 3);
-      break;
-    case 'standard':
-    default:
-      deliveryDate.setDate(now.getDate() + 7);
-      break;
+async function placeOrder(
+  orderRequest: OrderRequest,
+  { cartStore, ordersStore }: DataProfile,
+  { pricingPolicy, pricingRules, deliveryRules, promotions, currencies, paymentGateway, paymentTimeoutMs }: OrderPipelineSettings
+): Promise<Order> {
+  const orders = await loadOrdersFromFile(ordersStore);
+  const ledger = (await redemptionStore.read()) ?? {};
+  const existing = orders.find(order => order.idempotencyKey === orderRequest.idempotencyKey);
+  if (existing) {
+    console.log('⚡ [ELECTRON MAIN] Order already submitted, returning it:', existing.id);
+    return existing;
+  }
+
+  // Reprice every line from the catalog; client prices are never trusted
+  let priced: PricedOrder;
+  try {
+    priced = await priceOrder(orderRequest, getCatalogProduct, pricingRules, (code, cart) =>
+      // Usage limits count every profile's orders with the code
+      applyPromotion(code, cart, promotions, { redemptions: countRedemptions(orders, code, ledger) })
+    );
+  } catch (error) {
+    if (error instanceof PromotionError) {
+      console.warn('⚡ [ELECTRON MAIN] Rejected promo code:', error.message);
+      throw toTransportError(error);
+    }
+    console.error('⚡ [ELECTRON MAIN] Failed to verify order prices:', error);
+    throw new Error('Unable to verify product prices. Please try again when online.');
+  }
+
+  const pricesDiffer = hasDiscrepancies(priced.report);
+  if (pricesDiffer) {
+    console.warn('⚡ [ELECTRON MAIN] Price discrepancies in order request:', priced.report);
+    if (pricingPolicy === 'reject' || priced.hasUnavailableItems) {
+      throw toTransportError(new PriceDiscrepancyError(priced.report));
+    }
+  }
+
+  // Charge the order total; nothing is stored unless the payment is taken
+  let charge: PaymentCharge;
+  try {
+    console.log(`⚡ [ELECTRON MAIN] Charging ${priced.totals.total} ${BASE_CURRENCY.code} via the ${paymentGateway.name} gateway`);
+    charge = await chargePayment(paymentGateway, {
+      amount: priced.totals.total,
+      currency: BASE_CURRENCY.code,
+      payment: orderRequest.payment,
+      idempotencyKey: orderRequest.idempotencyKey
+    }, paymentTimeoutMs);
+  } catch (error) {
+    // chargePayment() only rejects with PaymentError
+    console.warn('⚡ [ELECTRON MAIN] Payment failed:', (error as PaymentError).message);
+    throw toTransportError(error as PaymentError);
+  }
+
+  try {
+    console.log('⚡ [ELECTRON MAIN] Processing order submission');
+    
+    // Generate order ID
+    const orderId = `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`.toUpperCase();
+    
+    // Order totals come from the server-side pricing
+    const { subtotal, shipping: shipping_cost, tax, total } = priced.totals;
+
+    // Record the display currency at today's rate; the amounts stay in USD
+    if (orderRequest.currency && !findCurrency(orderRequest.currency, currencies)) {
+      console.warn('⚡ [ELECTRON MAIN] Unknown display currency, recording the order in USD:', orderRequest.currency);
+    }
+    const currency = orderCurrencyFor(orderRequest.currency, currencies);
+
+    // Create order object
+    const createdAt = new Date();
+    const deliveryWindow = estimateDelivery(
+      orderRequest.shipping.shippingMethod, createdAt, orderRequest.shipping.address.country, deliveryRules
+    );
+    const order: Order = {
+      id: orderId,
+      cart: priced.cart,
+      billing: orderRequest.billing,
+      shipping: orderRequest.shipping,
+      payment: {
+        method: orderRequest.payment.method,
+        cardholderName: orderRequest.payment.cardholderName,
+        paypalEmail: orderRequest.payment.paypalEmail,
+        cryptoWallet: orderRequest.payment.cryptoWallet
+        // Sensitive payment data excluded for security
+      },
+      subtotal,
+      shipping_cost,
+      tax,
+      total,
+      status: 'pending',
+      statusHistory: [{ status: 'pending', at: createdAt }],
+      createdAt,
+      estimatedDelivery: deliveryWindow.latest,
+      deliveryWindow,
+      idempotencyKey: orderRequest.idempotencyKey,
+      currency,
+      charge,
+      ...(priced.promotion ? { promotion: priced.promotion } : {}),
+      // Flag policy: keep the report so the adjustment is visible on the order
+      ...(pricesDiffer ? { pricingReport: priced.report } : {})
+    };
+
+    // Save order to file
+    await saveOrderToFile(ordersStore, order);
+    if (order.promotion) {
+      await updateRedemptions(order.promotion.code, order.id, 'record');
+    }
+
+    // Clear cart after successful order
+    try {
+      await cartStore.remove();
+      console.log('⚡ [ELECTRON MAIN] Cart cleared after successful order');
+    } catch (error) {
+      // The order is already saved; a stale cart file is not worth failing it
+      console.warn('⚡ [ELECTRON MAIN] Failed to clear cart file:', error);
+    }
+
+    console.log('⚡ [ELECTRON MAIN] Order created successfully:', orderId);
+    return order;
+  } catch (error) {
+    console.error('⚡ [ELECTRON MAIN] Failed to process order:', error);
+    // The payment was taken but the order is not stored; give it back
+    try {
+      await paymentGateway.voidCharge(charge, orderRequest.idempotencyKey);
+      console.warn(`⚡ [ELECTRON MAIN] Voided charge ${charge.transactionId}`);
+    } catch (voidError) {
+      console.error(`⚡ [ELECTRON MAIN] Failed to void charge ${charge.transactionId}, refund it manually:`, voidError);
+    }
+    throw new Error('Failed to process order');
   }
-  
-  return deliveryDate;
 }
 
-async function saveOrderToFile(order: any): Promise<void> {
+type OrdersStore = JsonFileStore<VersionedDocument<Order[]>>;
+
+async function saveOrderToFile(ordersStore: OrdersStore, order: Order): Promise<void> {
   try {
-    const orders = await loadOrdersFromFile();
-    orders.push(order);
-    await fs.writeFile(ORDERS_FILE, JSON.stringify(orders, null, 2));
+    // Serialized read-modify-write: concurrent submissions cannot drop each other's orders
+    await ordersStore.update(current => ordersMigrator.wrap([...(current?.data ?? []), order]));
     console.log('⚡ [ELECTRON MAIN] Order saved to file system');
   } catch (error) {
     console.error('⚡ [ELECTRON MAIN] Failed to save order to file:', error);
@@ -189,28 +364,90 @@ async function saveOrderToFile(order: any): Promise<void> {
   }
 }
 
-async function loadOrdersFromFile(): Promise<any[]> {
+/**
+ * Record a promo code redemption in the ledger, or release it when the order is cancelled
+ * The order is already stored; a failed ledger update is logged rather than failing the request.
+ */
+async function updateRedemptions(code: string, orderId: string, change: 'record' | 'release'): Promise<void> {
   try {
-    const ordersData = await fs.readFile(ORDERS_FILE, 'utf-8');
-    const orders = JSON.parse(ordersData);
-    
-    // Ensure dates are properly parsed
-    return orders.map((order: any) => ({
-      ...order,
-      createdAt: new Date(order.createdAt),
-      estimatedDelivery: order.estimatedDelivery ? new Date(order.estimatedDelivery) : undefined,
-      cart: {
-        ...order.cart,
-        createdAt: new Date(order.cart.createdAt),
-        updatedAt: new Date(order.cart.updatedAt)
+    await redemptionStore.update(ledger => {
+      const others = (ledger?.[code] ?? []).filter(id => id !== orderId);
+      return { ...ledger, [code]: change === 'record' ? [...others, orderId] : others };
+    });
+  } catch (error) {
+    console.error(`⚡ [ELECTRON MAIN] Failed to ${change} the redemption of ${code} by order ${orderId}:`, error);
+  }
+}
+
+/**
+ * Apply a change to one stored order
+ * @returns The updated order
+ * @throws Transport-safe OrderTransitionError for illegal status changes
+ */
+async function updateOrderInFile(ordersStore: OrdersStore, orderId: string, change: (order: Order) => Order): Promise<Order> {
+  let updated: Order | undefined;
+
+  try {
+    // Serialized read-modify-write, like order submission
+    await ordersStore.update(current => {
+      const orders = (current?.data ?? []).map(reviveOrder);
+      const index = orders.findIndex(order => order.id === orderId);
+      if (index < 0) {
+        throw new Error(`Order ${orderId} not found`);
       }
-    }));
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
+
+      updated = change(orders[index]);
+      return ordersMigrator.wrap(orders.map((order, i) => i === index ? updated! : order));
+    });
+  } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      console.warn('⚡ [ELECTRON MAIN] Rejected order status change:', error.message);
+      throw toTransportError(error);
+    }
+    console.error('⚡ [ELECTRON MAIN] Failed to update order:', error);
+    throw new Error('Failed to update order');
+  }
+
+  console.log(`⚡ [ELECTRON MAIN] Order ${orderId} is now ${updated!.status}`);
+  if (updated!.status === 'cancelled' && updated!.promotion) {
+    await updateRedemptions(updated!.promotion.code, orderId, 'release');
+  }
+  return updated!;
+}
+
+async function loadOrdersFromFile(ordersStore: OrdersStore): Promise<Order[]> {
+  try {
+    // Corrupt files are recovered from backup and older schemas migrated by the store instead of throwing
+    const orders = (await ordersStore.read())?.data;
+    if (!orders) {
       console.log('⚡ [ELECTRON MAIN] No orders file found, returning empty array');
       return [];
     }
+    
+    return orders.map(reviveOrder);
+  } catch (error) {
     console.error('⚡ [ELECTRON MAIN] Failed to load orders from file:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Ensure dates are properly parsed
+ */
+function reviveOrder(order: Order): Order {
+  return {
+    ...order,
+    createdAt: new Date(order.createdAt),
+    estimatedDelivery: order.estimatedDelivery ? new Date(order.estimatedDelivery) : undefined,
+    deliveryWindow: order.deliveryWindow
+      ? { earliest: new Date(order.deliveryWindow.earliest), latest: new Date(order.deliveryWindow.latest) }
+      : undefined,
+    charge: order.charge ? { ...order.charge, authorizedAt: new Date(order.charge.authorizedAt) } : undefined,
+    statusHistory: order.statusHistory.map(change => ({ ...change, at: new Date(change.at) })),
+    cart: {
+      ...order.cart,
+      createdAt: new Date(order.cart.createdAt),
+      updatedAt: new Date(order.cart.updatedAt)
+    }
+  };
+}
@@ -0,0 +1,64 @@
+import { IPC_CONTRACT } from '../../shared/ipc-contract';
+import { handle } from './ipc-handle';
+import { validate } from '../validation/schema';
+import { cartIdSchema, checkoutDraftSchema } from '../validation/checkout.schemas';
+import { checkoutDraftMigrator } from '../../shared/migrations';
+import { redactCheckoutDraft } from '../../shared/checkout-drafts';
+import { resolveProfile } from '../services/data-stores';
+import type { CheckoutDraft } from '../../src/app/core/interfaces/checkout-draft.interface';
+
+/**
+ * Checkout IPC Handlers for Electron
+ * Keeps the active profile's checkout draft, so a customer who leaves checkout (or closes the
+ * window) finds the forms filled in again. Card details are never part of a draft.
+ */
+
+/**
+ * Initialize checkout IPC handlers
+ */
+export function setupCheckoutIPC(): void {
+  console.log('⚡ [ELECTRON MAIN] Setting up checkout IPC handlers');
+
+  handle(IPC_CONTRACT.checkout.saveDraft, async (event, payload) => {
+    // The schema rejects card fields, so they cannot reach the disk
+    const draft = validate<CheckoutDraft>(checkoutDraftSchema, payload, IPC_CONTRACT.checkout.saveDraft.channel, 'draft');
+    const { draftStore } = await resolveProfile();
+
+    try {
+      await draftStore.write(checkoutDraftMigrator.wrap(redactCheckoutDraft(draft)));
+      return true;
+    } catch (error) {
+      console.error('⚡ [ELECTRON MAIN] Failed to save checkout draft:', error);
+      throw new Error('Failed to save checkout draft');
+    }
+  });
+
+  handle(IPC_CONTRACT.checkout.loadDraft, async (event, payload) => {
+    const cartId = validate<string>(cartIdSchema, payload, IPC_CONTRACT.checkout.loadDraft.channel, 'cartId');
+    const { draftStore } = await resolveProfile();
+
+    try {
+      const draft = (await draftStore.read())?.data;
+      if (!draft || draft.cartId !== cartId) {
+        return null;
+      }
+      console.log('⚡ [ELECTRON MAIN] Restoring checkout draft from', draft.savedAt);
+      return { ...draft, savedAt: new Date(draft.savedAt) };
+    } catch (error) {
+      console.error('⚡ [ELECTRON MAIN] Failed to load checkout draft:', error);
+      throw new Error('Failed to load checkout draft');
+    }
+  });
+
+  handle(IPC_CONTRACT.checkout.clearDraft, async () => {
+    const { draftStore } = await resolveProfile();
+
+    try {
+      await draftStore.remove();
+      return true;
+    } catch (error) {
+      console.error('⚡ [ELECTRON MAIN] Failed to clear checkout draft:', error);
+      throw new Error('Failed to clear checkout draft');
+    }
+  });
+}
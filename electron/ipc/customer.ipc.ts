@@ -0,0 +1,91 @@
+import { IPC_CONTRACT } from '../../shared/ipc-contract';
+import { handle } from './ipc-handle';
+import { validate } from '../validation/schema';
+import {
+  addressIdSchema,
+  addressUseSchema,
+  customerContactSchema,
+  savedAddressSchema
+} from '../validation/customer.schemas';
+import { customerProfileMigrator } from '../../shared/migrations';
+import {
+  EMPTY_CUSTOMER_PROFILE,
+  deleteAddress,
+  saveAddress,
+  setDefaultAddress,
+  updateContact
+} from '../../shared/customer-profiles';
+import { resolveProfile } from '../services/data-stores';
+import type {
+  AddressUse,
+  CustomerContact,
+  CustomerProfile,
+  SavedAddressInput
+} from '../../src/app/core/interfaces/customer-profile.interface';
+
+/**
+ * Customer IPC Handlers for Electron
+ * Contact details and address book of the active data profile, reused to prefill checkout.
+ */
+
+/**
+ * Initialize customer profile IPC handlers
+ */
+export function setupCustomerIPC(): void {
+  console.log('⚡ [ELECTRON MAIN] Setting up customer profile IPC handlers');
+
+  handle(IPC_CONTRACT.customer.getProfile, async () => {
+    const { customerStore } = await resolveProfile();
+
+    try {
+      return (await customerStore.read())?.data ?? EMPTY_CUSTOMER_PROFILE;
+    } catch (error) {
+      console.error('⚡ [ELECTRON MAIN] Failed to load customer profile:', error);
+      throw new Error('Failed to load customer profile');
+    }
+  });
+
+  handle(IPC_CONTRACT.customer.updateContact, async (event, payload) => {
+    const contact = validate<CustomerContact>(customerContactSchema, payload, IPC_CONTRACT.customer.updateContact.channel, 'contact');
+    console.log('⚡ [ELECTRON MAIN] Updating customer contact details');
+    return updateCustomerProfile(profile => updateContact(profile, contact));
+  });
+
+  handle(IPC_CONTRACT.customer.saveAddress, async (event, payload) => {
+    const input = validate<SavedAddressInput>(savedAddressSchema, payload, IPC_CONTRACT.customer.saveAddress.channel, 'address');
+    console.log('⚡ [ELECTRON MAIN] Saving address:', input.id ?? '(new)');
+    return updateCustomerProfile(profile => saveAddress(profile, input).profile);
+  });
+
+  handle(IPC_CONTRACT.customer.deleteAddress, async (event, payload) => {
+    const addressId = validate<string>(addressIdSchema, payload, IPC_CONTRACT.customer.deleteAddress.channel, 'addressId');
+    console.log('⚡ [ELECTRON MAIN] Deleting address:', addressId);
+    return updateCustomerProfile(profile => deleteAddress(profile, addressId));
+  });
+
+  handle(IPC_CONTRACT.customer.setDefaultAddress, async (event, idPayload, usePayload) => {
+    const channel = IPC_CONTRACT.customer.setDefaultAddress.channel;
+    const addressId = validate<string>(addressIdSchema, idPayload, channel, 'addressId');
+    const use = validate<AddressUse>(addressUseSchema, usePayload, channel, 'use');
+    console.log(`⚡ [ELECTRON MAIN] Default ${use} address: ${addressId}`);
+    return updateCustomerProfile(profile => setDefaultAddress(profile, addressId, use));
+  });
+}
+
+/**
+ * Apply a change to the active profile's customer document
+ * @returns The updated customer profile
+ */
+async function updateCustomerProfile(change: (profile: CustomerProfile) => CustomerProfile): Promise<CustomerProfile> {
+  const { customerStore } = await resolveProfile();
+
+  try {
+    // Serialized read-modify-write, like the order store
+    const document = await customerStore.update(current =>
+      customerProfileMigrator.wrap(change(current?.data ?? EMPTY_CUSTOMER_PROFILE)));
+    return document.data;
+  } catch (error) {
+    console.error('⚡ [ELECTRON MAIN] Failed to update customer profile:', error);
+    throw new Error('Failed to update customer profile');
+  }
+}
@@ -0,0 +1,86 @@
+import { app, BrowserWindow, dialog, SaveDialogOptions } from 'electron';
+import fs from 'fs/promises';
+import path from 'path';
+import { IPC_CONTRACT } from '../../shared/ipc-contract';
+import { handle } from './ipc-handle';
+import { validate } from '../validation/schema';
+import { documentFileNameSchema, exportFileSchema } from '../validation/document.schemas';
+import type { ExportFile } from '../../src/app/core/interfaces/document.interface';
+
+/**
+ * Document IPC Handlers for Electron
+ * Saves what the requesting window currently shows (e.g. an order receipt), or a file the renderer
+ * generated (e.g. an order export), to a location the user picks.
+ * The renderer never supplies a path; it only suggests a file name for the save dialog.
+ */
+
+// Save dialog filter names for the file types the renderer generates
+const FILE_TYPE_NAMES: Record<string, string> = {
+  csv: 'CSV (Comma-separated values)',
+  json: 'JSON',
+  xlsx: 'Excel Workbook'
+};
+
+const ALL_FILES = { name: 'All Files', extensions: ['*'] };
+
+/**
+ * Initialize document IPC handlers
+ */
+export function setupDocumentIPC(): void {
+  console.log('⚡ [ELECTRON MAIN] Setting up document IPC handlers');
+
+  handle(IPC_CONTRACT.document.saveAsPdf, async (event, payload) => {
+    const fileName = validate<string>(documentFileNameSchema, payload, IPC_CONTRACT.document.saveAsPdf.channel, 'fileName');
+
+    const filePath = await chooseSavePath(BrowserWindow.fromWebContents(event.sender), {
+      title: 'Save as PDF',
+      defaultPath: path.join(app.getPath('documents'), ensureExtension(fileName, '.pdf')),
+      filters: [{ name: 'PDF Document', extensions: ['pdf'] }]
+    });
+    if (!filePath) {
+      return null;
+    }
+
+    // Rendered with the page's print stylesheet, so app chrome marked for screen only is left out
+    const pdf = await event.sender.printToPDF({ printBackground: true, pageSize: 'A4' });
+    await fs.writeFile(filePath, pdf);
+
+    console.log(`⚡ [ELECTRON MAIN] Saved PDF to ${filePath}`);
+    return filePath;
+  });
+
+  handle(IPC_CONTRACT.document.saveFile, async (event, payload) => {
+    const file = validate<ExportFile>(exportFileSchema, payload, IPC_CONTRACT.document.saveFile.channel, 'file');
+    const extension = path.extname(file.fileName).slice(1).toLowerCase();
+
+    const filePath = await chooseSavePath(BrowserWindow.fromWebContents(event.sender), {
+      title: 'Save File',
+      defaultPath: path.join(app.getPath('documents'), file.fileName),
+      filters: extension
+        ? [{ name: FILE_TYPE_NAMES[extension] ?? extension.toUpperCase(), extensions: [extension] }, ALL_FILES]
+        : [ALL_FILES]
+    });
+    if (!filePath) {
+      return null;
+    }
+
+    // The encoding applies to text content only
+    await fs.writeFile(filePath, file.content, 'utf8');
+
+    console.log(`⚡ [ELECTRON MAIN] Saved ${file.fileName} to ${filePath}`);
+    return filePath;
+  });
+}
+
+/**
+ * Ask the user where to save a file
+ * @returns The chosen path, or null when the dialog was cancelled
+ */
+async function chooseSavePath(window: BrowserWindow | null, options: SaveDialogOptions): Promise<string | null> {
+  const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+  return result.canceled || !result.filePath ? null : result.filePath;
+}
+
+function ensureExtension(fileName: string, extension: string): string {
+  return fileName.toLowerCase().endsWith(extension) ? fileName : fileName + extension;
+}
@@ -0,0 +1,26 @@
+import { ipcMain, IpcMainInvokeEvent } from 'electron';
+import { IpcArgs, IpcResult, IpcRoute } from '../../shared/ipc-contract';
+
+// Any route of the contract
+type AnyIpcRoute = IpcRoute<unknown[], unknown>;
+
+/**
+ * Typed wrapper around ipcMain.handle
+ * The handler's arguments and return type are checked against the shared IPC contract.
+ * @param route Route from IPC_CONTRACT
+ * @param handler Handler for the route's channel
+ */
+export function handle<R extends AnyIpcRoute>(
+  route: R,
+  handler: (event: IpcMainInvokeEvent, ...args: IpcArgs<R>) => Promise<IpcResult<R>> | IpcResult<R>
+): void {
+  ipcMain.handle(route.channel, (event, ...args) => handler(event, ...(args as IpcArgs<R>)));
+}
+
+/**
+ * Remove the handler registered for a route
+ * @param route Route from IPC_CONTRACT
+ */
+export function removeHandler(route: AnyIpcRoute): void {
+  ipcMain.removeHandler(route.channel);
+}
@@ -1,14 +1,40 @@
-import { ipcMain } from 'electron';
+import { app } from 'electron';
 import log from 'electron-log';
+import { CATALOG_TTL, CatalogCache, CatalogResult } from '../services/catalog-cache';
+import { fetchCatalog, isNotFound } from '../services/catalog-client';
+import { IPC_CONTRACT } from '../../shared/ipc-contract';
+import { handle, removeHandler } from './ipc-handle';
+import { FakerCatalog, generateFakerCatalog } from '../../shared/faker-catalog';
+import type { AppConfig } from '../../src/app/core/interfaces/app-config.interface';
+import type { Product } from '../../src/app/core/interfaces/product.interface';
 
 /**
  * Product IPC Handlers
- * These handlers communicate with FakeStoreAPI and return data to the renderer process
+ * These handlers communicate with FakeStoreAPI and return data to the renderer process.
+ * Responses go through the on-disk catalog cache so the catalog stays available offline.
  */
 
-const API_BASE_URL = 'https://fakestoreapi.com';
+const DEFAULT_API_BASE_URL = 'https://fakestoreapi.com';
+const DEFAULT_API_TIMEOUT = 10000; // 10 seconds
 const IS_DEV = process.env.ELECTRON_DEV === 'true';
 
+// Oldest cached price an order may be charged at when the backend is unreachable
+const PRICING_MAX_AGE = CATALOG_TTL.product;
+
+/**
+ * Catalog backend settings (read from config.dev.json / config.prod.json)
+ */
+export type ProductApiOptions = Pick<AppConfig, 'apiBaseUrl' | 'apiTimeout' | 'dataSource' | 'faker'>;
+
+let apiBaseUrl = DEFAULT_API_BASE_URL;
+let apiTimeout = DEFAULT_API_TIMEOUT;
+
+// Set when the renderer generates its catalog with Faker (AppConfig.dataSource === 'faker')
+let fakerCatalog: FakerCatalog | null = null;
+
+// Created on registration, once the Electron app is ready and the user data path is known
+let catalogCache: CatalogCache;
+
 // Configure logging based on environment
 if (IS_DEV) {
   log.transports.console.level = 'debug';
@@ -20,42 +46,81 @@ if (IS_DEV) {
 }
 
 /**
- * Fetch data from FakeStoreAPI
+ * Fetch data from the configured catalog backend
  */
-async function fetchFromAPI(endpoint: string): Promise<any> {
+async function fetchFromAPI<T>(endpoint: string): Promise<T> {
   try {
-    const response = await fetch(`${API_BASE_URL}${endpoint}`);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    return await response.json();
+    return await fetchCatalog<T>(apiBaseUrl, endpoint, apiTimeout);
   } catch (error) {
     log.error(`[IPC] Error fetching ${endpoint}:`, error);
     throw error;
   }
 }
 
+/**
+ * Fetch data through the catalog cache, falling back to a related cached entry when offline
+ * An entry the backend reports as missing is never served from other cached data.
+ * @param fallback Derives the result from other cached data if the network is unavailable
+ */
+async function fetchCached<T>(
+  endpoint: Parameters<CatalogCache['get']>[0],
+  key: string,
+  apiPath: string,
+  fallback?: () => Promise<CatalogResult<T> | null>
+): Promise<CatalogResult<T>> {
+  try {
+    return await catalogCache.get(endpoint, key, () => fetchFromAPI<T>(apiPath));
+  } catch (error) {
+    const offline = fallback && !isNotFound(error) ? await fallback() : null;
+    if (offline) {
+      log.warn(`⚡ [ELECTRON MAIN] Network unavailable, serving '${key}' from cached catalog`);
+      return offline;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build a result from the cached full product list (offline fallback)
+ */
+async function fromCachedProducts<T>(select: (products: Product[]) => T | undefined): Promise<CatalogResult<T> | null> {
+  const entry = await catalogCache.peek<Product[]>('products');
+  if (!entry) {
+    return null;
+  }
+
+  const data = select(entry.data);
+  return data === undefined ? null : { data, fromCache: true, stale: true, fetchedAt: entry.fetchedAt };
+}
+
 /**
  * Register all product-related IPC handlers
+ * @param options Catalog backend URL and request timeout from the app config
  */
-export function registerProductHandlers(): void {
+export function registerProductHandlers(options: ProductApiOptions = {}): void {
   if (IS_DEV) {
     log.info('⚡ [ELECTRON MAIN] Registering product IPC handlers...');
   }
 
+  apiBaseUrl = (options.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+  apiTimeout = options.apiTimeout || DEFAULT_API_TIMEOUT;
+  log.info(`⚡ [ELECTRON MAIN] Catalog backend: ${apiBaseUrl} (timeout ${apiTimeout}ms)`);
+
+  // Cache per backend so switching catalogs never serves another backend's data
+  catalogCache = new CatalogCache(apiBaseUrl, app.getPath('userData'));
+  fakerCatalog = options.dataSource === 'faker' ? generateFakerCatalog(options.faker) : null;
+
   // Get all products
-  ipcMain.handle('products:getAll', async () => {
+  handle(IPC_CONTRACT.products.getAll, async () => {
     if (IS_DEV) {
       log.info('⚡ [ELECTRON MAIN] ◀── IPC Request: products:getAll');
     }
     try {
-      const products = await fetchFromAPI('/products');
+      const result = await fetchCached<Product[]>('products', 'products', '/products');
       if (IS_DEV) {
-        log.info(`⚡ [ELECTRON MAIN] ──▶ IPC Response: Successfully fetched ${products.length} products`);
+        log.info(`⚡ [ELECTRON MAIN] ──▶ IPC Response: Successfully fetched ${result.data.length} products${result.fromCache ? ' (cache)' : ''}`);
       }
-      return products;
+      return result;
     } catch (error) {
       log.error('⚡ [ELECTRON MAIN] ✗ IPC Error in products:getAll:', error);
       throw error;
@@ -63,33 +128,42 @@ export function registerProductHandlers(): void {
   });
 
   // Get product by ID
-  ipcMain.handle('products:getById', async (event, id: number) => {
+  handle(IPC_CONTRACT.products.getById, async (event, id) => {
     if (IS_DEV) {
       log.info(`⚡ [ELECTRON MAIN] ◀── IPC Request: products:getById (ID: ${id})`);
     }
     try {
-      const product = await fetchFromAPI(`/products/${id}`);
+      const result = await fetchCached<Product>('product', `product-${id}`, `/products/${id}`, () =>
+        fromCachedProducts(products => products.find(p => p.id === id))
+      );
       if (IS_DEV) {
-        log.info(`⚡ [ELECTRON MAIN] ──▶ IPC Response: Successfully fetched product '${product.title}'`);
+        log.info(`⚡ [ELECTRON MAIN] ──▶ IPC Response: Successfully fetched product '${result.data.title}'${result.fromCache ? ' (cache)' : ''}`);
       }
-      return product;
+      return result;
     } catch (error) {
+      // A missing product is an answer, not a failure
+      if (isNotFound(error)) {
+        log.warn(`⚡ [ELECTRON MAIN] Product ${id} is not in the catalog`);
+        return { data: null, fromCache: false, stale: false, fetchedAt: new Date().toISOString() };
+      }
       log.error(`⚡ [ELECTRON MAIN] ✗ IPC Error in products:getById (ID ${id}):`, error);
       throw error;
     }
   });
 
   // Get all categories
-  ipcMain.handle('products:getCategories', async () => {
+  handle(IPC_CONTRACT.products.getCategories, async () => {
     if (IS_DEV) {
       log.info('⚡ [ELECTRON MAIN] ◀── IPC Request: products:getCategories');
     }
     try {
-      const categories = await fetchFromAPI('/products/categories');
+      const result = await fetchCached<string[]>('categories', 'categories', '/products/categories', () =>
+        fromCachedProducts(products => [...new Set(products.map(p => p.category))])
+      );
       if (IS_DEV) {
-        log.info(`⚡ [ELECTRON MAIN] ──▶ IPC Response: Successfully fetched ${categories.length} categories`);
+        log.info(`⚡ [ELECTRON MAIN] ──▶ IPC Response: Successfully fetched ${result.data.length} categories${result.fromCache ? ' (cache)' : ''}`);
       }
-      return categories;
+      return result;
     } catch (error) {
       log.error('⚡ [ELECTRON MAIN] ✗ IPC Error in products:getCategories:', error);
       throw error;
@@ -97,16 +171,18 @@ export function registerProductHandlers(): void {
   });
 
   // Get products by category
-  ipcMain.handle('products:getByCategory', async (event, category: string) => {
+  handle(IPC_CONTRACT.products.getByCategory, async (event, category) => {
     if (IS_DEV) {
       log.info(`⚡ [ELECTRON MAIN] ◀── IPC Request: products:getByCategory (Category: '${category}')`);
     }
     try {
-      const products = await fetchFromAPI(`/products/category/${category}`);
+      const result = await fetchCached<Product[]>('category', `category-${category}`, `/products/category/${category}`, () =>
+        fromCachedProducts(products => products.filter(p => p.category === category))
+      );
       if (IS_DEV) {
-        log.info(`⚡ [ELECTRON MAIN] ──▶ IPC Response: Successfully fetched ${products.length} products in category '${category}'`);
+        log.info(`⚡ [ELECTRON MAIN] ──▶ IPC Response: Successfully fetched ${result.data.length} products in category '${category}'${result.fromCache ? ' (cache)' : ''}`);
       }
-      return products;
+      return result;
     } catch (error) {
       log.error(`⚡ [ELECTRON MAIN] ✗ IPC Error in products:getByCategory (Category: '${category}'):`, error);
       throw error;
@@ -118,6 +194,52 @@ export function registerProductHandlers(): void {
   }
 }
 
+/**
+ * Look up the authoritative catalog entry for a product (used for server-side order pricing)
+ * Uses the same source as the renderer: the Faker catalog or the configured backend. Prices are
+ * always fetched fresh; a cached price is only used offline, and only if it is recent.
+ * @param id Product ID
+ * @returns The product, or null if it no longer exists
+ */
+export async function getCatalogProduct(id: number): Promise<Product | null> {
+  if (fakerCatalog) {
+    return fakerCatalog.products.find(product => product.id === id) ?? null;
+  }
+
+  try {
+    const result = await catalogCache.refresh(`product-${id}`, () => fetchFromAPI<Product>(`/products/${id}`));
+    return isPriced(result.data) ? result.data : null;
+  } catch (error) {
+    if (isNotFound(error)) {
+      return null;
+    }
+
+    const cached = await recentCachedProduct(id);
+    if (cached) {
+      log.warn(`⚡ [ELECTRON MAIN] Network unavailable, pricing product ${id} from its cached entry`);
+      return cached;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Cached copy of a product no older than PRICING_MAX_AGE (from its own entry or the product list)
+ */
+async function recentCachedProduct(id: number): Promise<Product | null> {
+  const recent = <T>(entry: { fetchedAt: string; data: T } | null) =>
+    entry && Date.now() - new Date(entry.fetchedAt).getTime() <= PRICING_MAX_AGE ? entry.data : null;
+
+  const product = recent(await catalogCache.peek<Product>(`product-${id}`))
+    ?? recent(await catalogCache.peek<Product[]>('products'))?.find(p => p.id === id);
+  return isPriced(product) ? product : null;
+}
+
+// Only a product with a numeric price can be charged for
+function isPriced(product: Product | null | undefined): product is Product {
+  return !!product && typeof product.price === 'number';
+}
+
 /**
  * Unregister all product-related IPC handlers (for cleanup)
  */
@@ -126,10 +248,7 @@ export function unregisterProductHandlers(): void {
     log.info('⚡ [ELECTRON MAIN] Unregistering product IPC handlers...');
   }
   
-  ipcMain.removeHandler('products:getAll');
-  ipcMain.removeHandler('products:getById');
-  ipcMain.removeHandler('products:getCategories');
-  ipcMain.removeHandler('products:getByCategory');
+  Object.values(IPC_CONTRACT.products).forEach(removeHandler);
   
   if (IS_DEV) {
     log.info('⚡ [ELECTRON MAIN] Product IPC handlers unregistered');
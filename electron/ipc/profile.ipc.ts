@@ -0,0 +1,42 @@
+import { IPC_CONTRACT } from '../../shared/ipc-contract';
+import { profileIdFor } from '../../shared/data-profiles';
+import { handle } from './ipc-handle';
+import { validate } from '../validation/schema';
+import { profileUserIdSchema } from '../validation/profile.schemas';
+import { activateProfile, resolveProfile } from '../services/data-stores';
+import { isSignedInAs } from '../services/auth-session';
+
+/**
+ * Profile IPC Handlers for Electron
+ * The renderer activates the profile of the logged-in user (or guest); cart, order and
+ * vault handlers then serve that profile's data. A user's profile is only activated once
+ * the auth backend confirms the session belongs to that user.
+ */
+
+// Latest activation request; an older one finishing its auth check later must not win
+let activation = 0;
+
+/**
+ * Initialize profile IPC handlers
+ */
+export function setupProfileIPC(): void {
+  console.log('⚡ [ELECTRON MAIN] Setting up profile IPC handlers');
+
+  handle(IPC_CONTRACT.profile.getActive, async () => {
+    const profile = await resolveProfile({ requireUnlocked: false });
+    return profile.info;
+  });
+
+  handle(IPC_CONTRACT.profile.activate, async (event, payload) => {
+    const userId = validate<string | null>(profileUserIdSchema, payload, IPC_CONTRACT.profile.activate.channel, 'userId');
+    const request = ++activation;
+    if (userId && !(await isSignedInAs(event.sender.session, userId))) {
+      // Keep serving the current profile; the renderer stays on it
+      throw new Error('The auth backend did not confirm the signed-in user');
+    }
+    if (request !== activation) {
+      throw new Error('Superseded by a newer profile activation');
+    }
+    return activateProfile(profileIdFor(userId || null)).info;
+  });
+}
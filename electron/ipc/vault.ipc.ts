@@ -0,0 +1,68 @@
+import { IPC_CONTRACT } from '../../shared/ipc-contract';
+import { VaultError, toTransportError } from '../../shared/ipc-errors';
+import type { VaultStatus } from '../../src/app/core/interfaces/vault.interface';
+import { handle } from './ipc-handle';
+import { validate } from '../validation/schema';
+import { newPassphraseSchema, passphraseSchema } from '../validation/vault.schemas';
+import { resolveProfile } from '../services/data-stores';
+import type { StoreVault } from '../services/store-vault';
+import type { JsonFileStore } from '../services/json-file-store';
+
+/**
+ * Vault IPC Handlers for Electron
+ * Unlocking and passphrase management for the encrypted cart and order stores
+ * (each data profile has its own vault and passphrase)
+ */
+
+/**
+ * Initialize vault IPC handlers
+ */
+export function setupVaultIPC(): void {
+  console.log('⚡ [ELECTRON MAIN] Setting up vault IPC handlers');
+
+  handle(IPC_CONTRACT.vault.getStatus, () => runVaultAction('read vault status', async vault => vault.status));
+
+  handle(IPC_CONTRACT.vault.unlock, (event, payload) => {
+    const passphrase = validate<string>(passphraseSchema, payload, IPC_CONTRACT.vault.unlock.channel, 'passphrase');
+    return runVaultAction('unlock data', vault => vault.unlock(passphrase));
+  });
+
+  handle(IPC_CONTRACT.vault.lock, () => runVaultAction('lock data', async vault => vault.lock()));
+
+  handle(IPC_CONTRACT.vault.enable, (event, payload) => {
+    const passphrase = validate<string>(newPassphraseSchema, payload, IPC_CONTRACT.vault.enable.channel, 'passphrase');
+    return runVaultAction('enable encryption', (vault, stores) => vault.enable(passphrase, stores));
+  });
+
+  handle(IPC_CONTRACT.vault.changePassphrase, (event, currentPayload, nextPayload) => {
+    const channel = IPC_CONTRACT.vault.changePassphrase.channel;
+    const current = validate<string>(passphraseSchema, currentPayload, channel, 'current');
+    const next = validate<string>(newPassphraseSchema, nextPayload, channel, 'next');
+    return runVaultAction('change passphrase', (vault, stores) => vault.changePassphrase(current, next, stores));
+  });
+
+  handle(IPC_CONTRACT.vault.disable, (event, payload) => {
+    const passphrase = validate<string>(passphraseSchema, payload, IPC_CONTRACT.vault.disable.channel, 'passphrase');
+    return runVaultAction('disable encryption', (vault, stores) => vault.disable(passphrase, stores));
+  });
+}
+
+/**
+ * Run a vault operation on the active profile, forwarding VaultErrors (e.g. wrong passphrase) to the renderer
+ */
+async function runVaultAction(
+  action: string,
+  task: (vault: StoreVault, stores: JsonFileStore<unknown>[]) => Promise<VaultStatus>
+): Promise<VaultStatus> {
+  try {
+    const profile = await resolveProfile({ requireUnlocked: false });
+    return await task(profile.vault, profile.encryptedStores);
+  } catch (error) {
+    if (error instanceof VaultError) {
+      console.warn(`⚡ [ELECTRON MAIN] Could not ${action}: ${error.message}`);
+      throw toTransportError(error);
+    }
+    console.error(`⚡ [ELECTRON MAIN] Failed to ${action}:`, error);
+    throw new Error(`Failed to ${action}`);
+  }
+}
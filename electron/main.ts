@@ -1,16 +1,24 @@
-import { app, BrowserWindow, ipcMain } from "electron";
+import { app, BrowserWindow } from "electron";
 import path from "path";
 import fs from "fs";
 import log from "electron-log";
 import { registerProductHandlers } from "./ipc/product.ipc";
 import { setupCartIPC } from "./ipc/cart.ipc";
+import { setupCheckoutIPC } from "./ipc/checkout.ipc";
+import { setupCustomerIPC } from "./ipc/customer.ipc";
+import { setupVaultIPC } from "./ipc/vault.ipc";
+import { setupProfileIPC } from "./ipc/profile.ipc";
+import { setupDocumentIPC } from "./ipc/document.ipc";
+import { handle } from "./ipc/ipc-handle";
+import { IPC_CONTRACT, IPC_CONTRACT_ARG, getIpcChannelMap } from "../shared/ipc-contract";
+import { createPaymentGateway } from "../shared/payment-gateway";
 
 let mainWindow: BrowserWindow | null = null;
 
 // --- Load Config ---
 const isDev = !!process.env["ELECTRON_DEV"];
 const configFile = isDev ? "config.dev.json" : "config.prod.json";
-const configPath = path.join(__dirname, `../config/${configFile}`);
+const configPath = path.join(__dirname, `../../config/${configFile}`);
 
 let config: any = {};
 try {
@@ -29,7 +37,9 @@ function createWindow() {
     webPreferences: {
       preload: path.join(__dirname, "preload.js"),
       contextIsolation: true,
-      nodeIntegration: false
+      nodeIntegration: false,
+      // The preload builds window.electronAPI from the shared IPC contract's channel map
+      additionalArguments: [`${IPC_CONTRACT_ARG}${encodeURIComponent(JSON.stringify(getIpcChannelMap()))}`]
     }
   });
 
@@ -47,7 +57,7 @@ function createWindow() {
     loadAngularApp();
   } else {
     // Production mode - load the built Angular app
-    const indexPath = path.join(__dirname, "../dist/electron-faker-angular/browser/index.html");
+    const indexPath = path.join(__dirname, "../../dist/electron-faker-angular/browser/index.html");
     log.info(`[startup] Loading production build from: ${indexPath}`);
     log.info(`[startup] Current directory: ${__dirname}`);
     log.info(`[startup] Process working directory: ${process.cwd()}`);
@@ -61,7 +71,7 @@ function createWindow() {
     } else {
       log.error(`[startup] Production build not found at: ${indexPath}`);
       // Try to list what's actually in the directory
-      const parentDir = path.join(__dirname, "..");
+      const parentDir = path.join(__dirname, "../..");
       log.info(`[debug] Contents of parent directory (${parentDir}):`);
       try {
         const contents = fs.readdirSync(parentDir);
@@ -71,7 +81,7 @@ function createWindow() {
       }
       
       // Fallback: try alternative paths
-      const altPath = path.join(__dirname, "../browser/index.html");
+      const altPath = path.join(__dirname, "../../browser/index.html");
       if (fs.existsSync(altPath)) {
         log.info(`[startup] Loading from alternative path: ${altPath}`);
         mainWindow.loadFile(altPath);
@@ -96,18 +106,66 @@ app.whenReady().then(() => {
   
   // Register IPC handlers
   try {
-    registerProductHandlers();
+    registerProductHandlers({
+      apiBaseUrl: config.apiBaseUrl,
+      apiTimeout: config.apiTimeout,
+      dataSource: config.dataSource,
+      faker: config.faker
+    });
     log.info("[IPC] Product handlers registered successfully");
   } catch (err) {
     log.error(`[IPC] Failed to register product handlers: ${err}`);
   }
 
   try {
-    setupCartIPC();
+    setupCartIPC({
+      pricingPolicy: config.pricingPolicy,
+      pricingRules: config.pricing,
+      deliveryRules: config.delivery,
+      promotions: config.promotions,
+      currencies: config.currencies,
+      paymentGateway: createPaymentGateway(config.paymentGateway),
+      paymentTimeoutMs: config.paymentGateway?.timeoutMs
+    });
     log.info("[IPC] Cart handlers registered successfully");
   } catch (err) {
     log.error(`[IPC] Failed to register cart handlers: ${err}`);
   }
+
+  try {
+    setupCheckoutIPC();
+    log.info("[IPC] Checkout handlers registered successfully");
+  } catch (err) {
+    log.error(`[IPC] Failed to register checkout handlers: ${err}`);
+  }
+
+  try {
+    setupCustomerIPC();
+    log.info("[IPC] Customer profile handlers registered successfully");
+  } catch (err) {
+    log.error(`[IPC] Failed to register customer profile handlers: ${err}`);
+  }
+
+  try {
+    setupProfileIPC();
+    log.info("[IPC] Profile handlers registered successfully");
+  } catch (err) {
+    log.error(`[IPC] Failed to register profile handlers: ${err}`);
+  }
+
+  try {
+    setupVaultIPC();
+    log.info("[IPC] Vault handlers registered successfully");
+  } catch (err) {
+    log.error(`[IPC] Failed to register vault handlers: ${err}`);
+  }
+
+  try {
+    setupDocumentIPC();
+    log.info("[IPC] Document handlers registered successfully");
+  } catch (err) {
+    log.error(`[IPC] Failed to register document handlers: ${err}`);
+  }
   
   createWindow();
 
@@ -124,6 +182,6 @@ app.on("window-all-closed", () => {
 });
 
 // --- IPC Channels ---
-ipcMain.handle("app:getVersion", () => app.getVersion());
-ipcMain.handle("app:getConfig", () => config);
-ipcMain.handle("app:quit", () => app.quit());
+handle(IPC_CONTRACT.app.getVersion, () => app.getVersion());
+handle(IPC_CONTRACT.app.getConfig, () => config);
+handle(IPC_CONTRACT.app.quit, () => app.quit());
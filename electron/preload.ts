@@ -1,69 +1,35 @@
 import { contextBridge, ipcRenderer } from "electron";
+import type { ElectronAPI, IpcChannelMap, IPC_CONTRACT_ARG } from "../shared/ipc-contract";
 
 /**
  * Preload script that exposes secure APIs to the renderer process
  * Uses contextBridge to safely expose IPC methods
+ *
+ * The API is built from the shared IPC contract (shared/ipc-contract.ts). Sandboxed preload
+ * scripts cannot require local modules, so the main process passes the contract's channel map
+ * in through `additionalArguments`.
  */
-contextBridge.exposeInMainWorld("electronAPI", {
-  // App-level APIs
-  getAppVersion: () => ipcRenderer.invoke("app:getVersion"),
-  getAppConfig: () => ipcRenderer.invoke("app:getConfig"),
-  quitApp: () => ipcRenderer.invoke("app:quit"),
+const CONTRACT_ARG: typeof IPC_CONTRACT_ARG = "--ipc-contract=";
 
-  // Product APIs
-  products: {
-    /**
-     * Get all products from FakeStoreAPI
-     */
-    getAll: () => ipcRenderer.invoke("products:getAll"),
-
-    /**
-     * Get a single product by ID
-     * @param id Product ID
-     */
-    getById: (id: number) => ipcRenderer.invoke("products:getById", id),
-
-    /**
-     * Get all product categories
-     */
-    getCategories: () => ipcRenderer.invoke("products:getCategories"),
-
-    /**
-     * Get products by category
-     * @param category Category name
-     */
-    getByCategory: (category: string) => ipcRenderer.invoke("products:getByCategory", category)
-  },
-
-  // Cart APIs  
-  cart: {
-    /**
-     * Save cart data to file system
-     * @param cart Cart object to save
-     */
-    save: (cart: any) => ipcRenderer.invoke("cart:save", cart),
-
-    /**
-     * Load cart data from file system
-     */
-    load: () => ipcRenderer.invoke("cart:load"),
-
-    /**
-     * Submit order for processing
-     * @param orderRequest Order request data
-     */
-    submitOrder: (orderRequest: any) => ipcRenderer.invoke("cart:submitOrder", orderRequest),
+function readChannelMap(): IpcChannelMap {
+  const arg = process.argv.find(value => value.startsWith(CONTRACT_ARG));
+  if (!arg) {
+    throw new Error("IPC contract was not passed to the preload script");
+  }
+  return JSON.parse(decodeURIComponent(arg.slice(CONTRACT_ARG.length)));
+}
 
-    /**
-     * Get order by ID
-     * @param orderId Order ID
-     */
-    getOrder: (orderId: string) => ipcRenderer.invoke("cart:getOrder", orderId),
+function buildElectronAPI(channels: IpcChannelMap): ElectronAPI {
+  const api: Record<string, Record<string, (...args: unknown[]) => Promise<unknown>>> = {};
 
-    /**
-     * Get all orders
-     */
-    getOrders: () => ipcRenderer.invoke("cart:getOrders")
+  for (const [namespace, methods] of Object.entries(channels)) {
+    api[namespace] = {};
+    for (const [method, channel] of Object.entries(methods as Record<string, string>)) {
+      api[namespace][method] = (...args: unknown[]) => ipcRenderer.invoke(channel, ...args);
+    }
   }
-});
 
+  return api as ElectronAPI;
+}
+
+contextBridge.exposeInMainWorld("electronAPI", buildElectronAPI(readChannelMap()));
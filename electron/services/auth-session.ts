@@ -0,0 +1,35 @@
+import type { Session } from 'electron';
+import { AUTH_API_URL } from '../../shared/auth';
+import { profileUserId } from '../../shared/data-profiles';
+
+/**
+ * Auth Session
+ * The renderer reports who is logged in, but the main process never takes its word for it:
+ * before a user's data profile is served, the window's own session (and its HttpOnly auth
+ * cookies) is checked against the auth backend.
+ */
+
+const AUTH_CHECK_TIMEOUT = 10000; // 10 seconds
+
+/**
+ * Whether the auth backend confirms the session belongs to the user
+ * @param session Session of the window that asked (carries its auth cookies)
+ * @param userId User id from profileUserId() (shared/data-profiles.ts)
+ * @returns False if the backend disagrees, refuses the session or cannot be reached
+ */
+export async function isSignedInAs(session: Session, userId: string): Promise<boolean> {
+  try {
+    const response = await session.fetch(`${AUTH_API_URL}/me`, {
+      credentials: 'include',
+      signal: AbortSignal.timeout(AUTH_CHECK_TIMEOUT)
+    });
+    if (!response.ok) {
+      return false;
+    }
+    const body = await response.json() as { user?: { id?: unknown; username?: unknown } };
+    return profileUserId(body.user) === userId;
+  } catch (error) {
+    console.warn('⚡ [ELECTRON MAIN] Could not confirm the signed-in user with the auth backend:', error);
+    return false;
+  }
+}
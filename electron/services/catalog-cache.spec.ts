@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CATALOG_TTL, CatalogCache } from './catalog-cache';
+
+describe('CatalogCache', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'catalog-cache-'));
+  });
+
+  afterEach(async () => {
+    jasmine.clock().uninstall();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  function cacheFiles(namespace: string): Promise<string[]> {
+    return fs.readdir(path.join(rootDir, 'catalog-cache', sha256(namespace)));
+  }
+
+  it('should fetch on a miss and serve later requests from the cache', async () => {
+    const cache = new CatalogCache('https://api.example.com', rootDir);
+    const fetcher = jasmine.createSpy('fetcher').and.resolveTo(['electronics']);
+
+    const first = await cache.get('categories', 'categories', fetcher);
+    const second = await cache.get('categories', 'categories', fetcher);
+
+    expect(first).toEqual(jasmine.objectContaining({ data: ['electronics'], fromCache: false, stale: false }));
+    expect(second).toEqual(jasmine.objectContaining({ data: ['electronics'], fromCache: true, stale: false }));
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep entries on disk for the next instance', async () => {
+    await new CatalogCache('https://api.example.com', rootDir).get('products', 'products', async () => [1, 2]);
+
+    const fetcher = jasmine.createSpy('fetcher');
+    const result = await new CatalogCache('https://api.example.com', rootDir).get('products', 'products', fetcher);
+
+    expect(result.data).toEqual([1, 2]);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('should serve a stale entry and revalidate it in the background', async () => {
+    const cache = new CatalogCache('https://api.example.com', rootDir);
+    await cache.get('product', 'product-1', async () => ({ id: 1, price: 10 }));
+
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(Date.now() + CATALOG_TTL.product + 1000));
+    const stale = await cache.get('product', 'product-1', async () => ({ id: 1, price: 12 }));
+    jasmine.clock().uninstall();
+
+    expect(stale).toEqual(jasmine.objectContaining({ data: { id: 1, price: 10 }, fromCache: true, stale: true }));
+    // The refreshed entry reaches the disk without another request
+    await until(async () =>
+      (await new CatalogCache('https://api.example.com', rootDir).peek<{ price: number }>('product-1'))?.data.price === 12
+    );
+  });
+
+  it('should share one request between concurrent misses', async () => {
+    const cache = new CatalogCache('https://api.example.com', rootDir);
+    const fetcher = jasmine.createSpy('fetcher').and.resolveTo('data');
+
+    await Promise.all([cache.get('products', 'products', fetcher), cache.get('products', 'products', fetcher)]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should bypass the cached copy on refresh', async () => {
+    const cache = new CatalogCache('https://api.example.com', rootDir);
+    await cache.get('product', 'product-1', async () => ({ id: 1, price: 10 }));
+
+    const fresh = await cache.refresh('product-1', async () => ({ id: 1, price: 15 }));
+    const cached = await cache.peek('product-1');
+
+    expect(fresh).toEqual(jasmine.objectContaining({ data: { id: 1, price: 15 }, fromCache: false }));
+    expect(cached?.data).toEqual({ id: 1, price: 15 });
+  });
+
+  it('should keep backends apart', async () => {
+    await new CatalogCache('https://one.example.com', rootDir).get('categories', 'categories', async () => ['one']);
+
+    const result = await new CatalogCache('https://two.example.com', rootDir).get('categories', 'categories', async () => ['two']);
+
+    expect(result.data).toEqual(['two']);
+  });
+
+  it('should store every key under a hashed file name', async () => {
+    const cache = new CatalogCache('https://api.example.com', rootDir);
+    await cache.get('category', 'category-men\'s clothing/../..', async () => []);
+    await cache.get('category', 'category-MEN', async () => []);
+
+    const files = await cacheFiles('https://api.example.com');
+
+    expect(files.length).toBe(2);
+    expect(files.every(file => /^[0-9a-f]{64}\.json$/.test(file))).toBeTrue();
+  });
+
+  it('should ignore an entry stored for a different key', async () => {
+    const dir = path.join(rootDir, 'catalog-cache', sha256('https://api.example.com'));
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, `${sha256('products')}.json`),
+      JSON.stringify({ key: 'categories', fetchedAt: new Date().toISOString(), data: ['wrong'] }));
+
+    const cache = new CatalogCache('https://api.example.com', rootDir);
+
+    expect(await cache.peek('products')).toBeNull();
+  });
+
+  it('should treat an unreadable entry as a miss', async () => {
+    const dir = path.join(rootDir, 'catalog-cache', sha256('https://api.example.com'));
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, `${sha256('products')}.json`), '{"key": "prod');
+
+    const result = await new CatalogCache('https://api.example.com', rootDir).get('products', 'products', async () => ['fresh']);
+
+    expect(result).toEqual(jasmine.objectContaining({ data: ['fresh'], fromCache: false }));
+  });
+});
+
+async function until(condition: () => Promise<boolean>): Promise<void> {
+  for (let attempt = 0; !(await condition()); attempt++) {
+    if (attempt === 100) {
+      fail('Condition not met in time');
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
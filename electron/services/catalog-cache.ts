@@ -0,0 +1,183 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import log from 'electron-log';
+import { fileErrorCode, writeFileAtomic } from './json-file-store';
+
+/**
+ * Catalog Cache
+ * Persistent on-disk cache for catalog responses with stale-while-revalidate semantics.
+ * Fresh entries are served straight from disk, stale entries are served immediately while
+ * a background refresh runs, and missing entries go to the network.
+ */
+
+const IS_DEV = process.env.ELECTRON_DEV === 'true';
+
+/**
+ * Time-to-live per catalog endpoint (milliseconds)
+ */
+export const CATALOG_TTL = {
+  products: 10 * 60 * 1000,        // 10 minutes
+  product: 10 * 60 * 1000,         // 10 minutes
+  categories: 60 * 60 * 1000,      // 1 hour
+  category: 10 * 60 * 1000         // 10 minutes
+} as const;
+
+export type CatalogEndpoint = keyof typeof CATALOG_TTL;
+
+/**
+ * Entry as stored on disk
+ */
+interface CacheEntry<T> {
+  key: string;
+  fetchedAt: string;
+  data: T;
+}
+
+/**
+ * Result returned to IPC handlers
+ */
+export interface CatalogResult<T> {
+  data: T;
+  fromCache: boolean;
+  stale: boolean;
+  fetchedAt: string;
+}
+
+export class CatalogCache {
+  private readonly cacheDir: string;
+  private readonly memory = new Map<string, CacheEntry<unknown>>();
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  /**
+   * @param namespace Identifies the catalog backend (e.g. its base URL); each gets its own folder
+   * @param rootDir Folder holding the cache (the app's user data folder)
+   */
+  constructor(namespace: string, rootDir: string) {
+    this.cacheDir = path.join(rootDir, 'catalog-cache', hashName(namespace));
+  }
+
+  /**
+   * Resolve a catalog request through the cache
+   * @param endpoint Endpoint type (selects the TTL)
+   * @param key Unique cache key for the request
+   * @param fetcher Function that loads fresh data from the network
+   */
+  async get<T>(endpoint: CatalogEndpoint, key: string, fetcher: () => Promise<T>): Promise<CatalogResult<T>> {
+    const entry = await this.read<T>(key);
+
+    if (entry) {
+      const age = Date.now() - new Date(entry.fetchedAt).getTime();
+      const stale = age > CATALOG_TTL[endpoint];
+
+      if (stale) {
+        if (IS_DEV) {
+          log.info(`⚡ [CATALOG CACHE] Serving stale '${key}' and revalidating in background`);
+        }
+        this.revalidate(key, fetcher).catch(error => {
+          log.warn(`⚡ [CATALOG CACHE] Background revalidation failed for '${key}':`, error instanceof Error ? error.message : error);
+        });
+      } else if (IS_DEV) {
+        log.info(`⚡ [CATALOG CACHE] Cache hit for '${key}'`);
+      }
+
+      return { data: entry.data, fromCache: true, stale, fetchedAt: entry.fetchedAt };
+    }
+
+    const fresh = await this.revalidate(key, fetcher);
+    return { data: fresh.data, fromCache: false, stale: false, fetchedAt: fresh.fetchedAt };
+  }
+
+  /**
+   * Bypass the cached copy and load fresh data, updating the cache
+   * @param key Unique cache key for the request
+   * @param fetcher Function that loads fresh data from the network
+   */
+  async refresh<T>(key: string, fetcher: () => Promise<T>): Promise<CatalogResult<T>> {
+    const fresh = await this.revalidate(key, fetcher);
+    return { data: fresh.data, fromCache: false, stale: false, fetchedAt: fresh.fetchedAt };
+  }
+
+  /**
+   * Read a cached value regardless of its age (used for offline fallbacks)
+   * @param key Cache key
+   */
+  async peek<T>(key: string): Promise<CacheEntry<T> | null> {
+    return this.read<T>(key);
+  }
+
+  /**
+   * Remove every cached entry
+   */
+  async clear(): Promise<void> {
+    this.memory.clear();
+    try {
+      await fs.rm(this.cacheDir, { recursive: true, force: true });
+      log.info('⚡ [CATALOG CACHE] Cache cleared');
+    } catch (error) {
+      log.error('⚡ [CATALOG CACHE] Failed to clear cache:', error);
+    }
+  }
+
+  /**
+   * Fetch fresh data and persist it, de-duplicating concurrent requests for the same key
+   */
+  private revalidate<T>(key: string, fetcher: () => Promise<T>): Promise<CacheEntry<T>> {
+    const pending = this.inFlight.get(key) as Promise<CacheEntry<T>> | undefined;
+    if (pending) {
+      return pending;
+    }
+
+    const request = (async () => {
+      const data = await fetcher();
+      const entry: CacheEntry<T> = { key, fetchedAt: new Date().toISOString(), data };
+      await this.write(entry);
+      return entry;
+    })().finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private async read<T>(key: string): Promise<CacheEntry<T> | null> {
+    const cached = this.memory.get(key) as CacheEntry<T> | undefined;
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const raw = await fs.readFile(this.fileFor(key), 'utf-8');
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      if (entry.key !== key) {
+        return null;
+      }
+      this.memory.set(key, entry);
+      return entry;
+    } catch (error) {
+      if (fileErrorCode(error) !== 'ENOENT') {
+        log.warn(`⚡ [CATALOG CACHE] Ignoring unreadable cache entry '${key}':`, error instanceof Error ? error.message : error);
+      }
+      return null;
+    }
+  }
+
+  private async write<T>(entry: CacheEntry<T>): Promise<void> {
+    this.memory.set(entry.key, entry);
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+      await writeFileAtomic(this.fileFor(entry.key), JSON.stringify(entry));
+    } catch (error) {
+      // A failed disk write should not fail the request; the entry stays in memory
+      log.error(`⚡ [CATALOG CACHE] Failed to persist '${entry.key}':`, error);
+    }
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.cacheDir, `${hashName(key)}.json`);
+  }
+}
+
+// File name for a key or namespace: hashed so distinct keys never share a file and any key is a valid name
+function hashName(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
@@ -0,0 +1,51 @@
+import { HttpStatusError, fetchCatalog, isNotFound } from './catalog-client';
+
+describe('fetchCatalog', () => {
+  function respond(body: string, status = 200): void {
+    spyOn(globalThis, 'fetch').and.resolveTo(new Response(body, { status }));
+  }
+
+  it('should return the parsed body', async () => {
+    respond('{"id": 1, "price": 9.99}');
+
+    const product = await fetchCatalog('https://api.example.com', '/products/1', 1000);
+
+    expect(product).toEqual({ id: 1, price: 9.99 });
+    expect(globalThis.fetch).toHaveBeenCalledWith('https://api.example.com/products/1', jasmine.any(Object));
+  });
+
+  it('should report a non-2xx response with its status', async () => {
+    respond('Server error', 503);
+
+    const error = await fetchCatalog('https://api.example.com', '/products', 1000).catch(reason => reason);
+
+    expect(error).toEqual(jasmine.any(HttpStatusError));
+    expect(error).toEqual(jasmine.objectContaining({ status: 503 }));
+    expect(isNotFound(error)).toBeFalse();
+  });
+
+  it('should treat an empty body as not found', async () => {
+    respond('');
+
+    const error = await fetchCatalog('https://api.example.com', '/products/999', 1000).catch(reason => reason);
+
+    expect(isNotFound(error)).toBeTrue();
+  });
+
+  it('should treat a null body as not found', async () => {
+    respond('null\n');
+
+    const error = await fetchCatalog('https://api.example.com', '/products/999', 1000).catch(reason => reason);
+
+    expect(isNotFound(error)).toBeTrue();
+  });
+
+  it('should not mistake a malformed body for a missing entry', async () => {
+    respond('{"id": 1, "pri');
+
+    const error = await fetchCatalog('https://api.example.com', '/products/1', 1000).catch(reason => reason);
+
+    expect(error).toEqual(jasmine.any(SyntaxError));
+    expect(isNotFound(error)).toBeFalse();
+  });
+});
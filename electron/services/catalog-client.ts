@@ -0,0 +1,47 @@
+/**
+ * Catalog Client
+ * Requests to the catalog backend (FakeStoreAPI or a compatible service).
+ */
+
+/**
+ * Non-2xx response from the catalog backend
+ */
+export class HttpStatusError extends Error {
+  constructor(readonly status: number, endpoint: string) {
+    super(`HTTP error! status: ${status} (${endpoint})`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/**
+ * True if the backend reported that the requested entry does not exist
+ */
+export function isNotFound(error: unknown): boolean {
+  return error instanceof HttpStatusError && error.status === 404;
+}
+
+/**
+ * Fetch an endpoint of the catalog backend
+ * The response is trusted to have the backend's documented shape T. Some backends answer an
+ * unknown id with an empty body (or `null`) rather than a 404; that is reported as a 404 too.
+ * @param baseUrl Backend URL without a trailing slash
+ * @param endpoint Path starting with a slash, e.g. `/products/1`
+ * @param timeout Request timeout in milliseconds
+ * @throws HttpStatusError for a non-2xx response or an empty body
+ */
+export async function fetchCatalog<T>(baseUrl: string, endpoint: string, timeout: number): Promise<T> {
+  const response = await fetch(`${baseUrl}${endpoint}`, {
+    signal: AbortSignal.timeout(timeout)
+  });
+
+  if (!response.ok) {
+    throw new HttpStatusError(response.status, endpoint);
+  }
+
+  const body = (await response.text()).trim();
+  const data: T | null = body ? JSON.parse(body) : null;
+  if (data === null) {
+    throw new HttpStatusError(404, endpoint);
+  }
+  return data;
+}
@@ -0,0 +1,179 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import type { Cart, Order } from '../../src/app/core/interfaces/cart.interface';
+import type { CheckoutDraft } from '../../src/app/core/interfaces/checkout-draft.interface';
+import type { CustomerProfile } from '../../src/app/core/interfaces/customer-profile.interface';
+import type { DataProfileInfo } from '../../src/app/core/interfaces/data-profile.interface';
+import { VaultError, toTransportError } from '../../shared/ipc-errors';
+import { cartMigrator, checkoutDraftMigrator, customerProfileMigrator, ordersMigrator, VersionedDocument } from '../../shared/migrations';
+import { GUEST_PROFILE } from '../../shared/data-profiles';
+import type { RedemptionLedger } from '../../shared/promotions';
+import { JsonFileStore } from './json-file-store';
+import { StoreVault } from './store-vault';
+
+/**
+ * Data Stores
+ * The desktop app's persisted documents, kept per data profile (one per user, plus guest):
+ *   <USER_DATA_DIR>/profiles/<profile id>/{cart,orders,checkout-draft,customer,vault}.json
+ * (profile ids too long for a file name get a hashed directory name instead)
+ * IPC handlers resolve the active profile once per request, so a profile switch never
+ * mixes two users' data within one operation.
+ */
+
+// User data directory for storing cart and orders
+export const USER_DATA_DIR = path.join(os.homedir(), '.electron-faker-angular');
+const PROFILES_DIR = path.join(USER_DATA_DIR, 'profiles');
+// Longest profile id used as a directory name as is (file systems allow 255 bytes)
+const MAX_PROFILE_DIR_NAME = 128;
+
+// Files written before data was kept per profile; they become the guest profile's data
+const LEGACY_FILES = ['cart.json', 'orders.json', 'vault.json'];
+
+/**
+ * Promo code redemptions of every profile, so usage limits are not per user
+ * Kept outside the profiles and unencrypted (codes and order ids only), so limits hold while
+ * other profiles are locked.
+ */
+export const redemptionStore = new JsonFileStore<RedemptionLedger>(path.join(USER_DATA_DIR, 'promotion-redemptions.json'), {
+  isValid: data => typeof data === 'object' && data !== null && !Array.isArray(data)
+});
+
+/**
+ * One user's stores and the vault that optionally encrypts them
+ */
+export class DataProfile {
+  readonly dir: string;
+  // Passphrase-based encryption at rest (disabled until a passphrase is set)
+  readonly vault: StoreVault;
+  // Atomic, serialized access to the data files (with backup, corruption recovery and schema migration)
+  readonly cartStore: JsonFileStore<VersionedDocument<Cart>>;
+  readonly ordersStore: JsonFileStore<VersionedDocument<Order[]>>;
+  readonly draftStore: JsonFileStore<VersionedDocument<CheckoutDraft>>;
+  readonly customerStore: JsonFileStore<VersionedDocument<CustomerProfile>>;
+
+  constructor(readonly id: string) {
+    this.dir = path.join(PROFILES_DIR, profileDirName(id));
+    this.vault = new StoreVault(path.join(this.dir, 'vault.json'));
+    this.cartStore = new JsonFileStore(path.join(this.dir, 'cart.json'), {
+      label: `cart.json (${id})`,
+      migrate: data => cartMigrator.migrate(data),
+      codec: this.vault
+    });
+    this.ordersStore = new JsonFileStore(path.join(this.dir, 'orders.json'), {
+      label: `orders.json (${id})`,
+      migrate: data => ordersMigrator.migrate(data),
+      codec: this.vault
+    });
+    this.draftStore = new JsonFileStore(path.join(this.dir, 'checkout-draft.json'), {
+      label: `checkout-draft.json (${id})`,
+      migrate: data => checkoutDraftMigrator.migrate(data),
+      codec: this.vault
+    });
+    this.customerStore = new JsonFileStore(path.join(this.dir, 'customer.json'), {
+      label: `customer.json (${id})`,
+      migrate: data => customerProfileMigrator.migrate(data),
+      codec: this.vault
+    });
+  }
+
+  /**
+   * Every store covered by the vault (re-encrypted when the passphrase changes)
+   */
+  get encryptedStores(): JsonFileStore<unknown>[] {
+    return [this.cartStore, this.ordersStore, this.draftStore, this.customerStore];
+  }
+
+  get info(): DataProfileInfo {
+    return { id: this.id, guest: this.id === GUEST_PROFILE };
+  }
+}
+
+const profiles = new Map<string, DataProfile>();
+let activeProfileId = GUEST_PROFILE;
+let legacyMigration: Promise<void> | undefined;
+
+/**
+ * Switch the profile served to the renderer
+ * @param profileId Id from profileIdFor() (shared/data-profiles.ts)
+ */
+export function activateProfile(profileId: string): DataProfile {
+  if (profileId !== activeProfileId) {
+    console.log(`⚡ [ELECTRON MAIN] Switching data profile: ${activeProfileId} → ${profileId}`);
+    // The next person on a shared machine must not inherit an unlocked vault
+    profiles.get(activeProfileId)?.vault.lock();
+    activeProfileId = profileId;
+  }
+  return getProfile(profileId);
+}
+
+/**
+ * Resolve the active profile for an IPC request
+ * @param options.requireUnlocked Refuse access while the profile's stores are locked (default true)
+ * @throws Transport-safe VaultError 'locked'
+ */
+export async function resolveProfile({ requireUnlocked = true } = {}): Promise<DataProfile> {
+  await (legacyMigration ??= migrateLegacyFiles());
+
+  const profile = getProfile(activeProfileId);
+  await profile.vault.ready();
+  if (requireUnlocked && !profile.vault.status.unlocked) {
+    throw toTransportError(new VaultError('locked'));
+  }
+  return profile;
+}
+
+function getProfile(profileId: string): DataProfile {
+  let profile = profiles.get(profileId);
+  if (!profile) {
+    profile = new DataProfile(profileId);
+    profiles.set(profileId, profile);
+  }
+  return profile;
+}
+
+/**
+ * Move data from before per-profile storage into the guest profile (once)
+ */
+async function migrateLegacyFiles(): Promise<void> {
+  const guestDir = path.join(PROFILES_DIR, GUEST_PROFILE);
+
+  for (const file of LEGACY_FILES) {
+    for (const name of [file, `${file}.bak`]) {
+      const source = path.join(USER_DATA_DIR, name);
+      const target = path.join(guestDir, name);
+      try {
+        // Never overwrite guest data that already exists
+        if (!(await exists(source)) || await exists(target)) {
+          continue;
+        }
+        await fs.mkdir(guestDir, { recursive: true });
+        await fs.rename(source, target);
+        console.log(`⚡ [ELECTRON MAIN] Moved ${name} into the guest profile`);
+      } catch (error) {
+        console.error(`⚡ [ELECTRON MAIN] Failed to move ${name} into the guest profile:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Directory name for a profile id
+ * Escaped user ids can grow to several times the user id's length; long ones are hashed.
+ * The 'long-' prefix never collides with profileIdFor() ids, which start with 'user-' or are 'guest'.
+ */
+function profileDirName(profileId: string): string {
+  return profileId.length <= MAX_PROFILE_DIR_NAME
+    ? profileId
+    : `long-${createHash('sha256').update(profileId).digest('hex')}`;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,140 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { JsonFileStore, StoreCodec } from './json-file-store';
+
+describe('JsonFileStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'json-file-store-'));
+    filePath = path.join(dir, 'orders.json');
+    spyOn(console, 'log');
+    spyOn(console, 'warn');
+    spyOn(console, 'error');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read null when the file does not exist', async () => {
+    expect(await new JsonFileStore(filePath).read()).toBeNull();
+  });
+
+  it('should write, read back and keep the previous copy as a backup', async () => {
+    const store = new JsonFileStore<number[]>(filePath);
+
+    await store.write([1]);
+    await store.write([1, 2]);
+
+    expect(await store.read()).toEqual([1, 2]);
+    expect(JSON.parse(await fs.readFile(store.backupPath, 'utf-8'))).toEqual([1]);
+  });
+
+  it('should leave no temp files behind', async () => {
+    await new JsonFileStore<number[]>(filePath).write([1]);
+
+    expect(await fs.readdir(dir)).toEqual(['orders.json']);
+  });
+
+  it('should not lose concurrent updates', async () => {
+    const store = new JsonFileStore<string[]>(filePath);
+
+    await Promise.all(Array.from({ length: 20 }, (_, index) =>
+      store.update(current => [...(current ?? []), `ORD-${index}`])
+    ));
+
+    expect((await store.read())?.length).toBe(20);
+  });
+
+  it('should keep serving after a failed update', async () => {
+    const store = new JsonFileStore<number[]>(filePath);
+    await store.write([1]);
+
+    await expectAsync(store.update(() => { throw new Error('boom'); })).toBeRejectedWithError('boom');
+
+    expect(await store.read()).toEqual([1]);
+  });
+
+  it('should quarantine a corrupt file and restore the backup', async () => {
+    const store = new JsonFileStore<number[]>(filePath);
+    await store.write([1]);
+    await store.write([1, 2]);
+    await fs.writeFile(filePath, '[1, 2, 3');
+
+    expect(await store.read()).toEqual([1]);
+    expect((await fs.readdir(dir)).some(file => file.startsWith('orders.json.corrupt-'))).toBeTrue();
+  });
+
+  it('should start empty when neither the file nor its backup can be used', async () => {
+    await fs.writeFile(filePath, '{"not": "a list"}');
+    const store = new JsonFileStore<number[]>(filePath, { isValid: Array.isArray });
+
+    expect(await store.read()).toBeNull();
+  });
+
+  it('should write migrated documents back', async () => {
+    await fs.writeFile(filePath, JSON.stringify({ version: 1, orders: [] }));
+    const store = new JsonFileStore<{ version: number; orders: unknown[] }>(filePath, {
+      migrate: data => {
+        const document = data as { version: number; orders: unknown[] };
+        return { document: { ...document, version: 2 }, migrated: document.version < 2 };
+      }
+    });
+
+    expect(await store.read()).toEqual({ version: 2, orders: [] });
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8')).version).toBe(2);
+  });
+
+  it('should quarantine a document that cannot be migrated', async () => {
+    await fs.writeFile(filePath, JSON.stringify({ version: 99 }));
+    const store = new JsonFileStore(filePath, {
+      migrate: () => { throw new Error('unknown version'); }
+    });
+
+    expect(await store.read()).toBeNull();
+    expect((await fs.readdir(dir)).some(file => file.startsWith('orders.json.unmigratable-'))).toBeTrue();
+  });
+
+  it('should pass the contents through its codec', async () => {
+    const reverse: StoreCodec = {
+      encode: text => [...text].reverse().join(''),
+      decode: content => [...content].reverse().join('')
+    };
+    const store = new JsonFileStore<number[]>(filePath, { codec: reverse });
+
+    await store.write([1, 2]);
+
+    expect(await fs.readFile(filePath, 'utf-8')).toBe(reverse.encode(JSON.stringify([1, 2], null, 2)));
+    expect(await store.read()).toEqual([1, 2]);
+  });
+
+  it('should stage a document without touching the current file', async () => {
+    const store = new JsonFileStore<number[]>(filePath);
+    await store.write([1]);
+
+    expect(await store.stage([1], text => `staged:${text}`)).toBeTrue();
+    expect(await store.stage(null, text => text)).toBeFalse();
+
+    expect(await fs.readFile(store.stagedPath, 'utf-8')).toMatch(/^staged:/);
+    expect(await store.read()).toEqual([1]);
+  });
+
+  it('should hold writes back until a held task settles', async () => {
+    const store = new JsonFileStore<number[]>(filePath);
+    await store.write([1]);
+    let writing: Promise<void> | undefined;
+
+    const seen = await store.hold(async held => {
+      writing = store.write([2]);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return held.read();
+    });
+    await writing;
+
+    expect(seen).toEqual([1]);
+    expect(await store.read()).toEqual([2]);
+  });
+});
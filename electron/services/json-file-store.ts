@@ -0,0 +1,284 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Transforms file contents on their way to and from disk (e.g. encryption, see store-vault.ts)
+ */
+export interface StoreCodec {
+  encode(text: string): string;
+  /**
+   * @returns The decoded text, or null if the content cannot be decoded (treated as corrupt)
+   * @throws To refuse access altogether (e.g. while the store is locked)
+   */
+  decode(content: string): string | null;
+}
+
+export interface JsonFileStoreOptions<T> {
+  /** Name used in log messages (defaults to the file name) */
+  label?: string;
+  /** Structural check; parsed data that fails it is treated as corrupt */
+  isValid?: (data: unknown) => boolean;
+  /**
+   * Upgrade a parsed document to the current schema (see shared/migrations.ts)
+   * Migrated documents are written back; if it throws, the file is quarantined and the read returns null.
+   */
+  migrate?: (data: unknown) => { document: T; migrated: boolean };
+  codec?: StoreCodec;
+}
+
+/**
+ * Access to a store inside JsonFileStore.hold() (its queued methods would wait for the hold to end)
+ */
+export interface HeldStore<T> {
+  read(): Promise<T | null>;
+  stage(data: T | null, encode: (text: string) => string): Promise<boolean>;
+}
+
+/**
+ * Node error code (e.g. 'ENOENT') of a caught file system error, if it has one
+ */
+export function fileErrorCode(error: unknown): string | undefined {
+  return error instanceof Error && 'code' in error && typeof error.code === 'string' ? error.code : undefined;
+}
+
+/**
+ * Write a file atomically: the content goes to a temp file, is flushed to disk, then renamed
+ * over the target, so a crash leaves either the previous file or the new one, never a torn file
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  const handle = await fs.open(tempPath, 'w');
+  try {
+    await handle.writeFile(content);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * JSON File Store
+ * Crash-safe persistence for a single JSON document:
+ * - Atomic writes: data goes to a temp file, is flushed to disk, then renamed over the target
+ * - Serialized access: reads, writes and read-modify-write updates run one at a time per file
+ * - Backup: the last good copy is kept as `<file>.bak` before every overwrite
+ * - Recovery: corrupt JSON is quarantined and the backup restored instead of failing
+ * - Migration: older documents are upgraded on read; documents that cannot be are quarantined
+ * - Codec: optional transform of the file contents (encryption at rest)
+ */
+export class JsonFileStore<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly label: string;
+  private readonly isValid: (data: unknown) => boolean;
+  private readonly migrate?: (data: unknown) => { document: T; migrated: boolean };
+  private readonly codec?: StoreCodec;
+
+  constructor(
+    readonly filePath: string,
+    options: JsonFileStoreOptions<T> = {}
+  ) {
+    this.label = options.label ?? path.basename(filePath);
+    this.isValid = options.isValid ?? (() => true);
+    this.migrate = options.migrate;
+    this.codec = options.codec;
+  }
+
+  get backupPath(): string {
+    return `${this.filePath}.bak`;
+  }
+
+  /**
+   * Where stage() writes the document in its next encoding
+   */
+  get stagedPath(): string {
+    return `${this.filePath}.rekey`;
+  }
+
+  /**
+   * Read the document
+   * @returns The parsed document, or null if it does not exist (or could not be recovered)
+   */
+  read(): Promise<T | null> {
+    return this.enqueue(() => this.readUnlocked());
+  }
+
+  /**
+   * Replace the document
+   */
+  write(data: T): Promise<void> {
+    return this.enqueue(() => this.writeUnlocked(data));
+  }
+
+  /**
+   * Read-modify-write without interleaving with other writers
+   * @param updater Receives the current document (null if none) and returns the new one
+   */
+  update(updater: (current: T | null) => T | Promise<T>): Promise<T> {
+    return this.enqueue(async () => {
+      const next = await updater(await this.readUnlocked());
+      await this.writeUnlocked(next);
+      return next;
+    });
+  }
+
+  /**
+   * Write the document in a new encoding to stagedPath, leaving the current file untouched
+   * Used when the codec changes (see StoreVault.rekey), which moves the staged file into place.
+   * @returns False if there is no document to stage
+   */
+  stage(data: T | null, encode: (text: string) => string): Promise<boolean> {
+    return this.enqueue(() => this.stageUnlocked(data, encode));
+  }
+
+  /**
+   * Run a task with the store to itself: reads and writes queued meanwhile wait until it settles
+   * Used when the file is replaced outside the store (see StoreVault.rekey).
+   */
+  hold<R>(task: (store: HeldStore<T>) => Promise<R>): Promise<R> {
+    return this.enqueue(() => task({
+      read: () => this.readUnlocked(),
+      stage: (data, encode) => this.stageUnlocked(data, encode)
+    }));
+  }
+
+  /**
+   * Delete the document (the backup is kept)
+   */
+  remove(): Promise<void> {
+    return this.enqueue(async () => {
+      await fs.rm(this.filePath, { force: true });
+    });
+  }
+
+  private enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const run = this.queue.then(task, task);
+    // Keep the chain alive after failures so one bad write doesn't block the file forever
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async stageUnlocked(data: T | null, encode: (text: string) => string): Promise<boolean> {
+    if (data === null) {
+      return false;
+    }
+    await writeFileAtomic(this.stagedPath, encode(JSON.stringify(data, null, 2)));
+    return true;
+  }
+
+  private async readUnlocked(): Promise<T | null> {
+    const raw = await this.readFile(this.filePath);
+    if (raw === null) {
+      return null;
+    }
+
+    const parsed = this.parse(raw);
+    if (parsed === undefined) {
+      console.error(`⚡ [ELECTRON MAIN] ${this.label} is corrupt, attempting recovery`);
+    }
+    const data = parsed !== undefined ? parsed : await this.recover();
+    return data === null ? null : this.upgrade(data);
+  }
+
+  /**
+   * Run the schema migration (if any), persisting upgraded documents
+   */
+  private async upgrade(data: T): Promise<T | null> {
+    if (!this.migrate) {
+      return data;
+    }
+
+    let result: { document: T; migrated: boolean };
+    try {
+      result = this.migrate(data);
+    } catch (error) {
+      console.error(`⚡ [ELECTRON MAIN] ${this.label} cannot be migrated:`, error);
+      await this.quarantine('unmigratable');
+      console.warn(`⚡ [ELECTRON MAIN] Starting ${this.label} empty`);
+      return null;
+    }
+
+    if (result.migrated) {
+      // The pre-migration copy is kept as the backup by writeUnlocked
+      await this.writeUnlocked(result.document);
+      console.log(`⚡ [ELECTRON MAIN] Migrated ${this.label} to the current schema`);
+    }
+    return result.document;
+  }
+
+  /**
+   * Quarantine the corrupt file and fall back to the last good backup
+   */
+  private async recover(): Promise<T | null> {
+    await this.quarantine('corrupt');
+
+    const backup = await this.readFile(this.backupPath);
+    const data = backup !== null ? this.parse(backup) : undefined;
+    if (data !== undefined) {
+      await this.writeUnlocked(data);
+      console.warn(`⚡ [ELECTRON MAIN] Restored ${this.label} from backup`);
+      return data;
+    }
+
+    console.warn(`⚡ [ELECTRON MAIN] No usable backup for ${this.label}, starting empty`);
+    return null;
+  }
+
+  /**
+   * Move the current file aside (kept for inspection, never read again)
+   */
+  private async quarantine(reason: 'corrupt' | 'unmigratable'): Promise<void> {
+    const quarantinePath = `${this.filePath}.${reason}-${Date.now()}`;
+    await fs.rename(this.filePath, quarantinePath);
+    console.warn(`⚡ [ELECTRON MAIN] Moved ${reason} ${this.label} to ${quarantinePath}`);
+  }
+
+  private async writeUnlocked(data: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Keep the current copy as the backup, but only if it is a good copy
+    const current = await this.readFile(this.filePath);
+    if (current !== null && this.parse(current) !== undefined) {
+      await fs.copyFile(this.filePath, this.backupPath);
+    }
+
+    const text = JSON.stringify(data, null, 2);
+    await writeFileAtomic(this.filePath, this.codec ? this.codec.encode(text) : text);
+  }
+
+  private async readFile(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if (fileErrorCode(error) === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse and check a document
+   * @returns The document, or undefined if it is not valid JSON or fails the structural check
+   */
+  private parse(raw: string): T | undefined {
+    // Codec errors (e.g. a locked store) propagate instead of marking the file corrupt
+    const text = this.codec ? this.codec.decode(raw) : raw;
+    if (text === null) {
+      return undefined;
+    }
+
+    try {
+      const data = JSON.parse(text);
+      return this.isValid(data) ? data as T : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
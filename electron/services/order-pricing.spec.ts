@@ -0,0 +1,120 @@
+import type { CartItem, OrderRequest } from '../../src/app/core/interfaces/cart.interface';
+import { PromotionError } from '../../shared/ipc-errors';
+import { ProductLookup, hasDiscrepancies, priceOrder } from './order-pricing';
+
+describe('priceOrder', () => {
+  const catalog: Record<number, { title: string; price: number }> = {
+    1: { title: 'Backpack', price: 20 },
+    2: { title: 'Jacket', price: 30 }
+  };
+  const lookup: ProductLookup = async id => catalog[id] ?? null;
+
+  function item(id: number, price: number, quantity: number): CartItem {
+    return {
+      product: { id, title: `Product ${id}`, price, description: '', category: 'bags', image: '', rating: { rate: 4, count: 1 } },
+      quantity,
+      subtotal: price * quantity
+    };
+  }
+
+  function request(items: CartItem[], promoCode?: string): OrderRequest {
+    const address = { street: '1 Main St', city: 'Albany', state: 'NY', zipCode: '12207', country: 'United States' };
+    return {
+      cart: {
+        items,
+        totalItems: items.reduce((sum, entry) => sum + entry.quantity, 0),
+        totalAmount: items.reduce((sum, entry) => sum + entry.subtotal, 0),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      },
+      billing: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', address },
+      shipping: { firstName: 'Ada', lastName: 'Lovelace', address, shippingMethod: 'express' },
+      payment: { method: 'paypal', paypalEmail: 'ada@example.com' },
+      idempotencyKey: '0f8fad5b-d9cb-469f-a165-70867728950e',
+      promoCode
+    };
+  }
+
+  it('should price an honest order without discrepancies', async () => {
+    const priced = await priceOrder(request([item(1, 20, 2), item(2, 30, 1)]), lookup);
+
+    expect(priced.report.discrepancies).toEqual([]);
+    expect(hasDiscrepancies(priced.report)).toBeFalse();
+    expect(priced.hasUnavailableItems).toBeFalse();
+    expect(priced.totals).toEqual({ subtotal: 70, discount: 0, shipping: 19.99, tax: 2.8, total: 92.79 });
+  });
+
+  it('should reprice tampered items from the catalog and report them', async () => {
+    const priced = await priceOrder(request([item(1, 5, 2), item(2, 30, 1)]), lookup);
+
+    expect(priced.cart.items[0].product.price).toBe(20);
+    expect(priced.cart.items[0].subtotal).toBe(40);
+    expect(priced.cart.totalAmount).toBe(70);
+    expect(priced.report.discrepancies).toEqual([{
+      productId: 1,
+      title: 'Backpack',
+      quantity: 2,
+      clientUnitPrice: 5,
+      serverUnitPrice: 20,
+      clientSubtotal: 10,
+      serverSubtotal: 40
+    }]);
+    expect(priced.report.client.subtotal).toBe(40);
+    expect(priced.report.server.subtotal).toBe(70);
+  });
+
+  it('should report a line subtotal that disagrees with its unit price', async () => {
+    const priced = await priceOrder(request([{ ...item(1, 20, 2), subtotal: 10 }]), lookup);
+
+    expect(priced.cart.items[0].subtotal).toBe(40);
+    expect(priced.report.discrepancies).toEqual([jasmine.objectContaining({
+      productId: 1,
+      clientUnitPrice: 20,
+      serverUnitPrice: 20,
+      clientSubtotal: 10,
+      serverSubtotal: 40
+    })]);
+  });
+
+  it('should report a cart total that disagrees with the items', async () => {
+    const order = request([item(1, 20, 2)]);
+    order.cart.totalAmount = 4;
+
+    const priced = await priceOrder(order, lookup);
+
+    expect(priced.report.discrepancies).toEqual([]);
+    expect(priced.report.cartTotal).toEqual({ client: 4, server: 40 });
+    expect(hasDiscrepancies(priced.report)).toBeTrue();
+    expect(priced.totals.subtotal).toBe(40);
+  });
+
+  it('should drop products that are no longer in the catalog', async () => {
+    const priced = await priceOrder(request([item(1, 20, 1), item(99, 10, 1)]), lookup);
+
+    expect(priced.hasUnavailableItems).toBeTrue();
+    expect(priced.cart.items.map(entry => entry.product.id)).toEqual([1]);
+    expect(priced.report.discrepancies[0]).toEqual(jasmine.objectContaining({ productId: 99, serverUnitPrice: null, serverSubtotal: 0 }));
+  });
+
+  it('should look each product up once', async () => {
+    const spy = jasmine.createSpy<ProductLookup>('lookup').and.callFake(lookup);
+
+    await priceOrder(request([item(1, 20, 1), item(1, 20, 3)]), spy);
+
+    expect(spy).toHaveBeenCalledOnceWith(1);
+  });
+
+  it('should redeem a promo code on the catalog prices', async () => {
+    const redeem = jasmine.createSpy('redeem').and.callFake((code: string, cart: OrderRequest['cart']) =>
+      ({ code, description: '10% off', discount: cart.totalAmount * 0.1 }));
+
+    const priced = await priceOrder(request([item(1, 5, 2)], 'SAVE10'), lookup, undefined, redeem);
+
+    expect(priced.promotion).toEqual({ code: 'SAVE10', description: '10% off', discount: 4 });
+    expect(priced.totals.discount).toBe(4);
+  });
+
+  it('should refuse a promo code when promotions cannot be redeemed', async () => {
+    await expectAsync(priceOrder(request([item(1, 20, 1)], ' save10 '), lookup)).toBeRejectedWith(jasmine.any(PromotionError));
+  });
+});
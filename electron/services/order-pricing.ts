@@ -0,0 +1,138 @@
+import type {
+  Cart,
+  CartItem,
+  OrderRequest,
+  OrderTotals,
+  PriceDiscrepancy,
+  PricingReport
+} from '../../src/app/core/interfaces/cart.interface';
+import type { PricingRules } from '../../src/app/core/interfaces/app-config.interface';
+import type { AppliedPromotion } from '../../src/app/core/interfaces/promotion.interface';
+import { DEFAULT_PRICING_RULES, PRICE_TOLERANCE, PricingContext, calculateTotals } from '../../shared/pricing';
+import { normalizePromoCode } from '../../shared/promotions';
+import { PromotionError } from '../../shared/ipc-errors';
+
+/**
+ * Order Pricing
+ * Recomputes an order from catalog prices in the main process, so the renderer
+ * can never set its own prices, and reports every line (and cart total) where the client disagreed.
+ */
+
+/**
+ * Resolves the authoritative product for an id, or null if it no longer exists
+ */
+export type ProductLookup = (id: number) => Promise<{ title: string; price: number } | null>;
+
+/**
+ * Redeems the request's promo code on the repriced cart
+ * @throws PromotionError when the code does not apply
+ */
+export type PromotionRedeemer = (code: string, cart: Cart) => AppliedPromotion;
+
+export interface PricedOrder {
+  /** Cart rebuilt with catalog prices and recomputed subtotals */
+  cart: Cart;
+  totals: OrderTotals;
+  /** The redeemed promo code, if the request carried one */
+  promotion: AppliedPromotion | null;
+  report: PricingReport;
+  /** True if any line item no longer exists in the catalog */
+  hasUnavailableItems: boolean;
+}
+
+/**
+ * Price an order request against the catalog
+ * @param request Validated order request from the renderer
+ * @param lookup Catalog lookup (cache, network or Faker catalog)
+ * @param rules Shipping and tax rules (see shared/pricing.ts)
+ * @param redeem Promo code evaluation (requests with a code are refused without one)
+ * @throws PromotionError when the request's promo code does not apply
+ */
+export async function priceOrder(
+  request: OrderRequest,
+  lookup: ProductLookup,
+  rules: PricingRules = DEFAULT_PRICING_RULES,
+  redeem?: PromotionRedeemer
+): Promise<PricedOrder> {
+  const ids = [...new Set(request.cart.items.map(item => item.product.id))];
+  const catalog = new Map(await Promise.all(ids.map(async id => [id, await lookup(id)] as const)));
+
+  const discrepancies: PriceDiscrepancy[] = [];
+  const items: CartItem[] = [];
+
+  for (const item of request.cart.items) {
+    const catalogProduct = catalog.get(item.product.id) ?? null;
+    const serverUnitPrice = catalogProduct ? catalogProduct.price : null;
+    const serverSubtotal = (serverUnitPrice ?? 0) * item.quantity;
+
+    if (
+      serverUnitPrice === null ||
+      Math.abs(serverUnitPrice - item.product.price) > PRICE_TOLERANCE ||
+      Math.abs(serverSubtotal - item.subtotal) > PRICE_TOLERANCE
+    ) {
+      discrepancies.push({
+        productId: item.product.id,
+        title: catalogProduct?.title ?? item.product.title,
+        quantity: item.quantity,
+        clientUnitPrice: item.product.price,
+        serverUnitPrice,
+        clientSubtotal: item.subtotal,
+        serverSubtotal
+      });
+    }
+
+    if (serverUnitPrice !== null) {
+      items.push({
+        ...item,
+        product: { ...item.product, price: serverUnitPrice },
+        subtotal: serverSubtotal
+      });
+    }
+  }
+
+  const cart: Cart = {
+    ...request.cart,
+    items,
+    totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+    totalAmount: items.reduce((sum, item) => sum + item.subtotal, 0)
+  };
+
+  // The discount is worked out on catalog prices, never on the client's
+  const promotion = request.promoCode ? redeemPromotion(request.promoCode, cart, redeem) : null;
+
+  // Shipping is priced by the chosen method and tax by the destination
+  const context: PricingContext = {
+    shippingMethod: request.shipping.shippingMethod,
+    address: request.shipping.address,
+    discount: promotion?.discount
+  };
+  const totals = calculateTotals(cart.totalAmount, context, rules);
+  const cartTotalDiffers = Math.abs(request.cart.totalAmount - cart.totalAmount) > PRICE_TOLERANCE;
+
+  return {
+    cart,
+    totals,
+    promotion,
+    report: {
+      discrepancies,
+      ...(cartTotalDiffers ? { cartTotal: { client: request.cart.totalAmount, server: cart.totalAmount } } : {}),
+      client: calculateTotals(request.cart.totalAmount, context, rules),
+      server: totals
+    },
+    hasUnavailableItems: discrepancies.some(item => item.serverUnitPrice === null)
+  };
+}
+
+/**
+ * True if the client disagreed with the catalog on any line or on the cart total
+ */
+export function hasDiscrepancies(report: PricingReport): boolean {
+  return report.discrepancies.length > 0 || report.cartTotal !== undefined;
+}
+
+function redeemPromotion(code: string, cart: Cart, redeem?: PromotionRedeemer): AppliedPromotion {
+  if (!redeem) {
+    throw new PromotionError(normalizePromoCode(code), 'unknown');
+  }
+  return redeem(code, cart);
+}
@@ -0,0 +1,178 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { VaultError } from '../../shared/ipc-errors';
+import { JsonFileStore } from './json-file-store';
+import { StoreVault } from './store-vault';
+
+describe('StoreVault', () => {
+  let dir: string;
+  let vaultPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'store-vault-'));
+    vaultPath = path.join(dir, 'vault.json');
+    spyOn(console, 'log');
+    spyOn(console, 'warn');
+    spyOn(console, 'error');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function open(): Promise<{ vault: StoreVault; store: JsonFileStore<string[]> }> {
+    const vault = new StoreVault(vaultPath);
+    await vault.ready();
+    return { vault, store: new JsonFileStore<string[]>(path.join(dir, 'orders.json'), { codec: vault }) };
+  }
+
+  function vaultReason(reason: string): jasmine.AsymmetricMatcher<unknown> {
+    return jasmine.objectContaining({ name: 'VaultError', reason });
+  }
+
+  it('should store plain JSON while encryption is disabled', async () => {
+    const { vault, store } = await open();
+    await store.write(['ORD-1']);
+
+    expect(vault.status).toEqual({ enabled: false, unlocked: true });
+    expect(JSON.parse(await fs.readFile(store.filePath, 'utf-8'))).toEqual(['ORD-1']);
+  });
+
+  it('should encrypt the existing data and drop the plain backup when enabled', async () => {
+    const { vault, store } = await open();
+    await store.write(['ORD-1']);
+    await store.write(['ORD-1', 'ORD-2']);
+
+    expect(await vault.enable('correct horse', [store])).toEqual({ enabled: true, unlocked: true });
+
+    const onDisk = await fs.readFile(store.filePath, 'utf-8');
+    expect(onDisk).not.toContain('ORD-1');
+    expect(JSON.parse(onDisk).encrypted).toBe('aes-256-gcm');
+    expect(await fs.readdir(dir)).toEqual(jasmine.arrayWithExactContents(['orders.json', 'vault.json']));
+    expect(await store.read()).toEqual(['ORD-1', 'ORD-2']);
+  });
+
+  it('should stay locked until the right passphrase is given', async () => {
+    const first = await open();
+    await first.store.write(['ORD-1']);
+    await first.vault.enable('correct horse', [first.store]);
+
+    const { vault, store } = await open();
+
+    expect(vault.status).toEqual({ enabled: true, unlocked: false });
+    await expectAsync(store.read()).toBeRejectedWith(vaultReason('locked'));
+    await expectAsync(vault.unlock('wrong')).toBeRejectedWith(vaultReason('wrong-passphrase'));
+
+    await vault.unlock('correct horse');
+    expect(await store.read()).toEqual(['ORD-1']);
+
+    vault.lock();
+    await expectAsync(store.write([])).toBeRejectedWith(jasmine.any(VaultError));
+  });
+
+  it('should re-encrypt the data under a new passphrase', async () => {
+    const first = await open();
+    await first.store.write(['ORD-1']);
+    await first.vault.enable('old passphrase', [first.store]);
+    await first.vault.changePassphrase('old passphrase', 'new passphrase', [first.store]);
+
+    const { vault, store } = await open();
+
+    await expectAsync(vault.unlock('old passphrase')).toBeRejectedWith(vaultReason('wrong-passphrase'));
+    await vault.unlock('new passphrase');
+    expect(await store.read()).toEqual(['ORD-1']);
+  });
+
+  it('should decrypt the data when disabled', async () => {
+    const { vault, store } = await open();
+    await store.write(['ORD-1']);
+    await vault.enable('correct horse', [store]);
+
+    await expectAsync(vault.disable('wrong', [store])).toBeRejectedWith(vaultReason('wrong-passphrase'));
+    expect(await vault.disable('correct horse', [store])).toEqual({ enabled: false, unlocked: true });
+
+    expect(JSON.parse(await fs.readFile(store.filePath, 'utf-8'))).toEqual(['ORD-1']);
+    expect(await fs.readdir(dir)).toEqual(['orders.json']);
+  });
+
+  it('should keep a write made during a passphrase change', async () => {
+    const first = await open();
+    await first.store.write(['ORD-1']);
+    await first.vault.enable('old passphrase', [first.store]);
+
+    // Save an order after the switch has read the store, while it writes its journal
+    let saving: Promise<void> | undefined;
+    const openFile = fs.open;
+    spyOn(fs, 'open').and.callFake(async (file, flags) => {
+      if (!saving && String(file).startsWith(path.join(dir, 'vault.rekey.json'))) {
+        saving = first.store.write(['ORD-1', 'ORD-2']);
+        // Give the write time to land (it has to wait for the switch to finish instead)
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      return openFile(file, flags);
+    });
+
+    await first.vault.changePassphrase('old passphrase', 'new passphrase', [first.store]);
+    await saving;
+
+    const { vault, store } = await open();
+    await vault.unlock('new passphrase');
+    expect(await store.read()).toEqual(['ORD-1', 'ORD-2']);
+  });
+
+  it('should complete a committed key switch interrupted before the stores were moved', async () => {
+    const first = await open();
+    await first.store.write(['ORD-1']);
+    const rename = fs.rename;
+    spyOn(fs, 'rename').and.callFake(async (from, to) => {
+      if (from === first.store.stagedPath) {
+        throw new Error('Simulated crash');
+      }
+      return rename(from, to);
+    });
+
+    await expectAsync(first.vault.enable('correct horse', [first.store])).toBeRejectedWithError('Simulated crash');
+    (fs.rename as jasmine.Spy).and.callFake(rename);
+
+    const { vault, store } = await open();
+    await vault.unlock('correct horse');
+
+    expect(await store.read()).toEqual(['ORD-1']);
+    expect(await fs.readdir(dir)).toEqual(jasmine.arrayWithExactContents(['orders.json', 'vault.json']));
+  });
+
+  it('should discard a key switch interrupted before it was committed', async () => {
+    const first = await open();
+    await first.store.write(['ORD-1']);
+    await fs.writeFile(first.store.stagedPath, 'half-written');
+    await fs.writeFile(path.join(dir, 'vault.rekey.json'), JSON.stringify({
+      committed: false,
+      header: null,
+      files: [{ target: first.store.filePath, staged: first.store.stagedPath, backup: first.store.backupPath }]
+    }));
+
+    const { vault, store } = await open();
+
+    expect(vault.status).toEqual({ enabled: false, unlocked: true });
+    expect(await store.read()).toEqual(['ORD-1']);
+    expect(await fs.readdir(dir)).toEqual(['orders.json']);
+  });
+
+  it('should roll back when a store cannot be staged', async () => {
+    const { vault, store } = await open();
+    await store.write(['ORD-1']);
+    const openFile = fs.open;
+    spyOn(fs, 'open').and.callFake(async (file, flags) => {
+      if (String(file).startsWith(store.stagedPath)) {
+        throw new Error('Disk full');
+      }
+      return openFile(file, flags);
+    });
+
+    await expectAsync(vault.enable('correct horse', [store])).toBeRejectedWithError('Disk full');
+
+    expect(vault.status).toEqual({ enabled: false, unlocked: true });
+    expect(await fs.readdir(dir)).toEqual(['orders.json']);
+  });
+});
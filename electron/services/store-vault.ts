@@ -0,0 +1,364 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { VaultError } from '../../shared/ipc-errors';
+import type { VaultStatus } from '../../src/app/core/interfaces/vault.interface';
+import { fileErrorCode, writeFileAtomic, type HeldStore, type JsonFileStore, type StoreCodec } from './json-file-store';
+
+const scrypt = promisify(crypto.scrypt) as (
+  passphrase: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keyLength: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+// scrypt cost: N = 2^15 uses ~32 MB, above Node's default memory cap
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+// Known value encrypted with the key, so a wrong passphrase is detected before any data is touched
+const CHECK_VALUE = 'electron-faker-angular:vault';
+
+interface EncryptedPayload {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Format of an encrypted data file
+ */
+interface EncryptedFile extends EncryptedPayload {
+  encrypted: typeof CIPHER;
+}
+
+/**
+ * vault.json: key derivation parameters and the passphrase check (never the key itself)
+ */
+interface VaultHeader {
+  version: 1;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  check: EncryptedPayload;
+}
+
+/**
+ * vault.rekey.json: a key switch in progress (see StoreVault.rekey)
+ * Written before the stores are staged and marked committed once all of them are.
+ */
+interface RekeyJournal {
+  committed: boolean;
+  /** The new header, or null when encryption is being disabled */
+  header: VaultHeader | null;
+  files: { target: string; staged: string; backup: string }[];
+}
+
+/**
+ * Store Vault
+ * Optional passphrase-based encryption at rest for the JSON data stores.
+ * - Key derivation: scrypt with a random salt; the passphrase and key are never written to disk
+ * - Cipher: AES-256-GCM with a fresh IV per write; tampered files fail authentication
+ * - Without vault.json the stores are plain JSON; plain files are still read after encryption
+ *   is enabled and are encrypted on their next write
+ * - Changing the key is journaled; an interrupted change is completed or undone on the next start
+ */
+export class StoreVault implements StoreCodec {
+  private header: VaultHeader | null = null;
+  private key: Buffer | null = null;
+  // Previous key while a key switch moves the stores over
+  private retiringKey: Buffer | null = null;
+  private loading?: Promise<void>;
+  private readonly journalPath: string;
+
+  constructor(private readonly vaultPath: string) {
+    this.journalPath = path.join(path.dirname(vaultPath), 'vault.rekey.json');
+  }
+
+  /**
+   * Load vault.json once (finishing an interrupted key switch first); call before any store access
+   */
+  ready(): Promise<void> {
+    return this.loading ??= this.recover().then(() => this.loadHeader());
+  }
+
+  get status(): VaultStatus {
+    return {
+      enabled: this.header !== null,
+      unlocked: this.header === null || this.key !== null
+    };
+  }
+
+  /**
+   * Derive the key from the passphrase and keep it in memory
+   * @throws VaultError 'wrong-passphrase' if the passphrase does not match
+   */
+  async unlock(passphrase: string): Promise<VaultStatus> {
+    await this.ready();
+    if (!this.header) {
+      throw new VaultError('not-enabled');
+    }
+    this.key = await this.verify(passphrase, this.header);
+    return this.status;
+  }
+
+  /**
+   * Forget the key; stores refuse access until unlocked again
+   */
+  lock(): VaultStatus {
+    if (this.header) {
+      this.key = null;
+    }
+    return this.status;
+  }
+
+  /**
+   * Set a passphrase and encrypt the existing data
+   */
+  async enable(passphrase: string, stores: JsonFileStore<unknown>[]): Promise<VaultStatus> {
+    await this.ready();
+    if (this.header) {
+      throw new VaultError('already-enabled');
+    }
+    await this.rekey(stores, await this.createHeader(passphrase));
+    return this.status;
+  }
+
+  /**
+   * Re-encrypt the data under a new passphrase (and new salt)
+   */
+  async changePassphrase(current: string, next: string, stores: JsonFileStore<unknown>[]): Promise<VaultStatus> {
+    await this.ready();
+    if (!this.header) {
+      throw new VaultError('not-enabled');
+    }
+    // Verifying also unlocks, so the data can be read with the current key
+    this.key = await this.verify(current, this.header);
+    await this.rekey(stores, await this.createHeader(next));
+    return this.status;
+  }
+
+  /**
+   * Decrypt the data and remove the passphrase
+   */
+  async disable(passphrase: string, stores: JsonFileStore<unknown>[]): Promise<VaultStatus> {
+    await this.ready();
+    if (!this.header) {
+      throw new VaultError('not-enabled');
+    }
+    this.key = await this.verify(passphrase, this.header);
+    await this.rekey(stores, null);
+    return this.status;
+  }
+
+  encode(text: string): string {
+    if (!this.header) {
+      return text;
+    }
+    if (!this.key) {
+      throw new VaultError('locked');
+    }
+    return encodeFile(this.key, text);
+  }
+
+  decode(content: string): string | null {
+    const file = parseEncryptedFile(content);
+    if (!file) {
+      return content;
+    }
+    const keys = [this.key, this.retiringKey].filter(key => key !== null);
+    if (keys.length === 0) {
+      // Without a vault (encryption disabled) an encrypted file can never be decrypted
+      if (!this.header) {
+        return null;
+      }
+      throw new VaultError('locked');
+    }
+    for (const key of keys) {
+      try {
+        return decrypt(key, file);
+      } catch {
+        // Authentication failed: wrong key, or the file was modified or damaged
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Switch to a new key (or none), rewriting every store under it
+   * The stores are staged under the new key first and the switch is committed through the
+   * journal before the header or any store is replaced, so a crash never leaves data under a
+   * key the header does not match. Backups are dropped so no copy under the old key (or in
+   * plain text) is left behind. Every store is held for the whole switch, so no write can land
+   * between reading a store and moving its staged copy into place.
+   */
+  private rekey(stores: JsonFileStore<unknown>[], next: { header: VaultHeader; key: Buffer } | null): Promise<void> {
+    return holdAll(stores, held => this.rekeyHeld(stores, held, next));
+  }
+
+  private async rekeyHeld(
+    stores: JsonFileStore<unknown>[],
+    held: HeldStore<unknown>[],
+    next: { header: VaultHeader; key: Buffer } | null
+  ): Promise<void> {
+    const documents = await Promise.all(held.map(store => store.read()));
+    const journal: RekeyJournal = {
+      committed: false,
+      header: next?.header ?? null,
+      files: stores.map(store => ({ target: store.filePath, staged: store.stagedPath, backup: store.backupPath }))
+    };
+
+    try {
+      await fs.mkdir(path.dirname(this.journalPath), { recursive: true });
+      await writeFileAtomic(this.journalPath, JSON.stringify(journal, null, 2));
+      const encode = (text: string) => next ? encodeFile(next.key, text) : text;
+      await Promise.all(held.map((store, index) => store.stage(documents[index], encode)));
+      // Commit point: from here on the switch is completed, even after a crash
+      await writeFileAtomic(this.journalPath, JSON.stringify({ ...journal, committed: true }, null, 2));
+    } catch (error) {
+      await this.rollBack(journal);
+      throw error;
+    }
+
+    // Files not moved yet are still under the old key; keep it until they are
+    this.retiringKey = this.key;
+    this.key = next?.key ?? null;
+    await this.rollForward(journal);
+    this.retiringKey = null;
+  }
+
+  /**
+   * Finish (committed) or undo (not committed) a key switch interrupted by a crash
+   */
+  private async recover(): Promise<void> {
+    let journal: RekeyJournal;
+    try {
+      journal = JSON.parse(await fs.readFile(this.journalPath, 'utf-8'));
+    } catch (error) {
+      if (fileErrorCode(error) === 'ENOENT') {
+        return;
+      }
+      console.error('⚡ [ELECTRON MAIN] Failed to read vault.rekey.json:', error);
+      throw error;
+    }
+
+    if (journal.committed) {
+      await this.rollForward(journal);
+      console.warn('⚡ [ELECTRON MAIN] Completed an interrupted passphrase change');
+    } else {
+      await this.rollBack(journal);
+      console.warn('⚡ [ELECTRON MAIN] Discarded an interrupted passphrase change');
+    }
+  }
+
+  private async rollForward(journal: RekeyJournal): Promise<void> {
+    if (journal.header) {
+      await writeFileAtomic(this.vaultPath, JSON.stringify(journal.header, null, 2));
+    } else {
+      await fs.rm(this.vaultPath, { force: true });
+    }
+    this.header = journal.header;
+
+    for (const file of journal.files) {
+      try {
+        await fs.rename(file.staged, file.target);
+      } catch (error) {
+        // Already moved before a crash, or the store had no document
+        if (fileErrorCode(error) !== 'ENOENT') {
+          throw error;
+        }
+      }
+      await fs.rm(file.backup, { force: true });
+    }
+    await fs.rm(this.journalPath, { force: true });
+  }
+
+  private async rollBack(journal: RekeyJournal): Promise<void> {
+    await Promise.all(journal.files.map(file => fs.rm(file.staged, { force: true })));
+    await fs.rm(this.journalPath, { force: true });
+  }
+
+  private async createHeader(passphrase: string): Promise<{ header: VaultHeader; key: Buffer }> {
+    const salt = crypto.randomBytes(SALT_LENGTH).toString('base64');
+    const kdf = { name: 'scrypt' as const, salt, ...SCRYPT_PARAMS };
+    const key = await deriveKey(passphrase, kdf);
+    return { header: { version: 1, kdf, check: encrypt(key, CHECK_VALUE) }, key };
+  }
+
+  private async verify(passphrase: string, header: VaultHeader): Promise<Buffer> {
+    const key = await deriveKey(passphrase, header.kdf);
+    try {
+      if (decrypt(key, header.check) === CHECK_VALUE) {
+        return key;
+      }
+    } catch {
+      // Authentication failure means the key is wrong
+    }
+    throw new VaultError('wrong-passphrase');
+  }
+
+  private async loadHeader(): Promise<void> {
+    try {
+      this.header = JSON.parse(await fs.readFile(this.vaultPath, 'utf-8'));
+      console.log('⚡ [ELECTRON MAIN] Data encryption enabled, stores are locked until unlocked');
+    } catch (error) {
+      if (fileErrorCode(error) !== 'ENOENT') {
+        // Never fall back to writing plain text when encryption may be enabled
+        console.error('⚡ [ELECTRON MAIN] Failed to read vault.json:', error);
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Hold every store (one after another, in order) for the length of a task
+ */
+function holdAll<T, R>(
+  stores: JsonFileStore<T>[],
+  task: (held: HeldStore<T>[]) => Promise<R>,
+  held: HeldStore<T>[] = []
+): Promise<R> {
+  if (held.length === stores.length) {
+    return task(held);
+  }
+  return stores[held.length].hold(store => holdAll(stores, task, [...held, store]));
+}
+
+function deriveKey(passphrase: string, kdf: VaultHeader['kdf']): Promise<Buffer> {
+  const { N, r, p } = kdf;
+  return scrypt(passphrase.normalize('NFKC'), Buffer.from(kdf.salt, 'base64'), KEY_LENGTH, { N, r, p, maxmem: SCRYPT_MAXMEM });
+}
+
+function encrypt(key: Buffer, text: string): EncryptedPayload {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const data = Buffer.concat([cipher.update(text, 'utf-8'), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+function encodeFile(key: Buffer, text: string): string {
+  const file: EncryptedFile = { encrypted: CIPHER, ...encrypt(key, text) };
+  return JSON.stringify(file, null, 2);
+}
+
+function decrypt(key: Buffer, payload: EncryptedPayload): string {
+  const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(payload.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]).toString('utf-8');
+}
+
+function parseEncryptedFile(content: string): EncryptedFile | null {
+  try {
+    const file = JSON.parse(content);
+    return file?.encrypted === CIPHER ? file : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,101 @@
+import { fromTransportError, IpcValidationError } from '../../shared/ipc-errors';
+import { orderIdSchema, orderRequestSchema, savedCartSchema } from './cart.schemas';
+import { validate } from './schema';
+
+describe('cart schemas', () => {
+  const product = {
+    id: 1,
+    title: 'Backpack',
+    price: 109.95,
+    description: 'Fits a 15 inch laptop',
+    category: "men's clothing",
+    image: 'https://example.com/backpack.png',
+    rating: { rate: 3.9, count: 120 }
+  };
+  const address = { street: '1 Main St', city: 'Springfield', state: 'NY', zipCode: '12345', country: 'United States' };
+
+  function cart(quantity = 2) {
+    return {
+      items: [{ product, quantity, subtotal: product.price * quantity }],
+      totalItems: quantity,
+      totalAmount: product.price * quantity,
+      createdAt: new Date(),
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  function orderRequest() {
+    return {
+      cart: cart(),
+      billing: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', address },
+      shipping: { firstName: 'Ada', lastName: 'Lovelace', address, shippingMethod: 'express' },
+      payment: { method: 'credit', cardNumber: '4242424242424242', expiryDate: '12/99', cvv: '123', cardholderName: 'Ada Lovelace' },
+      idempotencyKey: '0f8fad5b-d9cb-469f-a165-70867728950e'
+    };
+  }
+
+  function issues(schema: Parameters<typeof validate>[0], value: unknown): string[] {
+    try {
+      validate(schema, value, 'cart:test', 'payload');
+      return [];
+    } catch (error) {
+      const structured = fromTransportError(error);
+      expect(structured).toBeInstanceOf(IpcValidationError);
+      return (structured as IpcValidationError).issues.map(issue => `${issue.path} ${issue.message}`);
+    }
+  }
+
+  it('should accept a valid cart and order request', () => {
+    expect(issues(savedCartSchema, cart())).toEqual([]);
+    expect(issues(savedCartSchema, { ...cart(), items: [], totalItems: 0, totalAmount: 0 })).toEqual([]);
+    expect(issues(orderRequestSchema, orderRequest())).toEqual([]);
+  });
+
+  it('should reject totals that do not add up', () => {
+    expect(issues(savedCartSchema, { ...cart(), totalAmount: 1 }))
+      .toEqual(['payload.totalAmount does not match the item subtotals']);
+    expect(issues(savedCartSchema, { ...cart(), totalItems: 5 }))
+      .toEqual(['payload.totalItems does not match the item quantities']);
+  });
+
+  it('should reject a subtotal that does not match the price', () => {
+    const tampered = cart();
+    tampered.items[0].subtotal = 1;
+    tampered.totalAmount = 1;
+
+    expect(issues(savedCartSchema, tampered)).toEqual(['payload.items[0].subtotal does not match price × quantity']);
+  });
+
+  it('should report every invalid field at once', () => {
+    const request = orderRequest();
+    request.cart = cart(100);
+    request.shipping.shippingMethod = 'teleport';
+
+    expect(issues(orderRequestSchema, request)).toEqual([
+      'payload.cart.items[0].quantity must be between 1 and 99',
+      'payload.shipping.shippingMethod must be one of: standard, express, overnight'
+    ]);
+  });
+
+  it('should reject unknown fields and non-object payloads', () => {
+    expect(issues(savedCartSchema, { ...cart(), owner: 'admin' })).toEqual(['payload.owner is not an allowed field']);
+    expect(issues(savedCartSchema, 'cart')).toEqual(['payload must be an object']);
+  });
+
+  it('should require the details of the chosen payment method', () => {
+    const request = { ...orderRequest(), payment: { method: 'paypal' } };
+
+    expect(issues(orderRequestSchema, request)).toEqual(['payload.payment.paypalEmail is required for paypal payments']);
+  });
+
+  it('should require an empty order to have items', () => {
+    const request = { ...orderRequest(), cart: { ...cart(), items: [], totalItems: 0, totalAmount: 0 } };
+
+    expect(issues(orderRequestSchema, request)).toEqual(['payload.cart.items must contain between 1 and 100 entries']);
+  });
+
+  it('should only accept order ids', () => {
+    expect(issues(orderIdSchema, 'ORD-1A2B')).toEqual([]);
+    expect(issues(orderIdSchema, '../orders.json')).toEqual(['payload must be a valid order id']);
+  });
+});
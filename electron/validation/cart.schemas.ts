@@ -0,0 +1,146 @@
+import { array, date, number, object, oneOf, optional, string } from './schema';
+import { ORDER_STATUSES } from '../../shared/order-status';
+import { describeAddressIssue, validateAddress } from '../../shared/address-formats';
+import { validateCard } from '../../shared/payments';
+import { MAX_CART_ITEMS, MAX_ITEM_QUANTITY as MAX_QUANTITY } from '../../shared/cart-limits';
+import type { Address, Cart, CartItem, PaymentInfo } from '../../src/app/core/interfaces/cart.interface';
+
+/**
+ * Schemas for inbound cart and order IPC payloads (see electron/ipc/cart.ipc.ts)
+ */
+
+export const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const PHONE = /^[0-9+()\-.\s]+$/;
+const MAX_PRICE = 1_000_000;
+// Cart totals are summed in the renderer with floating point math
+const AMOUNT_TOLERANCE = 0.01;
+
+export const SHIPPING_METHODS = ['standard', 'express', 'overnight'] as const;
+export const PAYMENT_METHODS = ['credit', 'debit', 'paypal', 'crypto'] as const;
+
+const product = object({
+  id: number({ min: 1, max: Number.MAX_SAFE_INTEGER, integer: true }),
+  title: string({ min: 1, max: 500 }),
+  price: number({ min: 0, max: MAX_PRICE }),
+  description: string({ max: 5000 }),
+  category: string({ min: 1, max: 100 }),
+  // Faker mode uses inline SVG data URIs
+  image: string({ max: 20000 }),
+  rating: object({
+    rate: number({ min: 0, max: 5 }),
+    count: number({ min: 0, max: Number.MAX_SAFE_INTEGER, integer: true })
+  })
+});
+
+const cartItem = object<CartItem>({
+  product,
+  quantity: number({ min: 1, max: MAX_QUANTITY, integer: true }),
+  subtotal: number({ min: 0, max: MAX_PRICE * MAX_QUANTITY })
+}, (item, path, issues) => {
+  if (Math.abs(item.subtotal - item.product.price * item.quantity) > AMOUNT_TOLERANCE) {
+    issues.push({ path: `${path}.subtotal`, message: 'does not match price × quantity' });
+  }
+});
+
+function cartSchema(minItems: number) {
+  return object<Cart>({
+    items: array(cartItem, { min: minItems, max: MAX_CART_ITEMS }),
+    totalItems: number({ min: 0, max: MAX_QUANTITY * MAX_CART_ITEMS, integer: true }),
+    totalAmount: number({ min: 0, max: MAX_PRICE * MAX_QUANTITY * MAX_CART_ITEMS }),
+    createdAt: date(),
+    updatedAt: date()
+  }, (cart, path, issues) => {
+    const items = cart.items;
+    if (cart.totalItems !== items.reduce((sum, item) => sum + item.quantity, 0)) {
+      issues.push({ path: `${path}.totalItems`, message: 'does not match the item quantities' });
+    }
+    if (Math.abs(cart.totalAmount - items.reduce((sum, item) => sum + item.subtotal, 0)) > AMOUNT_TOLERANCE) {
+      issues.push({ path: `${path}.totalAmount`, message: 'does not match the item subtotals' });
+    }
+  });
+}
+
+// Region and postal code are optional or required depending on the country
+export const addressSchema = object<Address>({
+  street: string({ min: 1, max: 200 }),
+  city: string({ min: 1, max: 100 }),
+  state: string({ max: 100 }),
+  zipCode: string({ max: 20 }),
+  country: string({ min: 1, max: 100 })
+}, (value, path, issues) => {
+  for (const issue of validateAddress(value)) {
+    issues.push({ path: `${path}.${issue.field}`, message: describeAddressIssue(issue, value.country) });
+  }
+});
+
+const billing = object({
+  firstName: string({ min: 1, max: 100 }),
+  lastName: string({ min: 1, max: 100 }),
+  email: string({ min: 3, max: 254, pattern: EMAIL, patternMessage: 'must be a valid email address' }),
+  phone: optional(string({ max: 30, pattern: PHONE, patternMessage: 'must be a valid phone number' })),
+  address: addressSchema
+});
+
+const shipping = object({
+  firstName: string({ min: 1, max: 100 }),
+  lastName: string({ min: 1, max: 100 }),
+  address: addressSchema,
+  shippingMethod: oneOf(SHIPPING_METHODS)
+});
+
+const payment = object<PaymentInfo>({
+  method: oneOf(PAYMENT_METHODS),
+  cardNumber: optional(string({ max: 19, pattern: /^\d{12,19}$/, patternMessage: 'must be 12-19 digits' })),
+  expiryDate: optional(string({ max: 5, pattern: /^(0[1-9]|1[0-2])\/\d{2}$/, patternMessage: 'must be in MM/YY format' })),
+  cvv: optional(string({ max: 4, pattern: /^\d{3,4}$/, patternMessage: 'must be 3 or 4 digits' })),
+  cardholderName: optional(string({ max: 100 })),
+  paypalEmail: optional(string({ max: 254, pattern: EMAIL, patternMessage: 'must be a valid email address' })),
+  cryptoWallet: optional(string({ max: 128, pattern: /^[A-Za-z0-9]+$/, patternMessage: 'must be alphanumeric' }))
+}, (value, path, issues) => {
+  const required: Record<PaymentInfo['method'], (keyof PaymentInfo)[]> = {
+    credit: ['cardNumber', 'expiryDate', 'cvv', 'cardholderName'],
+    debit: ['cardNumber', 'expiryDate', 'cvv', 'cardholderName'],
+    paypal: ['paypalEmail'],
+    crypto: ['cryptoWallet']
+  };
+  for (const field of required[value.method]) {
+    if (!value[field]) {
+      issues.push({ path: `${path}.${field}`, message: `is required for ${value.method} payments` });
+    }
+  }
+  if (issues.length === 0) {
+    // Card brand, length, Luhn checksum, expiry and CVV size
+    for (const issue of validateCard(value)) {
+      issues.push({ path: `${path}.${issue.field}`, message: issue.message });
+    }
+  }
+});
+
+/** Payload of `cart:save` (an empty cart is allowed) */
+export const savedCartSchema = cartSchema(0);
+
+/** Payload of `cart:submitOrder` (the cart must have items) */
+export const orderRequestSchema = object({
+  cart: cartSchema(1),
+  billing,
+  shipping,
+  payment,
+  idempotencyKey: string({ min: 16, max: 64, pattern: /^[A-Za-z0-9-]+$/, patternMessage: 'must be a valid idempotency key' }),
+  promoCode: optional(string({ min: 1, max: 32, pattern: /^\s*[A-Za-z0-9-]+\s*$/, patternMessage: 'must be a valid promo code' })),
+  currency: optional(string({ min: 3, max: 3, pattern: /^[A-Za-z]{3}$/, patternMessage: 'must be a currency code' }))
+});
+
+/** Argument of `cart:getOrder`, `cart:updateOrderStatus` and `cart:cancelOrder` */
+export const orderIdSchema = string({ min: 1, max: 100, pattern: /^ORD-[A-Z0-9-]+$/, patternMessage: 'must be a valid order id' });
+
+/** Target status of `cart:updateOrderStatus` */
+export const orderStatusSchema = oneOf(ORDER_STATUSES);
+
+/** Optional details of `cart:updateOrderStatus` */
+export const orderStatusDetailsSchema = optional(object({
+  note: optional(string({ max: 500 })),
+  trackingNumber: optional(string({ min: 1, max: 64, pattern: /^[A-Za-z0-9-]+$/, patternMessage: 'must be a valid tracking number' }))
+}));
+
+/** Optional reason of `cart:cancelOrder` */
+export const cancellationReasonSchema = optional(string({ max: 500 }));
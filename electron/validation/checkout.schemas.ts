@@ -0,0 +1,47 @@
+import { boolean, date, number, object, oneOf, optional, string } from './schema';
+import { PAYMENT_METHODS, SHIPPING_METHODS } from './cart.schemas';
+
+/**
+ * Schemas for inbound checkout draft IPC payloads (see electron/ipc/checkout.ipc.ts)
+ * Drafts hold half-filled forms, so fields are only bounded, not checked for format.
+ */
+
+const MAX_CHECKOUT_STEP = 2;
+
+const addressFields = {
+  street: optional(string({ max: 200 })),
+  city: optional(string({ max: 100 })),
+  state: optional(string({ max: 100 })),
+  zipCode: optional(string({ max: 20 })),
+  country: optional(string({ max: 100 }))
+};
+
+/** Argument of `checkout:loadDraft` (see cartDraftId() in shared/checkout-drafts.ts) */
+export const cartIdSchema = string({ min: 1, max: 40 });
+
+/** Payload of `checkout:saveDraft`; card number, expiry date and CVV are not allowed fields */
+export const checkoutDraftSchema = object({
+  cartId: cartIdSchema,
+  step: number({ min: 0, max: MAX_CHECKOUT_STEP, integer: true }),
+  sameAsShipping: boolean(),
+  billing: object({
+    firstName: optional(string({ max: 100 })),
+    lastName: optional(string({ max: 100 })),
+    email: optional(string({ max: 254 })),
+    phone: optional(string({ max: 30 })),
+    ...addressFields
+  }),
+  shipping: object({
+    firstName: optional(string({ max: 100 })),
+    lastName: optional(string({ max: 100 })),
+    shippingMethod: optional(oneOf(SHIPPING_METHODS)),
+    ...addressFields
+  }),
+  payment: object({
+    method: optional(oneOf(PAYMENT_METHODS)),
+    cardholderName: optional(string({ max: 100 })),
+    paypalEmail: optional(string({ max: 254 })),
+    cryptoWallet: optional(string({ max: 128 }))
+  }),
+  savedAt: date()
+});
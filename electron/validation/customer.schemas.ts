@@ -0,0 +1,34 @@
+import { object, oneOf, optional, string } from './schema';
+import { EMAIL, PHONE, addressSchema } from './cart.schemas';
+
+/**
+ * Schemas for inbound customer profile IPC payloads (see electron/ipc/customer.ipc.ts)
+ */
+
+export const ADDRESS_USES = ['billing', 'shipping'] as const;
+
+const ADDRESS_ID = /^ADR-[A-Z0-9-]+$/;
+
+/** Argument of `customer:deleteAddress` and `customer:setDefaultAddress` */
+export const addressIdSchema = string({ min: 1, max: 100, pattern: ADDRESS_ID, patternMessage: 'must be a valid address id' });
+
+/** Target of `customer:setDefaultAddress` */
+export const addressUseSchema = oneOf(ADDRESS_USES);
+
+/** Payload of `customer:updateContact` */
+export const customerContactSchema = object({
+  firstName: string({ min: 1, max: 100 }),
+  lastName: string({ min: 1, max: 100 }),
+  email: string({ min: 3, max: 254, pattern: EMAIL, patternMessage: 'must be a valid email address' }),
+  phone: optional(string({ max: 30, pattern: PHONE, patternMessage: 'must be a valid phone number' }))
+});
+
+/** Payload of `customer:saveAddress` (no id for a new address) */
+export const savedAddressSchema = object({
+  id: optional(addressIdSchema),
+  label: string({ min: 1, max: 50 }),
+  firstName: string({ min: 1, max: 100 }),
+  lastName: string({ min: 1, max: 100 }),
+  phone: optional(string({ max: 30, pattern: PHONE, patternMessage: 'must be a valid phone number' })),
+  address: addressSchema
+});
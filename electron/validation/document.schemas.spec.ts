@@ -0,0 +1,29 @@
+import { fromTransportError, IpcValidationError } from '../../shared/ipc-errors';
+import { exportFileSchema } from './document.schemas';
+import { validate } from './schema';
+
+describe('document schemas', () => {
+  function issues(value: unknown): string[] {
+    try {
+      validate(exportFileSchema, value, 'document:test', 'file');
+      return [];
+    } catch (error) {
+      const structured = fromTransportError(error);
+      expect(structured).toBeInstanceOf(IpcValidationError);
+      return (structured as IpcValidationError).issues.map(issue => `${issue.path} ${issue.message}`);
+    }
+  }
+
+  it('should accept text and binary content', () => {
+    expect(issues({ fileName: 'orders.csv', mimeType: 'text/csv', content: 'Order ID\r\n' })).toEqual([]);
+    expect(issues({ fileName: 'orders.xlsx', mimeType: 'application/zip', content: new Uint8Array([0x50, 0x4b]) })).toEqual([]);
+    expect(issues({ fileName: 'orders.xlsx', mimeType: 'application/zip', content: Buffer.from('PK') })).toEqual([]);
+  });
+
+  it('should reject other content and file names with a path', () => {
+    expect(issues({ fileName: '../orders.csv', mimeType: 'text/csv', content: [80, 75] })).toEqual([
+      'file.fileName must be a file name without a path',
+      'file.content must be a string'
+    ]);
+  });
+});
@@ -0,0 +1,26 @@
+import { Schema, bytes, object, string } from './schema';
+
+/**
+ * Schemas for inbound document IPC payloads (see electron/ipc/document.ipc.ts)
+ */
+
+// Order exports are text or uncompressed .xlsx; this leaves room for tens of thousands of orders
+const MAX_FILE_CONTENT = 50 * 1024 * 1024;
+
+// Text, or the bytes of a binary format
+const fileContentSchema: Schema = (value, path, issues) =>
+  (value instanceof Uint8Array ? bytes({ max: MAX_FILE_CONTENT }) : string({ max: MAX_FILE_CONTENT }))(value, path, issues);
+
+// Only suggests a name in the save dialog; the user picks the directory
+export const documentFileNameSchema = string({
+  min: 1,
+  max: 255,
+  pattern: /^[^\\/:*?"<>|\x00-\x1f]+$/,
+  patternMessage: 'must be a file name without a path'
+});
+
+export const exportFileSchema = object({
+  fileName: documentFileNameSchema,
+  mimeType: string({ min: 1, max: 100 }),
+  content: fileContentSchema
+});
@@ -0,0 +1,9 @@
+import { optional, string } from './schema';
+import { MAX_PROFILE_USER_ID } from '../../shared/data-profiles';
+
+/**
+ * Schemas for inbound profile IPC payloads (see electron/ipc/profile.ipc.ts)
+ */
+
+// null (or empty) selects the guest profile
+export const profileUserIdSchema = optional(string({ min: 1, max: MAX_PROFILE_USER_ID }));
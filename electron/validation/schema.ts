@@ -0,0 +1,161 @@
+import { IpcValidationError, IpcValidationIssue, toTransportError } from '../../shared/ipc-errors';
+
+/**
+ * Minimal schema helpers for validating IPC payloads in the main process.
+ * A schema walks the value and records every problem it finds instead of stopping at the first.
+ */
+export type Schema = (value: unknown, path: string, issues: IpcValidationIssue[]) => void;
+
+interface StringRules {
+  min?: number;
+  max: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+}
+
+interface NumberRules {
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+export function string({ min = 0, max, pattern, patternMessage }: StringRules): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: 'must be a string' });
+    } else if (value.trim().length < min || value.length > max) {
+      issues.push({ path, message: `must be between ${min} and ${max} characters` });
+    } else if (pattern && !pattern.test(value)) {
+      issues.push({ path, message: patternMessage || 'has an invalid format' });
+    }
+  };
+}
+
+export function number({ min, max, integer = false }: NumberRules): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push({ path, message: 'must be a finite number' });
+    } else if (integer && !Number.isInteger(value)) {
+      issues.push({ path, message: 'must be an integer' });
+    } else if (value < min || value > max) {
+      issues.push({ path, message: `must be between ${min} and ${max}` });
+    }
+  };
+}
+
+export function oneOf(allowed: readonly string[]): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      issues.push({ path, message: `must be one of: ${allowed.join(', ')}` });
+    }
+  };
+}
+
+/**
+ * Binary data (structured clone delivers a Uint8Array, or a Buffer, as a Uint8Array)
+ */
+export function bytes({ max }: { max: number }): Schema {
+  return (value, path, issues) => {
+    if (!(value instanceof Uint8Array)) {
+      issues.push({ path, message: 'must be binary data' });
+    } else if (value.byteLength > max) {
+      issues.push({ path, message: `must be at most ${max} bytes` });
+    }
+  };
+}
+
+export function boolean(): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== 'boolean') {
+      issues.push({ path, message: 'must be true or false' });
+    }
+  };
+}
+
+/**
+ * Date instance (structured clone keeps Dates) or an ISO date string
+ */
+export function date(): Schema {
+  return (value, path, issues) => {
+    const time = value instanceof Date ? value.getTime()
+      : typeof value === 'string' ? Date.parse(value)
+      : NaN;
+    if (Number.isNaN(time)) {
+      issues.push({ path, message: 'must be a valid date' });
+    }
+  };
+}
+
+/**
+ * Skip validation when the value is absent (undefined, null or an empty form field)
+ */
+export function optional(schema: Schema): Schema {
+  return (value, path, issues) => {
+    if (value === undefined || value === null || value === '') {
+      return;
+    }
+    schema(value, path, issues);
+  };
+}
+
+export function array(item: Schema, { min = 0, max }: { min?: number; max: number }): Schema {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: 'must be an array' });
+      return;
+    }
+    if (value.length < min || value.length > max) {
+      issues.push({ path, message: `must contain between ${min} and ${max} entries` });
+      return;
+    }
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+  };
+}
+
+/**
+ * Plain object with a fixed set of keys; unknown keys are rejected
+ * @param refine Cross-field checks, run only when every field is valid (so the value has type T)
+ */
+export function object<T = Record<string, unknown>>(
+  shape: Record<string, Schema>,
+  refine?: (value: T, path: string, issues: IpcValidationIssue[]) => void
+): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+      if (!(key in shape) && record[key] !== undefined) {
+        issues.push({ path: `${path}.${key}`, message: 'is not an allowed field' });
+      }
+    }
+
+    const before = issues.length;
+    for (const [key, schema] of Object.entries(shape)) {
+      schema(record[key], `${path}.${key}`, issues);
+    }
+
+    if (refine && issues.length === before) {
+      refine(record as T, path, issues);
+    }
+  };
+}
+
+/**
+ * Validate an IPC payload, throwing a transport-safe IpcValidationError on failure
+ * @param channel Channel the payload arrived on (included in the error)
+ * @param name Root name used in issue paths
+ */
+export function validate<T>(schema: Schema, value: unknown, channel: string, name: string): T {
+  const issues: IpcValidationIssue[] = [];
+  schema(value, name, issues);
+
+  if (issues.length > 0) {
+    throw toTransportError(new IpcValidationError(channel, issues));
+  }
+
+  return value as T;
+}
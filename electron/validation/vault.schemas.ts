@@ -0,0 +1,12 @@
+import { string } from './schema';
+
+/**
+ * Schemas for inbound vault IPC payloads (see electron/ipc/vault.ipc.ts)
+ */
+
+const MAX_PASSPHRASE = 1024;
+
+// Existing passphrases are only checked against the vault, never for strength
+export const passphraseSchema = string({ min: 1, max: MAX_PASSPHRASE });
+
+export const newPassphraseSchema = string({ min: 8, max: MAX_PASSPHRASE });
@@ -0,0 +1,43 @@
+import type { Address } from '../src/app/core/interfaces/cart.interface';
+import { GENERIC_ADDRESS_FORMAT, addressFormatFor, describeAddressIssue, validateAddress } from './address-formats';
+
+describe('address formats', () => {
+  function address(country: string, state: string, zipCode: string): Address {
+    return { street: '1 Main St', city: 'Springfield', state, zipCode, country };
+  }
+
+  function problems(value: Address): string[] {
+    return validateAddress(value).map(issue => `${issue.field} ${issue.problem}`);
+  }
+
+  it('should find a country by name or alias regardless of case', () => {
+    expect(addressFormatFor('united states').country).toBe('United States');
+    expect(addressFormatFor(' UK ').country).toBe('United Kingdom');
+    expect(addressFormatFor('Narnia')).toBe(GENERIC_ADDRESS_FORMAT);
+    expect(addressFormatFor(null)).toBe(GENERIC_ADDRESS_FORMAT);
+  });
+
+  it('should check US states and ZIP codes', () => {
+    expect(problems(address('United States', 'ny', '12345-6789'))).toEqual([]);
+    expect(problems(address('US', 'ZZ', '1234'))).toEqual(['state invalid', 'zipCode invalid']);
+    expect(problems(address('USA', '', ''))).toEqual(['state required', 'zipCode required']);
+  });
+
+  it('should accept Canadian and British postal codes', () => {
+    expect(problems(address('Canada', 'ON', 'K1A 0B1'))).toEqual([]);
+    expect(problems(address('United Kingdom', '', 'SW1A 1AA'))).toEqual([]);
+    expect(problems(address('United Kingdom', '', '12345'))).toEqual(['zipCode invalid']);
+  });
+
+  it('should leave optional fields empty', () => {
+    expect(problems(address('Ireland', '', ''))).toEqual([]);
+    expect(problems(address('Narnia', '', ''))).toEqual([]);
+  });
+
+  it('should describe an issue in the country\'s terms', () => {
+    const [region, postalCode] = validateAddress(address('Canada', '', 'ABC'));
+
+    expect(describeAddressIssue(region, 'Canada')).toBe('is required in Canada');
+    expect(describeAddressIssue(postalCode, 'Canada')).toBe('must be a valid Postal Code (e.g. K1A 0B1)');
+  });
+});
@@ -0,0 +1,228 @@
+import type { Address } from '../src/app/core/interfaces/cart.interface';
+
+/**
+ * Address Formats
+ * Country-specific address rules: which region and postal code fields a country uses, what
+ * they are called and what they look like. The checkout forms build their labels and validators
+ * from them (AddressFieldsComponent) and the desktop order pipeline re-checks billing and
+ * shipping addresses with validateAddress (cart.schemas.ts).
+ * Countries without a format of their own get GENERIC_ADDRESS_FORMAT.
+ */
+
+/**
+ * Rules for the region (state, province, ...) or postal code field of an address
+ */
+export interface AddressFieldRule {
+  label: string;
+  required: boolean;
+  pattern?: RegExp;
+  /** Shown in validation messages, e.g. '12345 or 12345-6789' */
+  example?: string;
+  /** Allowed values (code → name); the form offers them as a list */
+  options?: Record<string, string>;
+}
+
+export interface AddressFormat {
+  /** Country name stored in addresses (matches the tax and holiday rules) */
+  country: string;
+  /** Other names the country is entered as, matched case-insensitively */
+  aliases?: string[];
+  region: AddressFieldRule;
+  postalCode: AddressFieldRule;
+}
+
+/**
+ * How a value breaks a field rule
+ */
+export type AddressProblem = 'required' | 'invalid';
+
+/**
+ * A field of an address that breaks its country's rules
+ */
+export interface AddressIssue {
+  field: 'state' | 'zipCode';
+  rule: AddressFieldRule;
+  problem: AddressProblem;
+}
+
+const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+  CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia',
+  HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky',
+  LA: 'Louisiana', ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota',
+  OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island',
+  SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont',
+  VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming'
+};
+
+const CANADIAN_PROVINCES: Record<string, string> = {
+  AB: 'Alberta', BC: 'British Columbia', MB: 'Manitoba', NB: 'New Brunswick',
+  NL: 'Newfoundland and Labrador', NS: 'Nova Scotia', NT: 'Northwest Territories', NU: 'Nunavut',
+  ON: 'Ontario', PE: 'Prince Edward Island', QC: 'Quebec', SK: 'Saskatchewan', YT: 'Yukon'
+};
+
+const AUSTRALIAN_STATES: Record<string, string> = {
+  ACT: 'Australian Capital Territory', NSW: 'New South Wales', NT: 'Northern Territory',
+  QLD: 'Queensland', SA: 'South Australia', TAS: 'Tasmania', VIC: 'Victoria', WA: 'Western Australia'
+};
+
+const optionalRegion = (label: string): AddressFieldRule => ({ label, required: false });
+const postalCode = (label: string, pattern: RegExp, example: string): AddressFieldRule =>
+  ({ label, required: true, pattern, example });
+
+export const ADDRESS_FORMATS: AddressFormat[] = [
+  {
+    country: 'United States',
+    aliases: ['US', 'USA'],
+    region: { label: 'State', required: true, options: US_STATES },
+    postalCode: postalCode('ZIP Code', /^\d{5}(-\d{4})?$/, '12345 or 12345-6789')
+  },
+  {
+    country: 'Canada',
+    aliases: ['CA'],
+    region: { label: 'Province', required: true, options: CANADIAN_PROVINCES },
+    postalCode: postalCode('Postal Code', /^[A-Za-z]\d[A-Za-z][ -]?\d[A-Za-z]\d$/, 'K1A 0B1')
+  },
+  {
+    country: 'United Kingdom',
+    aliases: ['UK', 'GB', 'Great Britain'],
+    region: optionalRegion('County'),
+    postalCode: postalCode('Postcode', /^[A-Za-z]{1,2}\d[A-Za-z\d]?\s*\d[A-Za-z]{2}$/, 'SW1A 1AA')
+  },
+  {
+    country: 'Ireland',
+    aliases: ['IE'],
+    region: optionalRegion('County'),
+    postalCode: { label: 'Eircode', required: false, pattern: /^[A-Za-z]\d[\dWw]\s?[A-Za-z\d]{4}$/, example: 'D02 X285' }
+  },
+  {
+    country: 'Germany',
+    aliases: ['DE', 'Deutschland'],
+    region: optionalRegion('State'),
+    postalCode: postalCode('Postal Code', /^\d{5}$/, '10115')
+  },
+  {
+    country: 'France',
+    aliases: ['FR'],
+    region: optionalRegion('Region'),
+    postalCode: postalCode('Postal Code', /^\d{5}$/, '75001')
+  },
+  {
+    country: 'Spain',
+    aliases: ['ES', 'España'],
+    region: optionalRegion('Province'),
+    postalCode: postalCode('Postal Code', /^\d{5}$/, '28001')
+  },
+  {
+    country: 'Italy',
+    aliases: ['IT', 'Italia'],
+    region: optionalRegion('Province'),
+    postalCode: postalCode('CAP', /^\d{5}$/, '00118')
+  },
+  {
+    country: 'Netherlands',
+    aliases: ['NL', 'Holland'],
+    region: optionalRegion('Province'),
+    postalCode: postalCode('Postal Code', /^\d{4}\s?[A-Za-z]{2}$/, '1012 AB')
+  },
+  {
+    country: 'Australia',
+    aliases: ['AU'],
+    region: { label: 'State', required: true, options: AUSTRALIAN_STATES },
+    postalCode: postalCode('Postcode', /^\d{4}$/, '2000')
+  },
+  {
+    country: 'New Zealand',
+    aliases: ['NZ'],
+    region: optionalRegion('Region'),
+    postalCode: postalCode('Postcode', /^\d{4}$/, '6011')
+  },
+  {
+    country: 'Japan',
+    aliases: ['JP'],
+    region: { label: 'Prefecture', required: true },
+    postalCode: postalCode('Postal Code', /^\d{3}-?\d{4}$/, '100-0001')
+  },
+  {
+    country: 'India',
+    aliases: ['IN'],
+    region: { label: 'State', required: true },
+    postalCode: postalCode('PIN Code', /^\d{6}$/, '110001')
+  },
+  {
+    country: 'Brazil',
+    aliases: ['BR', 'Brasil'],
+    region: { label: 'State', required: true },
+    postalCode: postalCode('CEP', /^\d{5}-?\d{3}$/, '01310-100')
+  },
+  {
+    country: 'Mexico',
+    aliases: ['MX', 'México'],
+    region: { label: 'State', required: true },
+    postalCode: postalCode('Postal Code', /^\d{5}$/, '06000')
+  }
+];
+
+export const GENERIC_ADDRESS_FORMAT: AddressFormat = {
+  country: '',
+  region: optionalRegion('State / Province / Region'),
+  postalCode: { label: 'Postal Code', required: false, pattern: /^[A-Za-z0-9][A-Za-z0-9\s-]{1,9}$/ }
+};
+
+/**
+ * Format of a country, by name or alias (GENERIC_ADDRESS_FORMAT for unknown countries)
+ */
+export function addressFormatFor(country: string | null | undefined): AddressFormat {
+  const name = country?.trim().toLowerCase();
+  return (name && ADDRESS_FORMATS.find(format =>
+    format.country.toLowerCase() === name || format.aliases?.some(alias => alias.toLowerCase() === name)
+  )) || GENERIC_ADDRESS_FORMAT;
+}
+
+/**
+ * Check the region and postal code of an address against its country's format
+ * @returns Every broken rule (empty if the address is valid)
+ */
+export function validateAddress(address: Address): AddressIssue[] {
+  const format = addressFormatFor(address.country);
+  const issues: AddressIssue[] = [];
+
+  const regionProblem = checkField(address.state, format.region);
+  if (regionProblem) {
+    issues.push({ field: 'state', rule: format.region, problem: regionProblem });
+  }
+  const postalCodeProblem = checkField(address.zipCode, format.postalCode);
+  if (postalCodeProblem) {
+    issues.push({ field: 'zipCode', rule: format.postalCode, problem: postalCodeProblem });
+  }
+  return issues;
+}
+
+/**
+ * Validation message for an issue, phrased to follow the field's path (e.g. 'shipping.address.zipCode')
+ */
+export function describeAddressIssue(issue: AddressIssue, country: string): string {
+  if (issue.problem === 'required') {
+    return `is required in ${country}`;
+  }
+  return `must be a valid ${issue.rule.label}${issue.rule.example ? ` (e.g. ${issue.rule.example})` : ''}`;
+}
+
+/**
+ * How a value breaks a field rule, or null if it does not
+ */
+export function checkField(value: string | null | undefined, rule: AddressFieldRule): AddressProblem | null {
+  const text = value?.trim() ?? '';
+  if (!text) {
+    return rule.required ? 'required' : null;
+  }
+  if (rule.options && !(text.toUpperCase() in rule.options)) {
+    return 'invalid';
+  }
+  if (rule.pattern && !rule.pattern.test(text)) {
+    return 'invalid';
+  }
+  return null;
+}
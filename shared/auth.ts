@@ -0,0 +1,8 @@
+/**
+ * Auth
+ * The auth backend keeps sessions in HttpOnly cookies (see AuthService). Its URL is shared
+ * so the main process can confirm who is signed in before serving a user's data profile.
+ */
+
+// Your backend API URL - update this to your actual backend
+export const AUTH_API_URL = 'https://your-backend-api.com/auth';
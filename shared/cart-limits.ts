@@ -0,0 +1,25 @@
+/**
+ * Cart Limits
+ * Enforced by CartService as items are added and by the desktop IPC payload schemas
+ * (cart.schemas.ts), which refuse carts beyond them.
+ */
+
+/** Most units of one product in a cart */
+export const MAX_ITEM_QUANTITY = 99;
+
+/** Most different products in a cart */
+export const MAX_CART_ITEMS = 100;
+
+/**
+ * A limit that cut a cart change short
+ */
+export type CartLimit = 'item-quantity' | 'cart-items';
+
+/**
+ * Message telling the customer which limit applied
+ */
+export function describeCartLimit(limit: CartLimit): string {
+  return limit === 'item-quantity'
+    ? `You can order up to ${MAX_ITEM_QUANTITY} of each product.`
+    : `Your cart can hold up to ${MAX_CART_ITEMS} different products.`;
+}
@@ -0,0 +1,38 @@
+import type { CheckoutDraft } from '../src/app/core/interfaces/checkout-draft.interface';
+import type { PaymentInfo } from '../src/app/core/interfaces/cart.interface';
+import { cartDraftId, redactCheckoutDraft } from './checkout-drafts';
+
+describe('checkout drafts', () => {
+  it('should identify a cart by its creation time', () => {
+    const createdAt = new Date('2024-03-01T10:00:00.000Z');
+
+    expect(cartDraftId({ createdAt })).toBe('2024-03-01T10:00:00.000Z');
+    // Carts loaded from JSON carry the date as a string
+    expect(cartDraftId({ createdAt: '2024-03-01T10:00:00.000Z' as unknown as Date })).toBe(cartDraftId({ createdAt }));
+  });
+
+  it('should never keep card details in a draft', () => {
+    const payment: PaymentInfo = {
+      method: 'credit',
+      cardNumber: '4242424242424242',
+      expiryDate: '12/30',
+      cvv: '123',
+      cardholderName: 'Ada Lovelace'
+    };
+    const draft: CheckoutDraft = {
+      cartId: '2024-03-01T10:00:00.000Z',
+      step: 2,
+      sameAsShipping: true,
+      billing: { firstName: 'Ada' },
+      shipping: { city: 'Albany' },
+      payment,
+      savedAt: new Date()
+    };
+
+    const redacted = redactCheckoutDraft(draft);
+
+    expect(redacted.payment).toEqual({ method: 'credit', cardholderName: 'Ada Lovelace' });
+    expect({ ...redacted, payment: draft.payment }).toEqual(draft);
+    expect(draft.payment).toBe(payment);
+  });
+});
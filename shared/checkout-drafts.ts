@@ -0,0 +1,34 @@
+import type { Cart } from '../src/app/core/interfaces/cart.interface';
+import type { CheckoutDraft, PaymentDraft } from '../src/app/core/interfaces/checkout-draft.interface';
+
+/**
+ * Checkout Drafts
+ * What the checkout forms autosave (CheckoutDraftService) and the data APIs store: one draft
+ * per data profile, tied to the cart it was filled in for. Clearing the cart (e.g. after an
+ * order) starts a new cart, so an older draft is no longer restored.
+ */
+
+/**
+ * Payment fields a draft may keep; card details are always re-entered
+ */
+export const DRAFT_PAYMENT_FIELDS: (keyof PaymentDraft)[] = ['method', 'cardholderName', 'paypalEmail', 'cryptoWallet'];
+
+/**
+ * Identifies a cart for its draft (a cart keeps its creation time until it is cleared)
+ */
+export function cartDraftId(cart: Pick<Cart, 'createdAt'>): string {
+  return new Date(cart.createdAt).toISOString();
+}
+
+/**
+ * Copy of a draft without any payment field outside DRAFT_PAYMENT_FIELDS
+ */
+export function redactCheckoutDraft(draft: CheckoutDraft): CheckoutDraft {
+  const payment: PaymentDraft = {};
+  for (const field of DRAFT_PAYMENT_FIELDS) {
+    if (draft.payment?.[field] !== undefined) {
+      (payment as Record<string, unknown>)[field] = draft.payment[field];
+    }
+  }
+  return { ...draft, payment };
+}
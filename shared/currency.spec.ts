@@ -0,0 +1,61 @@
+import type { Currency } from '../src/app/core/interfaces/currency.interface';
+import {
+  BASE_CURRENCY,
+  DEFAULT_CURRENCIES,
+  convertAmount,
+  findCurrency,
+  formatMoney,
+  orderCurrencyFor,
+  resolveCurrencies
+} from './currency';
+
+describe('currency conversion', () => {
+  const euro: Currency = { code: 'EUR', name: 'Euro', rate: 0.92, locale: 'de-DE' };
+
+  describe('resolveCurrencies', () => {
+    it('should fall back to the default table', () => {
+      expect(resolveCurrencies()).toEqual(DEFAULT_CURRENCIES);
+      expect(resolveCurrencies([])).toEqual(DEFAULT_CURRENCIES);
+    });
+
+    it('should drop invalid entries and always offer the base currency', () => {
+      const configured: Currency[] = [
+        euro,
+        { code: 'EURO', name: 'Bad code', rate: 1 },
+        { code: 'XYZ', name: 'Bad rate', rate: 0 }
+      ];
+
+      expect(resolveCurrencies(configured)).toEqual([BASE_CURRENCY, euro]);
+    });
+  });
+
+  it('should find a currency by code regardless of case', () => {
+    expect(findCurrency(' eur ', DEFAULT_CURRENCIES)?.name).toBe('Euro');
+    expect(findCurrency('', DEFAULT_CURRENCIES)).toBeUndefined();
+    expect(findCurrency(null, DEFAULT_CURRENCIES)).toBeUndefined();
+  });
+
+  it('should record the display currency of an order at today\'s rate', () => {
+    expect(orderCurrencyFor('EUR', [euro])).toEqual({ code: 'EUR', rate: 0.92, locale: 'de-DE' });
+    expect(orderCurrencyFor('CHF', [euro])).toEqual({ code: 'USD', rate: 1, locale: 'en-US' });
+    expect(orderCurrencyFor(undefined, [euro])).toEqual({ code: 'USD', rate: 1, locale: 'en-US' });
+  });
+
+  it('should convert base amounts with the currency\'s rate', () => {
+    expect(convertAmount(10, euro)).toBeCloseTo(9.2, 10);
+  });
+
+  it('should format amounts in the currency\'s locale and minor units', () => {
+    expect(formatMoney(10, BASE_CURRENCY)).toBe('$10.00');
+    expect(formatMoney(10, euro)).toBe('9,20\u00A0€');
+    expect(formatMoney(10, { code: 'JPY', rate: 149.54, locale: 'ja-JP' })).toBe('￥1,495');
+  });
+
+  it('should keep showing an order in the rate it was placed at', () => {
+    const placedAt = orderCurrencyFor('EUR', [euro]);
+    const laterRates = [{ ...euro, rate: 1.5 }];
+
+    expect(formatMoney(10, placedAt)).toBe('9,20\u00A0€');
+    expect(formatMoney(10, orderCurrencyFor('EUR', laterRates))).toBe('15,00\u00A0€');
+  });
+});
@@ -0,0 +1,77 @@
+import type { Currency, OrderCurrency } from '../src/app/core/interfaces/currency.interface';
+
+/**
+ * Currency Conversion
+ * Prices, carts and order amounts are always kept in the base currency (USD); other
+ * currencies are a display concern, converted with a local exchange-rate table.
+ * Orders record their display currency and its rate when placed, so they keep
+ * showing what the customer saw after the rates change.
+ * Rates come from AppConfig.currencies, falling back to DEFAULT_CURRENCIES.
+ */
+
+export const BASE_CURRENCY: Currency = { code: 'USD', name: 'US Dollar', rate: 1, locale: 'en-US' };
+
+export const DEFAULT_CURRENCIES: Currency[] = [
+  BASE_CURRENCY,
+  { code: 'EUR', name: 'Euro', rate: 0.92, locale: 'de-DE' },
+  { code: 'GBP', name: 'British Pound', rate: 0.79, locale: 'en-GB' },
+  { code: 'CAD', name: 'Canadian Dollar', rate: 1.36, locale: 'en-CA' },
+  { code: 'JPY', name: 'Japanese Yen', rate: 149.5, locale: 'ja-JP' },
+  { code: 'INR', name: 'Indian Rupee', rate: 83.2, locale: 'en-IN' }
+];
+
+/**
+ * Currencies offered to the customer
+ * Entries without a valid code or rate are dropped; the base currency is always available.
+ */
+export function resolveCurrencies(configured?: Currency[]): Currency[] {
+  const currencies = (configured?.length ? configured : DEFAULT_CURRENCIES)
+    .filter(currency => /^[A-Za-z]{3}$/.test(currency.code) && Number.isFinite(currency.rate) && currency.rate > 0);
+  return currencies.some(currency => currency.code === BASE_CURRENCY.code)
+    ? currencies
+    : [BASE_CURRENCY, ...currencies];
+}
+
+/**
+ * Look up a currency by code (case-insensitive)
+ */
+export function findCurrency(code: string | null | undefined, currencies: Currency[]): Currency | undefined {
+  const normalized = code?.trim().toUpperCase();
+  return normalized ? currencies.find(currency => currency.code.toUpperCase() === normalized) : undefined;
+}
+
+/**
+ * Currency to record on an order placed in `code`, at today's rate
+ * Codes missing from the table fall back to the base currency.
+ */
+export function orderCurrencyFor(code: string | undefined, currencies: Currency[]): OrderCurrency {
+  const { code: resolved, rate, locale } = findCurrency(code, currencies) ?? BASE_CURRENCY;
+  return { code: resolved, rate, ...(locale ? { locale } : {}) };
+}
+
+/**
+ * Convert a base-currency amount
+ */
+export function convertAmount(amount: number, { rate }: Pick<Currency, 'rate'>): number {
+  return amount * rate;
+}
+
+/**
+ * Format a base-currency amount in a currency, with that currency's symbol and minor units
+ */
+export function formatMoney(amount: number, currency: OrderCurrency): string {
+  return moneyFormat(currency.code, currency.locale).format(convertAmount(amount, currency));
+}
+
+// Intl formatters are costly to create and templates format on every change detection
+const moneyFormats = new Map<string, Intl.NumberFormat>();
+
+function moneyFormat(code: string, locale: string | undefined): Intl.NumberFormat {
+  const key = `${locale ?? ''}|${code}`;
+  let format = moneyFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, { style: 'currency', currency: code });
+    moneyFormats.set(key, format);
+  }
+  return format;
+}
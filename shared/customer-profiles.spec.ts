@@ -0,0 +1,73 @@
+import type { SavedAddressInput } from '../src/app/core/interfaces/customer-profile.interface';
+import {
+  EMPTY_CUSTOMER_PROFILE,
+  MAX_SAVED_ADDRESSES,
+  defaultAddress,
+  deleteAddress,
+  saveAddress,
+  setDefaultAddress,
+  updateContact
+} from './customer-profiles';
+
+describe('customer profiles', () => {
+  function entry(label: string): SavedAddressInput {
+    return {
+      label,
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      address: { street: `${label} St`, city: 'Albany', state: 'NY', zipCode: '12207', country: 'United States' }
+    };
+  }
+
+  it('should make the first address the default for billing and shipping', () => {
+    const { profile, address } = saveAddress(EMPTY_CUSTOMER_PROFILE, entry('Home'));
+    const second = saveAddress(profile, entry('Work'));
+
+    expect(address.id).toMatch(/^ADR-/);
+    expect(defaultAddress(second.profile, 'billing')).toEqual(address);
+    expect(defaultAddress(second.profile, 'shipping')).toEqual(address);
+    expect(second.profile.addresses.length).toBe(2);
+  });
+
+  it('should edit an entry in place', () => {
+    const { profile, address } = saveAddress(EMPTY_CUSTOMER_PROFILE, entry('Home'));
+
+    const edited = saveAddress(profile, { ...entry('Home, new'), id: address.id });
+
+    expect(edited.address.id).toBe(address.id);
+    expect(edited.profile.addresses.map(saved => saved.label)).toEqual(['Home, new']);
+  });
+
+  it('should limit the size of the address book', () => {
+    let profile = EMPTY_CUSTOMER_PROFILE;
+    for (let index = 0; index < MAX_SAVED_ADDRESSES; index++) {
+      profile = saveAddress(profile, entry(`Address ${index}`)).profile;
+    }
+
+    expect(() => saveAddress(profile, entry('One too many'))).toThrowError(/at most 20 addresses/);
+  });
+
+  it('should clear the defaults of a deleted address', () => {
+    const home = saveAddress(EMPTY_CUSTOMER_PROFILE, entry('Home'));
+    const work = saveAddress(home.profile, entry('Work'));
+    const profile = setDefaultAddress(work.profile, work.address.id, 'shipping');
+
+    const remaining = deleteAddress(profile, home.address.id);
+
+    expect(remaining.defaultBillingId).toBeNull();
+    expect(remaining.defaultShippingId).toBe(work.address.id);
+    expect(remaining.addresses).toEqual([work.address]);
+  });
+
+  it('should refuse addresses that are not in the book', () => {
+    expect(() => deleteAddress(EMPTY_CUSTOMER_PROFILE, 'ADR-1')).toThrowError('Address ADR-1 not found');
+    expect(() => setDefaultAddress(EMPTY_CUSTOMER_PROFILE, 'ADR-1', 'billing')).toThrowError('Address ADR-1 not found');
+  });
+
+  it('should replace the contact details without changing the input', () => {
+    const contact = { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com' };
+
+    expect(updateContact(EMPTY_CUSTOMER_PROFILE, contact).contact).toEqual(contact);
+    expect(EMPTY_CUSTOMER_PROFILE.contact).toBeNull();
+  });
+});
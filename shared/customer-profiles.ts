@@ -0,0 +1,108 @@
+import type {
+  AddressUse,
+  CustomerContact,
+  CustomerProfile,
+  SavedAddress,
+  SavedAddressInput
+} from '../src/app/core/interfaces/customer-profile.interface';
+
+/**
+ * Customer Profiles
+ * Address book rules shared by the desktop store (customer.ipc.ts) and the browser's
+ * localStorage implementation (WebApiService). Every change returns a new profile.
+ */
+
+export const MAX_SAVED_ADDRESSES = 20;
+
+export const EMPTY_CUSTOMER_PROFILE: CustomerProfile = {
+  contact: null,
+  addresses: [],
+  defaultBillingId: null,
+  defaultShippingId: null
+};
+
+/**
+ * Replace the contact details
+ */
+export function updateContact(profile: CustomerProfile, contact: CustomerContact): CustomerProfile {
+  return { ...profile, contact };
+}
+
+/**
+ * Add an address (no id, or an id not in the book) or replace the entry with the same id
+ * The first address becomes the default for billing and shipping.
+ * @returns The updated profile and the saved entry
+ * @throws Error when the book is full
+ */
+export function saveAddress(
+  profile: CustomerProfile,
+  input: SavedAddressInput
+): { profile: CustomerProfile; address: SavedAddress } {
+  const existing = input.id ? profile.addresses.find(entry => entry.id === input.id) : undefined;
+  if (existing) {
+    const address: SavedAddress = { ...input, id: existing.id };
+    return {
+      profile: { ...profile, addresses: profile.addresses.map(entry => entry.id === existing.id ? address : entry) },
+      address
+    };
+  }
+
+  if (profile.addresses.length >= MAX_SAVED_ADDRESSES) {
+    throw new Error(`The address book holds at most ${MAX_SAVED_ADDRESSES} addresses`);
+  }
+  const address: SavedAddress = { ...input, id: newAddressId() };
+  return {
+    profile: {
+      ...profile,
+      addresses: [...profile.addresses, address],
+      defaultBillingId: profile.defaultBillingId ?? address.id,
+      defaultShippingId: profile.defaultShippingId ?? address.id
+    },
+    address
+  };
+}
+
+/**
+ * Remove an address; defaults that pointed to it are cleared
+ * @throws Error when the address is not in the book
+ */
+export function deleteAddress(profile: CustomerProfile, addressId: string): CustomerProfile {
+  findAddress(profile, addressId);
+  return {
+    ...profile,
+    addresses: profile.addresses.filter(entry => entry.id !== addressId),
+    defaultBillingId: profile.defaultBillingId === addressId ? null : profile.defaultBillingId,
+    defaultShippingId: profile.defaultShippingId === addressId ? null : profile.defaultShippingId
+  };
+}
+
+/**
+ * Make an address the default for billing or shipping
+ * @throws Error when the address is not in the book
+ */
+export function setDefaultAddress(profile: CustomerProfile, addressId: string, use: AddressUse): CustomerProfile {
+  findAddress(profile, addressId);
+  return use === 'billing'
+    ? { ...profile, defaultBillingId: addressId }
+    : { ...profile, defaultShippingId: addressId };
+}
+
+/**
+ * The default billing or shipping address, if one is set
+ */
+export function defaultAddress(profile: CustomerProfile, use: AddressUse): SavedAddress | undefined {
+  const id = use === 'billing' ? profile.defaultBillingId : profile.defaultShippingId;
+  return profile.addresses.find(entry => entry.id === id);
+}
+
+function findAddress(profile: CustomerProfile, addressId: string): SavedAddress {
+  const address = profile.addresses.find(entry => entry.id === addressId);
+  if (!address) {
+    throw new Error(`Address ${addressId} not found`);
+  }
+  return address;
+}
+
+function newAddressId(): string {
+  return `ADR-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`.toUpperCase();
+}
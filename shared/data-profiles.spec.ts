@@ -0,0 +1,48 @@
+import { GUEST_PROFILE, profileIdFor, profileStorageKey, profileUserId } from './data-profiles';
+
+describe('data profiles', () => {
+  describe('profileIdFor', () => {
+    it('should use the guest profile without a user', () => {
+      expect(profileIdFor(null)).toBe(GUEST_PROFILE);
+      expect(profileIdFor('')).toBe(GUEST_PROFILE);
+    });
+
+    it('should keep safe user ids readable', () => {
+      expect(profileIdFor('user-42')).toBe('user-user-42');
+    });
+
+    it('should escape characters that are unsafe in file names', () => {
+      expect(profileIdFor('../admin')).toBe('user-_2e__2e__2f_admin');
+    });
+
+    it('should give user ids that differ only in case their own profiles', () => {
+      expect(profileIdFor('Bob')).not.toBe(profileIdFor('bob'));
+    });
+
+    it('should never map a user to the guest profile', () => {
+      expect(profileIdFor('guest')).not.toBe(GUEST_PROFILE);
+    });
+  });
+
+  describe('profileUserId', () => {
+    it('should prefer the id over the username', () => {
+      expect(profileUserId({ id: 7, username: 'ada' })).toBe('7');
+      expect(profileUserId({ username: 'ada' })).toBe('ada');
+    });
+
+    it('should return null without a usable id', () => {
+      expect(profileUserId(null)).toBeNull();
+      expect(profileUserId({ id: '' })).toBeNull();
+    });
+  });
+
+  describe('profileStorageKey', () => {
+    it('should keep the original key for the guest profile', () => {
+      expect(profileStorageKey('cart', GUEST_PROFILE)).toBe('cart');
+    });
+
+    it('should suffix the key with the profile id for users', () => {
+      expect(profileStorageKey('cart', profileIdFor('ada'))).toBe('cart.user-ada');
+    });
+  });
+});
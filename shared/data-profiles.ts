@@ -0,0 +1,43 @@
+/**
+ * Data Profiles
+ * Persisted cart and order data is kept per authenticated user, plus a guest profile for
+ * anyone not logged in. The profile id is derived from the user id the same way in the main
+ * process (data directory name) and the renderer (storage keys).
+ */
+
+export const GUEST_PROFILE = 'guest';
+
+// Longest user id accepted for a profile
+export const MAX_PROFILE_USER_ID = 128;
+
+/**
+ * Profile id for a user (null for the guest profile)
+ * The id is safe as a file name and distinct for every user id: characters other than
+ * lowercase letters, digits and '-' are escaped, so 'Bob' and 'bob' never share a profile
+ * on case-insensitive file systems.
+ */
+export function profileIdFor(userId: string | null): string {
+  if (!userId) {
+    return GUEST_PROFILE;
+  }
+  const escaped = Array.from(userId, char =>
+    /[a-z0-9-]/.test(char) ? char : `_${char.codePointAt(0)!.toString(16)}_`
+  ).join('');
+  return `user-${escaped}`;
+}
+
+/**
+ * User id to key profile data by, from the AuthService user object
+ */
+export function profileUserId(user: { id?: unknown; username?: unknown } | null | undefined): string | null {
+  const id = user?.id ?? user?.username;
+  return id === undefined || id === null || id === '' ? null : String(id);
+}
+
+/**
+ * Browser storage key for a profile's copy of a document
+ * The guest profile keeps the original key, so data from before profiles existed stays the guest's.
+ */
+export function profileStorageKey(key: string, profileId: string): string {
+  return profileId === GUEST_PROFILE ? key : `${key}.${profileId}`;
+}
@@ -0,0 +1,51 @@
+import { DEFAULT_DELIVERY_RULES, describeTransit, estimateDelivery, resolveDeliveryRules } from './delivery';
+
+describe('delivery estimation', () => {
+  // Local times; 2024-03-08 is a Friday
+  const friday = (hours: number) => new Date(2024, 2, 8, hours);
+  const day = (month: number, date: number) => new Date(2024, month - 1, date);
+
+  it('should count business days from today when ordered before the cutoff', () => {
+    expect(estimateDelivery('standard', new Date(2024, 2, 4, 10))).toEqual({ earliest: day(3, 11), latest: day(3, 13) });
+  });
+
+  it('should never deliver overnight orders on a weekend', () => {
+    expect(estimateDelivery('overnight', friday(10))).toEqual({ earliest: day(3, 11), latest: day(3, 11) });
+  });
+
+  it('should dispatch on the next business day after the cutoff', () => {
+    expect(estimateDelivery('overnight', friday(14))).toEqual({ earliest: day(3, 12), latest: day(3, 12) });
+  });
+
+  it('should dispatch weekend orders on Monday', () => {
+    expect(estimateDelivery('express', new Date(2024, 2, 9, 9)).earliest).toEqual(day(3, 13));
+  });
+
+  it('should skip the destination country\'s holidays', () => {
+    const beforeIndependenceDay = new Date(2024, 6, 3, 10);
+
+    expect(estimateDelivery('overnight', beforeIndependenceDay, 'USA').earliest).toEqual(day(7, 5));
+    expect(estimateDelivery('overnight', beforeIndependenceDay, 'Canada').earliest).toEqual(day(7, 4));
+  });
+
+  it('should skip holidays given for a specific year', () => {
+    const rules = resolveDeliveryRules({
+      holidayCalendars: { 'United States': { dates: ['2024-11-28'], aliases: ['US'] } }
+    });
+
+    expect(estimateDelivery('overnight', new Date(2024, 10, 27, 10), 'US', rules).earliest).toEqual(day(11, 29));
+    expect(estimateDelivery('overnight', new Date(2025, 10, 26, 10), 'US', rules).earliest).toEqual(new Date(2025, 10, 27));
+  });
+
+  it('should fill in the defaults around configured rules', () => {
+    const rules = resolveDeliveryRules({ cutoffTime: '09:30' });
+
+    expect(rules.transitDays).toEqual(DEFAULT_DELIVERY_RULES.transitDays);
+    expect(estimateDelivery('overnight', new Date(2024, 2, 4, 9, 30), undefined, rules).earliest).toEqual(day(3, 6));
+  });
+
+  it('should describe the transit time', () => {
+    expect(describeTransit('standard')).toBe('5-7 business days');
+    expect(describeTransit('overnight')).toBe('1 business day');
+  });
+});
@@ -0,0 +1,124 @@
+import type { DeliveryWindow, ShippingMethod } from '../src/app/core/interfaces/cart.interface';
+import type { DeliveryRules, HolidayCalendar } from '../src/app/core/interfaces/app-config.interface';
+
+/**
+ * Delivery Estimation
+ * The one implementation of delivery dates, shared by checkout (shipping options), the
+ * browser's mock order API (WebApiService) and the desktop order pipeline (cart.ipc.ts).
+ * Orders dispatch on the day they are placed if that is a business day before the cutoff,
+ * otherwise on the next business day; transit counts business days only, skipping weekends
+ * and the holidays of the destination country.
+ * Rules come from AppConfig.delivery, falling back to DEFAULT_DELIVERY_RULES.
+ */
+
+export const DEFAULT_DELIVERY_RULES: DeliveryRules = {
+  transitDays: {
+    standard: { min: 5, max: 7 },
+    express: { min: 2, max: 3 },
+    overnight: { min: 1, max: 1 }
+  },
+  cutoffTime: '14:00',
+  weekendDays: [0, 6],
+  defaultHolidays: ['01-01', '12-25'],
+  holidayCalendars: {
+    'United States': {
+      // Fixed-date federal holidays; add floating ones (e.g. '2026-11-26') per year in the config
+      dates: ['01-01', '06-19', '07-04', '11-11', '12-25'],
+      aliases: ['US', 'USA']
+    }
+  }
+};
+
+// Safety net against calendars that leave no business day (e.g. every weekday a weekend day)
+const MAX_DAYS_SEARCHED = 366;
+
+/**
+ * Complete a partial rule set from the config with the defaults
+ */
+export function resolveDeliveryRules(overrides?: Partial<DeliveryRules>): DeliveryRules {
+  return {
+    transitDays: { ...DEFAULT_DELIVERY_RULES.transitDays, ...overrides?.transitDays },
+    cutoffTime: overrides?.cutoffTime ?? DEFAULT_DELIVERY_RULES.cutoffTime,
+    weekendDays: overrides?.weekendDays ?? DEFAULT_DELIVERY_RULES.weekendDays,
+    defaultHolidays: overrides?.defaultHolidays ?? DEFAULT_DELIVERY_RULES.defaultHolidays,
+    holidayCalendars: overrides?.holidayCalendars ?? DEFAULT_DELIVERY_RULES.holidayCalendars
+  };
+}
+
+/**
+ * Delivery window of an order
+ * @param placedAt When the order is placed (its local time is compared with the cutoff)
+ * @param country Destination country, selects the holiday calendar
+ */
+export function estimateDelivery(
+  shippingMethod: ShippingMethod = 'standard',
+  placedAt: Date = new Date(),
+  country?: string,
+  rules = DEFAULT_DELIVERY_RULES
+): DeliveryWindow {
+  const isBusinessDay = businessDayCheck(country, rules);
+  const transit = rules.transitDays[shippingMethod] ?? rules.transitDays.standard;
+
+  let dispatch = startOfDay(placedAt);
+  if (!isBusinessDay(dispatch) || isAfterCutoff(placedAt, rules.cutoffTime)) {
+    dispatch = addBusinessDays(dispatch, 1, isBusinessDay);
+  }
+
+  const min = Math.max(0, transit.min);
+  return {
+    earliest: addBusinessDays(dispatch, min, isBusinessDay),
+    latest: addBusinessDays(dispatch, Math.max(min, transit.max), isBusinessDay)
+  };
+}
+
+/**
+ * Transit time of a method for display, e.g. '5-7 business days'
+ */
+export function describeTransit(shippingMethod: ShippingMethod, rules = DEFAULT_DELIVERY_RULES): string {
+  const { min, max } = rules.transitDays[shippingMethod] ?? rules.transitDays.standard;
+  const days = max > min ? `${min}-${max}` : `${min}`;
+  return `${days} business ${max === 1 ? 'day' : 'days'}`;
+}
+
+function businessDayCheck(country: string | undefined, rules: DeliveryRules): (day: Date) => boolean {
+  const holidays = new Set(country ? findCalendar(country, rules)?.dates ?? rules.defaultHolidays : rules.defaultHolidays);
+  return day => !rules.weekendDays.includes(day.getDay()) &&
+    !holidays.has(dateKey(day)) && !holidays.has(dateKey(day).slice(5));
+}
+
+function addBusinessDays(from: Date, days: number, isBusinessDay: (day: Date) => boolean): Date {
+  const day = new Date(from);
+  let remaining = days;
+  for (let searched = 0; remaining > 0 && searched < MAX_DAYS_SEARCHED; searched++) {
+    day.setDate(day.getDate() + 1);
+    if (isBusinessDay(day)) {
+      remaining--;
+    }
+  }
+  return day;
+}
+
+function isAfterCutoff(time: Date, cutoff: string): boolean {
+  const [hours, minutes] = cutoff.split(':').map(Number);
+  if (!Number.isFinite(hours)) {
+    return false;
+  }
+  return time.getHours() * 60 + time.getMinutes() >= hours * 60 + (Number.isFinite(minutes) ? minutes : 0);
+}
+
+function findCalendar(country: string, rules: DeliveryRules): HolidayCalendar | undefined {
+  const name = country.trim().toLowerCase();
+  return Object.entries(rules.holidayCalendars).find(([key, calendar]) =>
+    key.toLowerCase() === name || calendar.aliases?.some(alias => alias.toLowerCase() === name)
+  )?.[1];
+}
+
+function startOfDay(time: Date): Date {
+  return new Date(time.getFullYear(), time.getMonth(), time.getDate());
+}
+
+// Local date as 'YYYY-MM-DD'
+function dateKey(day: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`;
+}
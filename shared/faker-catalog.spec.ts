@@ -0,0 +1,41 @@
+import { DEFAULT_FAKER_CATALOG, generateFakerCatalog } from './faker-catalog';
+
+describe('generateFakerCatalog', () => {
+  it('should produce the same catalog for the same seed', () => {
+    expect(generateFakerCatalog({ seed: 7 })).toEqual(generateFakerCatalog({ seed: 7 }));
+  });
+
+  it('should produce a different catalog for another seed', () => {
+    const prices = (seed: number) => generateFakerCatalog({ seed }).products.map(product => product.price);
+
+    expect(prices(1)).not.toEqual(prices(2));
+  });
+
+  it('should use the default size when no settings are given', () => {
+    const { products, categories } = generateFakerCatalog();
+
+    expect(products.length).toBe(DEFAULT_FAKER_CATALOG.productCount);
+    expect(categories.length).toBe(DEFAULT_FAKER_CATALOG.categoryCount);
+  });
+
+  it('should number products from 1 and place each in a generated category', () => {
+    const { products, categories } = generateFakerCatalog({ productCount: 12, categoryCount: 3 });
+
+    expect(products.map(product => product.id)).toEqual(Array.from({ length: 12 }, (_, index) => index + 1));
+    expect(products.every(product => categories.includes(product.category))).toBeTrue();
+  });
+
+  it('should price products between 5 and 500 with at most two decimals', () => {
+    for (const { price } of generateFakerCatalog({ productCount: 100 }).products) {
+      expect(price).toBeGreaterThanOrEqual(5);
+      expect(price).toBeLessThanOrEqual(500);
+      expect(Math.round(price * 100) / 100).toBe(price);
+    }
+  });
+
+  it('should embed product images so the catalog works offline', () => {
+    const { products } = generateFakerCatalog({ productCount: 3 });
+
+    expect(products.every(product => product.image.startsWith('data:image/svg+xml'))).toBeTrue();
+  });
+});
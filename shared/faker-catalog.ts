@@ -0,0 +1,65 @@
+import { Faker, base, en } from '@faker-js/faker';
+import type { Product } from '../src/app/core/interfaces/product.interface';
+import type { FakerCatalogConfig } from '../src/app/core/interfaces/app-config.interface';
+
+/**
+ * Faker Catalog
+ * Seeded, reproducible product catalog shared by the renderer (FakerApiService) and the
+ * Electron main process (order pricing), so both sides always agree on every price.
+ */
+
+/**
+ * Default Faker catalog settings
+ */
+export const DEFAULT_FAKER_CATALOG: Required<FakerCatalogConfig> = {
+  seed: 42,
+  productCount: 40,
+  categoryCount: 5
+};
+
+export interface FakerCatalog {
+  products: Product[];
+  categories: string[];
+}
+
+/**
+ * Generate the catalog; the same settings always produce the same products
+ * @param settings Seed and catalog size (missing values use the defaults)
+ */
+export function generateFakerCatalog(settings: FakerCatalogConfig = {}): FakerCatalog {
+  const { seed, productCount, categoryCount } = { ...DEFAULT_FAKER_CATALOG, ...settings };
+  const faker = new Faker({ locale: [en, base], seed });
+
+  const categories = faker.helpers
+    .uniqueArray(() => faker.commerce.department().toLowerCase(), Math.max(1, categoryCount));
+
+  const products: Product[] = Array.from({ length: Math.max(0, productCount) }, (_, index) => {
+    const title = faker.commerce.productName();
+    return {
+      id: index + 1,
+      title,
+      price: Number(faker.commerce.price({ min: 5, max: 500, dec: 2 })),
+      description: faker.commerce.productDescription(),
+      category: faker.helpers.arrayElement(categories),
+      image: placeholderImage(title, faker.color.rgb()),
+      rating: {
+        rate: faker.number.float({ min: 1, max: 5, fractionDigits: 1 }),
+        count: faker.number.int({ min: 0, max: 500 })
+      }
+    };
+  });
+
+  return { products, categories };
+}
+
+/**
+ * Inline SVG placeholder so product images work without network access
+ */
+function placeholderImage(title: string, color: string): string {
+  const initials = title.split(' ').slice(0, 2).map(word => word[0]).join('').toUpperCase();
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="300">` +
+    `<rect width="100%" height="100%" fill="${color}"/>` +
+    `<text x="50%" y="50%" dy=".35em" text-anchor="middle" font-family="sans-serif" font-size="96" fill="#fff">${initials}</text>` +
+    `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
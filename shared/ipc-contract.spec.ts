@@ -0,0 +1,33 @@
+import { IPC_CONTRACT, getIpcChannelMap } from './ipc-contract';
+
+describe('IPC contract', () => {
+  const channels = Object.values(getIpcChannelMap()).flatMap(methods => Object.values(methods));
+
+  it('should map every route to its channel', () => {
+    const map = getIpcChannelMap();
+
+    expect(map.cart.submitOrder).toBe(IPC_CONTRACT.cart.submitOrder.channel);
+    expect(Object.keys(map)).toEqual(Object.keys(IPC_CONTRACT));
+    for (const namespace of Object.keys(IPC_CONTRACT) as (keyof typeof IPC_CONTRACT)[]) {
+      expect(Object.keys(map[namespace])).toEqual(Object.keys(IPC_CONTRACT[namespace]));
+    }
+  });
+
+  it('should use each channel only once', () => {
+    expect(new Set(channels).size).toBe(channels.length);
+  });
+
+  it('should name channels after their namespace and method', () => {
+    for (const [namespace, methods] of Object.entries(getIpcChannelMap())) {
+      for (const [method, channel] of Object.entries(methods as Record<string, string>)) {
+        expect(channel).toBe(`${namespace}:${method}`);
+      }
+    }
+  });
+
+  it('should survive the round trip to the preload script', () => {
+    const encoded = encodeURIComponent(JSON.stringify(getIpcChannelMap()));
+
+    expect(JSON.parse(decodeURIComponent(encoded))).toEqual(getIpcChannelMap());
+  });
+});
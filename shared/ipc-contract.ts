@@ -0,0 +1,145 @@
+import type { AppConfig } from '../src/app/core/interfaces/app-config.interface';
+import type { CatalogResponse, Product } from '../src/app/core/interfaces/product.interface';
+import type { Cart, Order, OrderRequest, OrderStatus, OrderStatusDetails } from '../src/app/core/interfaces/cart.interface';
+import type { VaultStatus } from '../src/app/core/interfaces/vault.interface';
+import type { DataProfileInfo } from '../src/app/core/interfaces/data-profile.interface';
+import type { ExportFile } from '../src/app/core/interfaces/document.interface';
+import type { CheckoutDraft } from '../src/app/core/interfaces/checkout-draft.interface';
+import type {
+  AddressUse,
+  CustomerContact,
+  CustomerProfile,
+  SavedAddressInput
+} from '../src/app/core/interfaces/customer-profile.interface';
+
+/**
+ * IPC Contract
+ * Single source of truth for every channel between the Electron main process and the renderer.
+ * - Main process: handlers are registered against these routes (see electron/ipc/ipc-handle.ts)
+ * - Preload: the contextBridge API is built from IPC_CONTRACT at startup
+ * - Renderer: window.electronAPI is typed as ElectronAPI (see src/typings/electron.d.ts)
+ *
+ * This file must stay free of Electron, Node and Angular imports so every layer can use it.
+ */
+
+/**
+ * A single invoke/handle channel with its argument tuple and result type
+ */
+export interface IpcRoute<TArgs extends unknown[], TResult> {
+  readonly channel: string;
+  // Phantom fields carrying the types; never set at runtime
+  readonly __args?: TArgs;
+  readonly __result?: TResult;
+}
+
+function route<TArgs extends unknown[] = [], TResult = void>(channel: string): IpcRoute<TArgs, TResult> {
+  return { channel };
+}
+
+export const IPC_CONTRACT = {
+  // App-level APIs
+  app: {
+    getVersion: route<[], string>('app:getVersion'),
+    getConfig: route<[], AppConfig>('app:getConfig'),
+    quit: route<[], void>('app:quit')
+  },
+
+  // Product APIs (responses carry offline catalog cache metadata)
+  products: {
+    getAll: route<[], CatalogResponse<Product[]>>('products:getAll'),
+    getById: route<[id: number], CatalogResponse<Product | null>>('products:getById'),
+    getCategories: route<[], CatalogResponse<string[]>>('products:getCategories'),
+    getByCategory: route<[category: string], CatalogResponse<Product[]>>('products:getByCategory')
+  },
+
+  // Cart and order APIs
+  cart: {
+    save: route<[cart: Cart], boolean>('cart:save'),
+    load: route<[], Cart | null>('cart:load'),
+    submitOrder: route<[orderRequest: OrderRequest], Order>('cart:submitOrder'),
+    getOrder: route<[orderId: string], Order>('cart:getOrder'),
+    getOrders: route<[], Order[]>('cart:getOrders'),
+    updateOrderStatus: route<[orderId: string, status: OrderStatus, details?: OrderStatusDetails], Order>('cart:updateOrderStatus'),
+    cancelOrder: route<[orderId: string, reason?: string], Order>('cart:cancelOrder')
+  },
+
+  // Checkout progress of the active profile (loadDraft resolves to null for another cart's draft)
+  checkout: {
+    saveDraft: route<[draft: CheckoutDraft], boolean>('checkout:saveDraft'),
+    loadDraft: route<[cartId: string], CheckoutDraft | null>('checkout:loadDraft'),
+    clearDraft: route<[], boolean>('checkout:clearDraft')
+  },
+
+  // Contact details and address book of the active profile (changes resolve to the updated profile)
+  customer: {
+    getProfile: route<[], CustomerProfile>('customer:getProfile'),
+    updateContact: route<[contact: CustomerContact], CustomerProfile>('customer:updateContact'),
+    saveAddress: route<[address: SavedAddressInput], CustomerProfile>('customer:saveAddress'),
+    deleteAddress: route<[addressId: string], CustomerProfile>('customer:deleteAddress'),
+    setDefaultAddress: route<[addressId: string, use: AddressUse], CustomerProfile>('customer:setDefaultAddress')
+  },
+
+  // Per-user data profiles (cart, orders and vault are kept per profile)
+  profile: {
+    getActive: route<[], DataProfileInfo>('profile:getActive'),
+    activate: route<[userId: string | null], DataProfileInfo>('profile:activate')
+  },
+
+  // Encryption at rest for the active profile's cart and order stores
+  vault: {
+    getStatus: route<[], VaultStatus>('vault:getStatus'),
+    unlock: route<[passphrase: string], VaultStatus>('vault:unlock'),
+    lock: route<[], VaultStatus>('vault:lock'),
+    enable: route<[passphrase: string], VaultStatus>('vault:enable'),
+    changePassphrase: route<[current: string, next: string], VaultStatus>('vault:changePassphrase'),
+    disable: route<[passphrase: string], VaultStatus>('vault:disable')
+  },
+
+  // Documents saved through a native save dialog (resolve to the saved path, or null when cancelled)
+  document: {
+    saveAsPdf: route<[fileName: string], string | null>('document:saveAsPdf'),
+    saveFile: route<[file: ExportFile], string | null>('document:saveFile')
+  }
+};
+
+export type IpcContract = typeof IPC_CONTRACT;
+export type IpcNamespace = keyof IpcContract;
+
+export type IpcArgs<R> = R extends IpcRoute<infer TArgs, unknown> ? TArgs : never;
+export type IpcResult<R> = R extends IpcRoute<unknown[], infer TResult> ? TResult : never;
+
+/**
+ * Channel name of every route, grouped by namespace (plain JSON, safe to pass to the preload)
+ */
+export type IpcChannelMap = {
+  [N in IpcNamespace]: { [M in keyof IpcContract[N]]: string };
+};
+
+/**
+ * API exposed to the renderer as window.electronAPI
+ */
+export type ElectronAPI = {
+  [N in IpcNamespace]: {
+    [M in keyof IpcContract[N]]: (...args: IpcArgs<IpcContract[N][M]>) => Promise<IpcResult<IpcContract[N][M]>>;
+  };
+};
+
+/**
+ * Command-line switch used to hand the channel map to the sandboxed preload script,
+ * which cannot require local modules
+ */
+export const IPC_CONTRACT_ARG = '--ipc-contract=';
+
+/**
+ * Flatten the contract into its channel map
+ */
+export function getIpcChannelMap(): IpcChannelMap {
+  const map: Record<string, Record<string, string>> = {};
+  for (const [namespace, routes] of Object.entries(IPC_CONTRACT)) {
+    map[namespace] = {};
+    for (const [method, { channel }] of Object.entries(routes as Record<string, IpcRoute<unknown[], unknown>>)) {
+      map[namespace][method] = channel;
+    }
+  }
+  return map as IpcChannelMap;
+}
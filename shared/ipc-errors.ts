@@ -0,0 +1,207 @@
+import type { OrderStatus, PricingReport } from '../src/app/core/interfaces/cart.interface';
+import type { PromotionRejection } from '../src/app/core/interfaces/promotion.interface';
+import type { PaymentFailureReason } from '../src/app/core/interfaces/payment.interface';
+import type { OrderCurrency } from '../src/app/core/interfaces/currency.interface';
+import { BASE_CURRENCY, formatMoney } from './currency';
+
+/**
+ * IPC Errors
+ * Structured errors that survive the trip across the IPC boundary.
+ * Electron only forwards an Error's message to the renderer, so the details are
+ * encoded into the message by the main process and decoded again by the renderer.
+ */
+
+/**
+ * A single rejected field in an IPC payload
+ */
+export interface IpcValidationIssue {
+  /** Path to the offending value, e.g. `cart.items[0].quantity` */
+  path: string;
+  message: string;
+}
+
+export const IPC_VALIDATION_ERROR = 'IPC_VALIDATION_ERROR';
+export const PRICE_DISCREPANCY_ERROR = 'PRICE_DISCREPANCY_ERROR';
+export const VAULT_ERROR = 'VAULT_ERROR';
+export const ORDER_TRANSITION_ERROR = 'ORDER_TRANSITION_ERROR';
+export const PROMOTION_ERROR = 'PROMOTION_ERROR';
+export const PAYMENT_ERROR = 'PAYMENT_ERROR';
+
+/**
+ * Thrown when an inbound IPC payload does not match its schema
+ */
+export class IpcValidationError extends Error {
+  readonly code = IPC_VALIDATION_ERROR;
+
+  constructor(
+    readonly channel: string,
+    readonly issues: IpcValidationIssue[]
+  ) {
+    super(`Invalid payload for '${channel}': ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`);
+    this.name = 'IpcValidationError';
+  }
+}
+
+/**
+ * Thrown when the prices in an order request disagree with the catalog
+ */
+export class PriceDiscrepancyError extends Error {
+  readonly code = PRICE_DISCREPANCY_ERROR;
+
+  constructor(readonly report: PricingReport) {
+    super(report.discrepancies.length > 0
+      ? `Prices changed for ${report.discrepancies.length} item(s): ${report.discrepancies.map(item => item.title).join(', ')}`
+      : 'The cart total does not match its items');
+    this.name = 'PriceDiscrepancyError';
+  }
+}
+
+/**
+ * Why an encrypted data store refused an operation
+ */
+export type VaultErrorReason = 'locked' | 'wrong-passphrase' | 'not-enabled' | 'already-enabled';
+
+const VAULT_ERROR_MESSAGES: Record<VaultErrorReason, string> = {
+  'locked': 'Your order data is encrypted. Unlock it with your passphrase to continue.',
+  'wrong-passphrase': 'Incorrect passphrase.',
+  'not-enabled': 'Encryption is not enabled.',
+  'already-enabled': 'Encryption is already enabled.'
+};
+
+/**
+ * Thrown by the encrypted data stores (see electron/services/store-vault.ts)
+ */
+export class VaultError extends Error {
+  readonly code = VAULT_ERROR;
+
+  constructor(readonly reason: VaultErrorReason) {
+    super(VAULT_ERROR_MESSAGES[reason]);
+    this.name = 'VaultError';
+  }
+}
+
+/**
+ * Thrown when an order cannot move to the requested status (see shared/order-status.ts)
+ */
+export class OrderTransitionError extends Error {
+  readonly code = ORDER_TRANSITION_ERROR;
+
+  constructor(
+    readonly orderId: string,
+    readonly from: OrderStatus,
+    readonly to: OrderStatus
+  ) {
+    super(from === to
+      ? `Order ${orderId} is already ${to}`
+      : `Order ${orderId} cannot go from ${from} to ${to}`);
+    this.name = 'OrderTransitionError';
+  }
+}
+
+/**
+ * Thrown when a promo code cannot be applied to an order (see shared/promotions.ts)
+ */
+export class PromotionError extends Error {
+  readonly code = PROMOTION_ERROR;
+
+  constructor(
+    readonly promoCode: string,
+    readonly reason: PromotionRejection,
+    /** Required subtotal, for 'minimum-spend' */
+    readonly minSpend?: number
+  ) {
+    super(promotionErrorMessage(promoCode, reason, minSpend));
+    this.name = 'PromotionError';
+  }
+}
+
+/**
+ * Message for a rejected promo code with the minimum spend in a display currency
+ * (the error's own message shows it in the base currency)
+ */
+export function describePromotionError(error: PromotionError, currency: OrderCurrency): string {
+  return promotionErrorMessage(error.promoCode, error.reason, error.minSpend, currency);
+}
+
+function promotionErrorMessage(
+  code: string,
+  reason: PromotionRejection,
+  minSpend?: number,
+  currency: OrderCurrency = BASE_CURRENCY
+): string {
+  switch (reason) {
+    case 'unknown': return `${code} is not a valid promo code.`;
+    case 'not-started': return `Promo code ${code} is not active yet.`;
+    case 'expired': return `Promo code ${code} has expired.`;
+    case 'minimum-spend': return `Promo code ${code} requires a subtotal of at least ${formatMoney(minSpend ?? 0, currency)}.`;
+    case 'usage-limit': return `Promo code ${code} has reached its usage limit.`;
+    case 'not-applicable': return `Promo code ${code} does not apply to any item in your cart.`;
+  }
+}
+
+const PAYMENT_ERROR_MESSAGES: Record<PaymentFailureReason, string> = {
+  'declined': 'Your payment was declined. Please use a different payment method.',
+  'insufficient-funds': 'Your card has insufficient funds. Please use a different payment method.',
+  'expired-card': 'Your card has expired. Please use a different card.',
+  'invalid-card': 'Your card details are invalid. Please check them and try again.',
+  'timeout': 'The payment service did not respond in time, so your payment may still go through. Please try again; this order will not be charged twice.',
+  'gateway-error': 'Your payment could not be processed. You have not been charged; please try again.'
+};
+
+/**
+ * Thrown when the payment gateway does not take an order's payment (see shared/payment-gateway.ts)
+ */
+export class PaymentError extends Error {
+  readonly code = PAYMENT_ERROR;
+
+  constructor(readonly reason: PaymentFailureReason) {
+    super(PAYMENT_ERROR_MESSAGES[reason] ?? PAYMENT_ERROR_MESSAGES['gateway-error']);
+    this.name = 'PaymentError';
+  }
+}
+
+export type StructuredIpcError = IpcValidationError | PriceDiscrepancyError | VaultError | OrderTransitionError | PromotionError | PaymentError;
+
+/**
+ * Encode a structured error into a plain Error whose message carries the details
+ */
+export function toTransportError(error: StructuredIpcError): Error {
+  const details = error instanceof IpcValidationError ? { channel: error.channel, issues: error.issues }
+    : error instanceof PriceDiscrepancyError ? { report: error.report }
+    : error instanceof OrderTransitionError ? { orderId: error.orderId, from: error.from, to: error.to }
+    : error instanceof PromotionError ? { promoCode: error.promoCode, reason: error.reason, minSpend: error.minSpend }
+    : { reason: error.reason };
+  return new Error(`[${error.code}]${JSON.stringify(details)}`);
+}
+
+/**
+ * Rebuild a structured error from a rejected IPC call, if it carries one
+ * @param error Error (or message) received by the renderer
+ */
+export function fromTransportError(error: unknown): StructuredIpcError | null {
+  const message = typeof error === 'string' ? error : (error as Error | undefined)?.message;
+  const match = message?.match(/\[(IPC_VALIDATION_ERROR|PRICE_DISCREPANCY_ERROR|VAULT_ERROR|ORDER_TRANSITION_ERROR|PROMOTION_ERROR|PAYMENT_ERROR)\](.*)$/s);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const details = JSON.parse(match[2]);
+    switch (match[1]) {
+      case IPC_VALIDATION_ERROR:
+        return new IpcValidationError(details.channel, details.issues);
+      case PRICE_DISCREPANCY_ERROR:
+        return new PriceDiscrepancyError(details.report);
+      case ORDER_TRANSITION_ERROR:
+        return new OrderTransitionError(details.orderId, details.from, details.to);
+      case PROMOTION_ERROR:
+        return new PromotionError(details.promoCode, details.reason, details.minSpend);
+      case PAYMENT_ERROR:
+        return new PaymentError(details.reason);
+      default:
+        return new VaultError(details.reason);
+    }
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,72 @@
+import type { Cart } from '../src/app/core/interfaces/cart.interface';
+import { DocumentMigrator, MigrationError, cartMigrator, ordersMigrator } from './migrations';
+
+describe('DocumentMigrator', () => {
+  const cart: Cart = {
+    items: [{
+      product: { id: 1, title: 'Backpack', price: 10, description: '', category: 'bags', image: '', rating: { rate: 4, count: 1 } },
+      quantity: 2,
+      subtotal: 20
+    }],
+    totalItems: 2,
+    totalAmount: 20,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  it('should wrap data in the current version', () => {
+    expect(cartMigrator.wrap(cart)).toEqual({ schemaVersion: cartMigrator.version, data: cart });
+  });
+
+  it('should treat an unversioned document as version 0', () => {
+    const result = cartMigrator.migrate(cart);
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.migrated).toBeTrue();
+    expect(result.document).toEqual({ schemaVersion: 1, data: cart });
+  });
+
+  it('should leave a current document as it is', () => {
+    const result = cartMigrator.migrate({ schemaVersion: 1, data: cart });
+
+    expect(result.migrated).toBeFalse();
+    expect(result.document.data).toEqual(cart);
+  });
+
+  it('should upgrade orders one version at a time', () => {
+    const createdAt = new Date('2024-01-01T00:00:00.000Z');
+    const order = { id: 'ORD-1', status: 'pending', createdAt, cart };
+
+    const { document, fromVersion } = ordersMigrator.migrate([order]);
+
+    expect(fromVersion).toBe(0);
+    expect(document.schemaVersion).toBe(3);
+    expect(document.data[0].statusHistory).toEqual([{ status: 'pending', at: createdAt }]);
+    expect(document.data[0].currency).toEqual({ code: 'USD', rate: 1 });
+  });
+
+  it('should refuse documents from a newer version', () => {
+    expect(() => cartMigrator.migrate({ schemaVersion: 2, data: cart }))
+      .toThrowMatching(error => error instanceof MigrationError && error.fromVersion === 2);
+  });
+
+  it('should refuse documents that do not have the expected shape', () => {
+    expect(() => cartMigrator.migrate({ items: 'none' })).toThrowError(MigrationError, /expected shape/);
+  });
+
+  it('should report a failing step', () => {
+    expect(() => ordersMigrator.migrate({ schemaVersion: 1, data: 'orders' }))
+      .toThrowError(MigrationError, /step 1 → 2 failed \(orders must be a list of objects\)/);
+  });
+
+  it('should report a missing step', () => {
+    const migrator = new DocumentMigrator<number>({
+      name: 'counter',
+      version: 2,
+      steps: { 0: value => value },
+      isValid: (value): value is number => typeof value === 'number'
+    });
+
+    expect(() => migrator.migrate(1)).toThrowError(MigrationError, /no migration step from version 1/);
+  });
+});
@@ -0,0 +1,205 @@
+import type { Cart, Order } from '../src/app/core/interfaces/cart.interface';
+import type { CheckoutDraft } from '../src/app/core/interfaces/checkout-draft.interface';
+import type { CustomerProfile } from '../src/app/core/interfaces/customer-profile.interface';
+import { BASE_CURRENCY } from './currency';
+
+/**
+ * Persisted Document Migrations
+ * Every persisted cart/orders/checkout draft/customer profile document is stored as `{ schemaVersion, data }`.
+ * Older documents are upgraded one version at a time when they are read; documents that
+ * cannot be upgraded raise a MigrationError so the caller can quarantine them.
+ * Used by the Electron file stores (cart.ipc.ts) and the browser's localStorage (web mode).
+ *
+ * To change a persisted shape: bump the migrator's version and add a step from the previous one.
+ */
+
+/**
+ * Envelope written to disk / localStorage
+ */
+export interface VersionedDocument<T> {
+  schemaVersion: number;
+  data: T;
+}
+
+/**
+ * Raised when a document is from an unknown (newer) version, a step fails,
+ * or the result does not have the expected shape
+ */
+export class MigrationError extends Error {
+  constructor(
+    readonly documentName: string,
+    readonly fromVersion: number,
+    reason: string
+  ) {
+    super(`Cannot migrate ${documentName} from schema version ${fromVersion}: ${reason}`);
+    this.name = 'MigrationError';
+  }
+}
+
+export interface MigrationResult<T> {
+  document: VersionedDocument<T>;
+  fromVersion: number;
+  migrated: boolean;
+}
+
+interface MigratorSpec<T> {
+  name: string;
+  version: number;
+  /** steps[n] upgrades data from version n to n + 1 (and throws if the data does not have the version's shape) */
+  steps: Record<number, (data: unknown) => unknown>;
+  /** Structural check of the current version */
+  isValid: (data: unknown) => data is T;
+}
+
+export class DocumentMigrator<T> {
+  constructor(private readonly spec: MigratorSpec<T>) {}
+
+  get name(): string {
+    return this.spec.name;
+  }
+
+  get version(): number {
+    return this.spec.version;
+  }
+
+  /**
+   * Wrap data in an envelope with the current schema version
+   */
+  wrap(data: T): VersionedDocument<T> {
+    return { schemaVersion: this.spec.version, data };
+  }
+
+  /**
+   * Upgrade a raw persisted value to the current version
+   * Unversioned values (written before envelopes existed) are treated as version 0.
+   * @throws MigrationError if the document cannot be upgraded
+   */
+  migrate(raw: unknown): MigrationResult<T> {
+    const { name, version, steps, isValid } = this.spec;
+    const fromVersion = isVersionedDocument(raw) ? raw.schemaVersion : 0;
+    let data: unknown = isVersionedDocument(raw) ? raw.data : raw;
+
+    if (!Number.isInteger(fromVersion) || fromVersion < 0 || fromVersion > version) {
+      throw new MigrationError(name, fromVersion, `supported versions are 0-${version}`);
+    }
+
+    for (let current = fromVersion; current < version; current++) {
+      const step = steps[current];
+      if (!step) {
+        throw new MigrationError(name, fromVersion, `no migration step from version ${current}`);
+      }
+      try {
+        data = step(data);
+      } catch (error) {
+        throw new MigrationError(name, fromVersion, `step ${current} → ${current + 1} failed (${(error as Error)?.message || error})`);
+      }
+    }
+
+    if (!isValid(data)) {
+      throw new MigrationError(name, fromVersion, 'document does not have the expected shape');
+    }
+
+    return {
+      document: this.wrap(data),
+      fromVersion,
+      migrated: fromVersion !== version
+    };
+  }
+}
+
+function isVersionedDocument(value: unknown): value is VersionedDocument<unknown> {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as VersionedDocument<unknown>).schemaVersion === 'number' &&
+    'data' in value;
+}
+
+/**
+ * The entries of a list of objects (migration steps check their input with it)
+ * @throws Error if the value is not an array of objects
+ */
+function records(value: unknown, what: string): Record<string, unknown>[] {
+  if (!Array.isArray(value) || !value.every(entry => typeof entry === 'object' && entry !== null)) {
+    throw new Error(`${what} must be a list of objects`);
+  }
+  return value;
+}
+
+function isCart(value: unknown): value is Cart {
+  const cart = value as Cart;
+  return typeof cart === 'object' && cart !== null &&
+    Array.isArray(cart.items) &&
+    cart.items.every(item => typeof item?.product?.id === 'number' && typeof item.quantity === 'number') &&
+    typeof cart.totalItems === 'number' &&
+    typeof cart.totalAmount === 'number';
+}
+
+/**
+ * Persisted shopping cart (cart.json / localStorage 'cart')
+ */
+export const cartMigrator = new DocumentMigrator<Cart>({
+  name: 'cart',
+  version: 1,
+  steps: {
+    // v0 → v1: unversioned cart; wrapped as-is
+    0: cart => cart
+  },
+  isValid: isCart
+});
+
+/**
+ * Persisted order history (orders.json / localStorage 'orders')
+ */
+export const ordersMigrator = new DocumentMigrator<Order[]>({
+  name: 'orders',
+  version: 3,
+  steps: {
+    // v0 → v1: unversioned order array; wrapped as-is
+    0: orders => orders,
+    // v1 → v2: status history; the only known point in time is when the order was created
+    1: orders => records(orders, 'orders').map(order => ({
+      ...order,
+      statusHistory: [{ status: order['status'], at: order['createdAt'] }]
+    })),
+    // v2 → v3: display currency; every earlier order was shown in US dollars
+    2: orders => records(orders, 'orders').map(order => ({
+      ...order,
+      currency: { code: BASE_CURRENCY.code, rate: 1 }
+    }))
+  },
+  isValid: (value): value is Order[] =>
+    Array.isArray(value) && value.every(order =>
+      typeof order?.id === 'string' && isCart(order.cart) && Array.isArray(order.statusHistory))
+});
+
+/**
+ * Saved checkout progress (checkout-draft.json / localStorage 'checkoutDraft')
+ */
+export const checkoutDraftMigrator = new DocumentMigrator<CheckoutDraft>({
+  name: 'checkoutDraft',
+  version: 1,
+  // Drafts were always written in an envelope
+  steps: {},
+  isValid: (value): value is CheckoutDraft => {
+    const draft = value as CheckoutDraft;
+    return typeof draft === 'object' && draft !== null &&
+      typeof draft.cartId === 'string' &&
+      typeof draft.step === 'number' &&
+      typeof draft.billing === 'object' && typeof draft.shipping === 'object' && typeof draft.payment === 'object';
+  }
+});
+
+/**
+ * Saved contact details and address book (customer.json / localStorage 'customer')
+ */
+export const customerProfileMigrator = new DocumentMigrator<CustomerProfile>({
+  name: 'customer',
+  version: 1,
+  // Customer profiles were always written in an envelope
+  steps: {},
+  isValid: (value): value is CustomerProfile => {
+    const profile = value as CustomerProfile;
+    return typeof profile === 'object' && profile !== null &&
+      Array.isArray(profile.addresses) &&
+      profile.addresses.every(entry => typeof entry?.id === 'string' && typeof entry.address === 'object');
+  }
+});
@@ -0,0 +1,73 @@
+import type { Order, OrderStatus } from '../src/app/core/interfaces/cart.interface';
+import { OrderTransitionError } from './ipc-errors';
+import { ORDER_STATUSES, canTransition, generateTrackingNumber, isCancellable, transitionOrder } from './order-status';
+
+describe('order status engine', () => {
+  const createdAt = new Date('2024-03-01T10:00:00.000Z');
+  const address = { street: '1 Main St', city: 'Albany', state: 'NY', zipCode: '12207', country: 'United States' };
+
+  function order(status: OrderStatus = 'pending'): Order {
+    return {
+      id: 'ORD-1',
+      cart: { items: [], totalItems: 0, totalAmount: 0, createdAt, updatedAt: createdAt },
+      billing: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', address },
+      shipping: { firstName: 'Ada', lastName: 'Lovelace', address, shippingMethod: 'standard' },
+      payment: { method: 'paypal', paypalEmail: 'ada@example.com' },
+      subtotal: 0,
+      shipping_cost: 0,
+      tax: 0,
+      total: 0,
+      status,
+      statusHistory: [{ status, at: createdAt }],
+      createdAt,
+      currency: { code: 'USD', rate: 1 }
+    };
+  }
+
+  it('should only move orders forward through the lifecycle', () => {
+    expect(canTransition('pending', 'processing')).toBeTrue();
+    expect(canTransition('processing', 'shipped')).toBeTrue();
+    expect(canTransition('shipped', 'delivered')).toBeTrue();
+    expect(canTransition('shipped', 'pending')).toBeFalse();
+    expect(canTransition('pending', 'delivered')).toBeFalse();
+  });
+
+  it('should end the lifecycle at delivered and cancelled', () => {
+    for (const status of ORDER_STATUSES) {
+      expect(canTransition('delivered', status)).toBeFalse();
+      expect(canTransition('cancelled', status)).toBeFalse();
+    }
+  });
+
+  it('should allow cancelling until the order ships', () => {
+    expect(isCancellable(order('pending'))).toBeTrue();
+    expect(isCancellable(order('processing'))).toBeTrue();
+    expect(isCancellable(order('shipped'))).toBeFalse();
+  });
+
+  it('should record each transition without changing the original order', () => {
+    const original = order();
+    const at = new Date('2024-03-02T09:00:00.000Z');
+
+    const processing = transitionOrder(original, 'processing', { note: 'Picked' }, at);
+
+    expect(processing.status).toBe('processing');
+    expect(processing.statusHistory).toEqual([{ status: 'pending', at: createdAt }, { status: 'processing', at, note: 'Picked' }]);
+    expect(original.status).toBe('pending');
+    expect(original.statusHistory.length).toBe(1);
+  });
+
+  it('should assign a tracking number when the order ships', () => {
+    expect(transitionOrder(order('processing'), 'shipped').trackingNumber).toMatch(/^TRK-[A-Z0-9]+-[A-Z0-9]{6}$/);
+    expect(transitionOrder(order('processing'), 'shipped', { trackingNumber: '1Z999' }).trackingNumber).toBe('1Z999');
+  });
+
+  it('should refuse an illegal transition', () => {
+    expect(() => transitionOrder(order('shipped'), 'cancelled')).toThrowMatching(error =>
+      error instanceof OrderTransitionError && error.from === 'shipped' && error.to === 'cancelled');
+  });
+
+  it('should generate distinct tracking numbers', () => {
+    expect(generateTrackingNumber()).not.toBe(generateTrackingNumber());
+  });
+});
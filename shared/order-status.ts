@@ -0,0 +1,63 @@
+import type { Order, OrderStatus, OrderStatusDetails } from '../src/app/core/interfaces/cart.interface';
+import { OrderTransitionError } from './ipc-errors';
+
+/**
+ * Order Status Engine
+ * Legal order lifecycle transitions, shared by the Electron order store (cart.ipc.ts)
+ * and the browser's mock order API (WebApiService):
+ *
+ *   pending → processing → shipped → delivered
+ *      ↓           ↓
+ *   cancelled   cancelled
+ */
+
+export const ORDER_STATUSES: readonly OrderStatus[] = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'];
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: []
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * An order can be cancelled until it ships
+ */
+export function isCancellable(order: Pick<Order, 'status'>): boolean {
+  return canTransition(order.status, 'cancelled');
+}
+
+/**
+ * Move an order to a new status, recording when it happened
+ * Shipping assigns a tracking number unless one is given.
+ * @returns A new order object; the input is not modified
+ * @throws OrderTransitionError if the transition is not allowed
+ */
+export function transitionOrder(order: Order, to: OrderStatus, details: OrderStatusDetails = {}, at = new Date()): Order {
+  if (!canTransition(order.status, to)) {
+    throw new OrderTransitionError(order.id, order.status, to);
+  }
+
+  return {
+    ...order,
+    status: to,
+    statusHistory: [
+      ...order.statusHistory,
+      { status: to, at, ...(details.note ? { note: details.note } : {}) }
+    ],
+    ...(to === 'shipped' ? { trackingNumber: details.trackingNumber || generateTrackingNumber() } : {})
+  };
+}
+
+/**
+ * Mock carrier tracking number, e.g. TRK-LZ3K9Q-7F2XBA
+ */
+export function generateTrackingNumber(): string {
+  const random = Math.random().toString(36).substring(2, 8).padEnd(6, '0');
+  return `TRK-${Date.now().toString(36)}-${random}`.toUpperCase();
+}
@@ -0,0 +1,86 @@
+import type { PaymentInfo } from '../src/app/core/interfaces/cart.interface';
+import { PaymentError } from './ipc-errors';
+import { ChargeRequest, MockPaymentGateway, PaymentGateway, chargePayment } from './payment-gateway';
+
+describe('payment gateway', () => {
+  const card: PaymentInfo = { method: 'credit', cardNumber: '4242424242424242', expiryDate: '12/99', cvv: '123', cardholderName: 'Ada Lovelace' };
+
+  function request(payment: PaymentInfo = card, idempotencyKey = 'checkout-1'): ChargeRequest {
+    return { amount: 42.5, currency: 'USD', payment, idempotencyKey };
+  }
+
+  function reason(promise: Promise<unknown>): Promise<string | undefined> {
+    return promise.then(() => undefined, (error: PaymentError) => error.reason);
+  }
+
+  it('should approve a valid card', async () => {
+    const charge = await new MockPaymentGateway({ latencyMs: 0 }).charge(request());
+
+    expect(charge).toEqual(jasmine.objectContaining({ gateway: 'mock', amount: 42.5, currency: 'USD', brand: 'visa', last4: '4242' }));
+    expect(charge.transactionId).toMatch(/^TXN-/);
+  });
+
+  it('should decline the test cards and every payment in decline mode', async () => {
+    const gateway = new MockPaymentGateway({ latencyMs: 0 });
+
+    expect(await reason(gateway.charge(request({ ...card, cardNumber: '4000000000009995' })))).toBe('insufficient-funds');
+    expect(await reason(new MockPaymentGateway({ mode: 'decline', latencyMs: 0 }).charge(request()))).toBe('declined');
+  });
+
+  it('should charge a repeated request only once', async () => {
+    const gateway = new MockPaymentGateway({ latencyMs: 0 });
+
+    const [first, second] = await Promise.all([gateway.charge(request()), gateway.charge(request())]);
+
+    expect(second.transactionId).toBe(first.transactionId);
+    expect((await gateway.charge(request(card, 'checkout-2'))).transactionId).not.toBe(first.transactionId);
+  });
+
+  it('should charge a retry for a different amount or currency anew', async () => {
+    const gateway = new MockPaymentGateway({ latencyMs: 0 });
+    const first = await gateway.charge(request());
+
+    const changed = await gateway.charge({ ...request(), amount: 47.5 });
+    const converted = await gateway.charge({ ...request(), amount: 47.5, currency: 'EUR' });
+
+    expect(changed.amount).toBe(47.5);
+    expect(changed.transactionId).not.toBe(first.transactionId);
+    expect(converted.currency).toBe('EUR');
+    expect((await gateway.charge({ ...request(), amount: 47.5, currency: 'EUR' })).transactionId).toBe(converted.transactionId);
+  });
+
+  it('should allow a failed charge to be retried with the same key', async () => {
+    const gateway = new MockPaymentGateway({ latencyMs: 0 });
+    const declined = { ...card, cardNumber: '4000000000000002' };
+
+    expect(await reason(gateway.charge(request(declined)))).toBe('declined');
+    expect((await gateway.charge(request())).last4).toBe('4242');
+  });
+
+  it('should charge again after a charge is voided', async () => {
+    const gateway = new MockPaymentGateway({ latencyMs: 0 });
+    const first = await gateway.charge(request());
+
+    await gateway.voidCharge(first, 'checkout-1');
+
+    expect((await gateway.charge(request())).transactionId).not.toBe(first.transactionId);
+  });
+
+  describe('chargePayment', () => {
+    it('should give up on a gateway that does not answer', async () => {
+      const gateway = new MockPaymentGateway({ mode: 'timeout' });
+
+      expect(await reason(chargePayment(gateway, request(), 10))).toBe('timeout');
+    });
+
+    it('should report unexpected gateway failures as gateway errors', async () => {
+      const broken: PaymentGateway = {
+        name: 'broken',
+        charge: () => Promise.reject(new Error('socket hang up')),
+        voidCharge: () => Promise.resolve()
+      };
+
+      expect(await reason(chargePayment(broken, request()))).toBe('gateway-error');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import type { PaymentInfo } from '../src/app/core/interfaces/cart.interface';
+import type { PaymentCharge, PaymentGatewayConfig } from '../src/app/core/interfaces/payment.interface';
+import { PaymentError } from './ipc-errors';
+import { detectCardBrand, isCardExpired, normalizeCardNumber, passesLuhn } from './payments';
+
+/**
+ * Payment Gateway
+ * The order pipelines charge every order through a PaymentGateway before storing it:
+ * the desktop pipeline in cart.ipc.ts and the browser's mock order API in WebApiService.
+ * If the order then cannot be stored, its charge is voided; a retry with the same idempotency
+ * key and total is never charged twice.
+ * Only the local MockPaymentGateway exists so far; a real processor plugs in by implementing
+ * the interface and being passed to setupCartIPC().
+ */
+
+export const DEFAULT_PAYMENT_TIMEOUT_MS = 10000;
+const DEFAULT_MOCK_LATENCY_MS = 500;
+
+/**
+ * What to charge
+ */
+export interface ChargeRequest {
+  /** Amount in `currency` */
+  amount: number;
+  currency: string;
+  payment: PaymentInfo;
+  /**
+   * Repeated charges with the same key (and the same amount and currency) return the first
+   * charge instead of charging twice
+   */
+  idempotencyKey: string;
+}
+
+export interface PaymentGateway {
+  readonly name: string;
+  /**
+   * Take a payment
+   * @throws PaymentError when the payment is refused
+   */
+  charge(request: ChargeRequest): Promise<PaymentCharge>;
+  /**
+   * Cancel a charge whose order could not be stored
+   * @param idempotencyKey Key the charge was taken with; a later charge with it is a new one
+   */
+  voidCharge(charge: PaymentCharge, idempotencyKey: string): Promise<void>;
+}
+
+/**
+ * Charge through a gateway, giving up after a timeout
+ * @throws PaymentError ('timeout' when the gateway does not answer in time, 'gateway-error' when it fails)
+ */
+export async function chargePayment(
+  gateway: PaymentGateway,
+  request: ChargeRequest,
+  timeoutMs = DEFAULT_PAYMENT_TIMEOUT_MS
+): Promise<PaymentCharge> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new PaymentError('timeout')), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([gateway.charge(request), timeout]);
+  } catch (error) {
+    throw error instanceof PaymentError ? error : new PaymentError('gateway-error');
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Gateway for the app config (only the mock gateway is available)
+ */
+export function createPaymentGateway(config: PaymentGatewayConfig = {}): PaymentGateway {
+  return new MockPaymentGateway(config);
+}
+
+/**
+ * Card numbers the mock gateway declines in 'approve' mode (all pass the Luhn check)
+ */
+export const MOCK_DECLINED_CARDS: Record<string, PaymentError['reason']> = {
+  '4000000000000002': 'declined',
+  '4000000000009995': 'insufficient-funds',
+  '4000000000000069': 'expired-card'
+};
+
+/**
+ * Local stand-in for a payment processor; never moves money
+ */
+export class MockPaymentGateway implements PaymentGateway {
+  readonly name = 'mock';
+
+  // Charges by idempotency key, so a retried submission is not charged twice
+  private readonly charges = new Map<string, { amount: number; currency: string; charge: Promise<PaymentCharge> }>();
+
+  constructor(private readonly config: PaymentGatewayConfig = {}) {}
+
+  charge(request: ChargeRequest): Promise<PaymentCharge> {
+    if (this.config.mode === 'timeout') {
+      // Never answers (chargePayment() gives up) and is not kept, so pending charges cannot pile up
+      return new Promise<never>(() => {});
+    }
+
+    const cached = this.charges.get(request.idempotencyKey);
+    if (cached && cached.amount === request.amount && cached.currency === request.currency) {
+      return cached.charge;
+    }
+
+    // A retry for a different total (e.g. the shipping method or promo code changed after a
+    // timeout) is a new charge; the earlier one never got an order
+    const entry = { amount: request.amount, currency: request.currency, charge: this.process(request) };
+    this.charges.set(request.idempotencyKey, entry);
+    // Failed charges may be retried with the same key
+    entry.charge.catch(() => {
+      if (this.charges.get(request.idempotencyKey) === entry) {
+        this.charges.delete(request.idempotencyKey);
+      }
+    });
+    return entry.charge;
+  }
+
+  async voidCharge(charge: PaymentCharge, idempotencyKey: string): Promise<void> {
+    // No money moved; forgetting the charge lets the order be submitted again
+    this.charges.delete(idempotencyKey);
+  }
+
+  private async process({ amount, currency, payment }: ChargeRequest): Promise<PaymentCharge> {
+    const mode = this.config.mode ?? 'approve';
+    await new Promise(resolve => setTimeout(resolve, this.config.latencyMs ?? DEFAULT_MOCK_LATENCY_MS));
+
+    if (mode === 'decline') {
+      throw new PaymentError('declined');
+    }
+
+    const isCard = payment.method === 'credit' || payment.method === 'debit';
+    const cardNumber = normalizeCardNumber(payment.cardNumber ?? '');
+    if (isCard) {
+      if (!passesLuhn(cardNumber)) {
+        throw new PaymentError('invalid-card');
+      }
+      if (isCardExpired(payment.expiryDate ?? '')) {
+        throw new PaymentError('expired-card');
+      }
+      const declined = MOCK_DECLINED_CARDS[cardNumber];
+      if (declined) {
+        throw new PaymentError(declined);
+      }
+    }
+
+    return {
+      gateway: this.name,
+      transactionId: `TXN-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`.toUpperCase(),
+      amount,
+      currency,
+      authorizedAt: new Date(),
+      ...(isCard ? { brand: detectCardBrand(cardNumber)?.brand, last4: cardNumber.slice(-4) } : {})
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { detectCardBrand, formatCardNumber, isCardExpired, passesLuhn, validateCard } from './payments';
+
+describe('card validation', () => {
+  const now = new Date(2024, 5, 15);
+
+  it('should detect the brand from the leading digits', () => {
+    expect(detectCardBrand('4242')?.brand).toBe('visa');
+    expect(detectCardBrand('2221 00')?.brand).toBe('mastercard');
+    expect(detectCardBrand('3782')?.brand).toBe('amex');
+    expect(detectCardBrand('6011')?.brand).toBe('discover');
+    expect(detectCardBrand('9999')).toBeUndefined();
+    expect(detectCardBrand('')).toBeUndefined();
+  });
+
+  it('should verify the Luhn checksum', () => {
+    expect(passesLuhn('4242 4242 4242 4242')).toBeTrue();
+    expect(passesLuhn('4242-4242-4242-4241')).toBeFalse();
+    expect(passesLuhn('4242abcd')).toBeFalse();
+  });
+
+  it('should treat cards as valid through the end of their month', () => {
+    expect(isCardExpired('06/24', now)).toBeFalse();
+    expect(isCardExpired('05/24', now)).toBeTrue();
+    expect(isCardExpired('01/25', now)).toBeFalse();
+    expect(isCardExpired('13/25', now)).toBeTrue();
+  });
+
+  it('should group numbers the way the brand prints them', () => {
+    expect(formatCardNumber('378282246310005')).toBe('3782 822463 10005');
+    expect(formatCardNumber('42424242')).toBe('4242 4242');
+  });
+
+  describe('validateCard', () => {
+    it('should accept a valid card', () => {
+      expect(validateCard({ method: 'credit', cardNumber: '5555555555554444', expiryDate: '12/30', cvv: '123' }, now)).toEqual([]);
+    });
+
+    it('should require four CVV digits for American Express', () => {
+      expect(validateCard({ method: 'credit', cardNumber: '378282246310005', expiryDate: '12/30', cvv: '123' }, now))
+        .toEqual([{ field: 'cvv', message: 'must be 4 digits for American Express' }]);
+    });
+
+    it('should report every problem with a card', () => {
+      expect(validateCard({ method: 'debit', cardNumber: '4242424242424241', expiryDate: '01/24', cvv: '1' }, now).map(issue => issue.field))
+        .toEqual(['cardNumber', 'expiryDate', 'cvv']);
+      expect(validateCard({ method: 'credit', cardNumber: '42424242424242', expiryDate: '12/30', cvv: '123' }, now))
+        .toEqual([{ field: 'cardNumber', message: 'must be 13 or 16 or 19 digits for Visa' }]);
+    });
+
+    it('should skip payments without a card', () => {
+      expect(validateCard({ method: 'paypal' }, now)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import type { CardBrand } from '../src/app/core/interfaces/payment.interface';
+import type { PaymentInfo } from '../src/app/core/interfaces/cart.interface';
+
+/**
+ * Card Validation
+ * Brand detection, Luhn checksum and expiry checks for card payments, shared by the checkout
+ * payment form (payment-form.ts), the desktop order pipeline (cart.schemas.ts) and the
+ * browser's mock order API (WebApiService).
+ */
+
+export interface CardBrandRule {
+  brand: CardBrand;
+  label: string;
+  /** Leading digits (IIN ranges) */
+  pattern: RegExp;
+  /** Allowed card number lengths */
+  lengths: number[];
+  cvvLength: number;
+  /** Digits per group when the number is displayed */
+  grouping: number[];
+}
+
+export const CARD_BRANDS: CardBrandRule[] = [
+  { brand: 'visa', label: 'Visa', pattern: /^4/, lengths: [13, 16, 19], cvvLength: 3, grouping: [4, 4, 4, 4, 3] },
+  { brand: 'mastercard', label: 'Mastercard', pattern: /^(5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d{2}|27[01]\d|2720)/, lengths: [16], cvvLength: 3, grouping: [4, 4, 4, 4] },
+  { brand: 'amex', label: 'American Express', pattern: /^3[47]/, lengths: [15], cvvLength: 4, grouping: [4, 6, 5] },
+  { brand: 'discover', label: 'Discover', pattern: /^(6011|65|64[4-9])/, lengths: [16, 19], cvvLength: 3, grouping: [4, 4, 4, 4, 3] }
+];
+
+/**
+ * A card field that fails validation, phrased to follow the field's path
+ */
+export interface CardIssue {
+  field: 'cardNumber' | 'expiryDate' | 'cvv';
+  message: string;
+}
+
+/**
+ * Card number without spaces or dashes
+ */
+export function normalizeCardNumber(cardNumber: string): string {
+  return cardNumber.replace(/[\s-]/g, '');
+}
+
+/**
+ * Brand of a (possibly partial) card number, from its leading digits
+ */
+export function detectCardBrand(cardNumber: string): CardBrandRule | undefined {
+  const digits = normalizeCardNumber(cardNumber);
+  return digits ? CARD_BRANDS.find(rule => rule.pattern.test(digits)) : undefined;
+}
+
+/**
+ * Luhn (mod 10) checksum of a card number
+ */
+export function passesLuhn(cardNumber: string): boolean {
+  const digits = normalizeCardNumber(cardNumber);
+  if (!/^\d+$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Whether an MM/YY expiry date has passed (cards are valid through the end of their month)
+ */
+export function isCardExpired(expiryDate: string, now = new Date()): boolean {
+  const match = /^(0[1-9]|1[0-2])\/(\d{2})$/.exec(expiryDate);
+  if (!match) {
+    return true;
+  }
+  const month = Number(match[1]);
+  const year = 2000 + Number(match[2]);
+  return year < now.getFullYear() || (year === now.getFullYear() && month < now.getMonth() + 1);
+}
+
+/**
+ * Group a card number for display, following its brand (e.g. Amex 4-6-5)
+ */
+export function formatCardNumber(cardNumber: string): string {
+  const digits = normalizeCardNumber(cardNumber).replace(/\D/g, '');
+  const grouping = detectCardBrand(digits)?.grouping ?? [4, 4, 4, 4, 3];
+  const groups: string[] = [];
+  let offset = 0;
+  for (const size of grouping) {
+    if (offset >= digits.length) {
+      break;
+    }
+    groups.push(digits.slice(offset, offset + size));
+    offset += size;
+  }
+  return groups.join(' ');
+}
+
+/**
+ * Check the card fields of a credit or debit payment
+ * @returns Every failed check (empty for valid cards and for other payment methods)
+ */
+export function validateCard(payment: Pick<PaymentInfo, 'method' | 'cardNumber' | 'expiryDate' | 'cvv'>, now = new Date()): CardIssue[] {
+  if (payment.method !== 'credit' && payment.method !== 'debit') {
+    return [];
+  }
+
+  const issues: CardIssue[] = [];
+  const cardNumber = normalizeCardNumber(payment.cardNumber ?? '');
+  const brand = detectCardBrand(cardNumber);
+
+  if (!brand) {
+    issues.push({ field: 'cardNumber', message: 'is not a supported card (Visa, Mastercard, American Express or Discover)' });
+  } else if (!brand.lengths.includes(cardNumber.length)) {
+    issues.push({ field: 'cardNumber', message: `must be ${brand.lengths.join(' or ')} digits for ${brand.label}` });
+  } else if (!passesLuhn(cardNumber)) {
+    issues.push({ field: 'cardNumber', message: 'is not a valid card number' });
+  }
+
+  if (isCardExpired(payment.expiryDate ?? '', now)) {
+    issues.push({ field: 'expiryDate', message: 'must not be in the past' });
+  }
+
+  const cvvLength = brand?.cvvLength;
+  if (cvvLength && (payment.cvv ?? '').length !== cvvLength) {
+    issues.push({ field: 'cvv', message: `must be ${cvvLength} digits for ${brand.label}` });
+  }
+
+  return issues;
+}
@@ -0,0 +1,78 @@
+import type { PricingRules } from '../src/app/core/interfaces/app-config.interface';
+import {
+  DEFAULT_PRICING_RULES,
+  calculateShipping,
+  calculateTotals,
+  freeShippingShortfall,
+  resolvePricingRules,
+  taxRateFor
+} from './pricing';
+
+describe('pricing engine', () => {
+  describe('calculateShipping', () => {
+    it('should charge the rate of the chosen method', () => {
+      expect(calculateShipping(20, 'standard')).toBe(9.99);
+      expect(calculateShipping(20, 'express')).toBe(19.99);
+      expect(calculateShipping(20, 'overnight')).toBe(39.99);
+    });
+
+    it('should ship free from the method\'s threshold', () => {
+      expect(calculateShipping(50, 'standard')).toBe(0);
+      expect(calculateShipping(500, 'express')).toBe(19.99);
+    });
+
+    it('should not charge shipping for an empty cart', () => {
+      expect(calculateShipping(0, 'overnight')).toBe(0);
+    });
+  });
+
+  describe('freeShippingShortfall', () => {
+    it('should tell how much more ships free', () => {
+      expect(freeShippingShortfall(35.5)).toBe(14.5);
+      expect(freeShippingShortfall(80)).toBe(0);
+    });
+
+    it('should return null for methods that never ship free', () => {
+      expect(freeShippingShortfall(35.5, 'overnight')).toBeNull();
+    });
+  });
+
+  describe('taxRateFor', () => {
+    it('should prefer the state rate, then the country rate, then the default', () => {
+      expect(taxRateFor({ country: 'United States', state: 'ca' })).toBe(0.0725);
+      expect(taxRateFor({ country: 'usa', state: 'WA' })).toBe(0.085);
+      expect(taxRateFor({ country: 'Japan' })).toBe(DEFAULT_PRICING_RULES.defaultTaxRate);
+      expect(taxRateFor(undefined)).toBe(DEFAULT_PRICING_RULES.defaultTaxRate);
+    });
+  });
+
+  describe('calculateTotals', () => {
+    it('should add shipping and tax rounded to the cent', () => {
+      expect(calculateTotals(33.33, { shippingMethod: 'standard', address: { country: 'US', state: 'NY' } }))
+        .toEqual({ subtotal: 33.33, discount: 0, shipping: 9.99, tax: 1.33, total: 44.65 });
+    });
+
+    it('should tax the discounted amount but ship free by the full subtotal', () => {
+      expect(calculateTotals(60, { discount: 20, address: { country: 'US', state: 'NY' } }))
+        .toEqual({ subtotal: 60, discount: 20, shipping: 0, tax: 1.6, total: 41.6 });
+    });
+
+    it('should never discount more than the subtotal', () => {
+      expect(calculateTotals(10, { discount: 25 }).discount).toBe(10);
+      expect(calculateTotals(10, { discount: -5 }).discount).toBe(0);
+    });
+  });
+
+  describe('resolvePricingRules', () => {
+    it('should fill in the defaults around configured rules', () => {
+      // config.json may list only some of the methods
+      const shippingRates = { standard: 4.99 } as PricingRules['shippingRates'];
+      const rules = resolvePricingRules({ shippingRates, defaultTaxRate: 0.2 });
+
+      expect(rules.shippingRates).toEqual({ ...DEFAULT_PRICING_RULES.shippingRates, standard: 4.99 });
+      expect(rules.defaultTaxRate).toBe(0.2);
+      expect(rules.taxRates).toBe(DEFAULT_PRICING_RULES.taxRates);
+      expect(calculateShipping(20, 'standard', rules)).toBe(4.99);
+    });
+  });
+});
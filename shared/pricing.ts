@@ -0,0 +1,103 @@
+import type { OrderTotals, ShippingMethod } from '../src/app/core/interfaces/cart.interface';
+import type { PricingRules, TaxRule } from '../src/app/core/interfaces/app-config.interface';
+
+/**
+ * Pricing Engine
+ * The one implementation of shipping and tax, shared by the cart summary and checkout (CartService),
+ * the browser's mock order API (WebApiService) and the desktop order pipeline (order-pricing.ts).
+ * Rules come from AppConfig.pricing, falling back to DEFAULT_PRICING_RULES.
+ */
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  shippingRates: { standard: 9.99, express: 19.99, overnight: 39.99 },
+  freeShippingThresholds: { standard: 50 },
+  defaultTaxRate: 0.085,
+  taxRates: {
+    'United States': {
+      rate: 0.085,
+      aliases: ['US', 'USA'],
+      states: { AL: 0.04, CA: 0.0725, FL: 0.06, NY: 0.04, TX: 0.0625 }
+    }
+  }
+};
+
+// Unit prices are compared to the cent
+export const PRICE_TOLERANCE = 0.005;
+
+/**
+ * What an order's shipping and tax depend on; both are optional so a cart can be priced
+ * before checkout (standard shipping, default tax rate)
+ */
+export interface PricingContext {
+  shippingMethod?: ShippingMethod;
+  address?: { country?: string; state?: string };
+  /** Promotional discount off the subtotal (see shared/promotions.ts) */
+  discount?: number;
+}
+
+/**
+ * Complete a partial rule set from the config with the defaults
+ */
+export function resolvePricingRules(overrides?: Partial<PricingRules>): PricingRules {
+  return {
+    shippingRates: { ...DEFAULT_PRICING_RULES.shippingRates, ...overrides?.shippingRates },
+    freeShippingThresholds: overrides?.freeShippingThresholds ?? DEFAULT_PRICING_RULES.freeShippingThresholds,
+    defaultTaxRate: overrides?.defaultTaxRate ?? DEFAULT_PRICING_RULES.defaultTaxRate,
+    taxRates: overrides?.taxRates ?? DEFAULT_PRICING_RULES.taxRates
+  };
+}
+
+/**
+ * Shipping charge for a subtotal (nothing to ship costs nothing)
+ */
+export function calculateShipping(subtotal: number, method: ShippingMethod = 'standard', rules = DEFAULT_PRICING_RULES): number {
+  if (subtotal <= 0) {
+    return 0;
+  }
+  const threshold = rules.freeShippingThresholds[method];
+  return threshold !== undefined && subtotal >= threshold ? 0 : rules.shippingRates[method];
+}
+
+/**
+ * How much more the subtotal needs to ship free, or null when the method never ships free
+ */
+export function freeShippingShortfall(subtotal: number, method: ShippingMethod = 'standard', rules = DEFAULT_PRICING_RULES): number | null {
+  const threshold = rules.freeShippingThresholds[method];
+  return threshold === undefined ? null : Math.max(0, roundCents(threshold - subtotal));
+}
+
+/**
+ * Tax rate for an address: the state's rate, else the country's, else the default
+ */
+export function taxRateFor(address: PricingContext['address'], rules = DEFAULT_PRICING_RULES): number {
+  const rule = address?.country ? findTaxRule(address.country, rules) : undefined;
+  if (!rule) {
+    return rules.defaultTaxRate;
+  }
+  const state = address?.state?.trim().toUpperCase();
+  const stateRate = state ? rule.states?.[state] : undefined;
+  return stateRate ?? rule.rate;
+}
+
+/**
+ * Discount, shipping, tax and total for a subtotal (tax and total rounded to the cent)
+ * Free shipping thresholds apply to the subtotal before the discount; tax to the amount after it.
+ */
+export function calculateTotals(subtotal: number, context: PricingContext = {}, rules = DEFAULT_PRICING_RULES): OrderTotals {
+  const discount = Math.min(Math.max(context.discount ?? 0, 0), subtotal);
+  const discounted = subtotal - discount;
+  const shipping = calculateShipping(subtotal, context.shippingMethod, rules);
+  const tax = roundCents(discounted * taxRateFor(context.address, rules));
+  return { subtotal, discount, shipping, tax, total: roundCents(discounted + shipping + tax) };
+}
+
+function findTaxRule(country: string, rules: PricingRules): TaxRule | undefined {
+  const name = country.trim().toLowerCase();
+  return Object.entries(rules.taxRates).find(([key, rule]) =>
+    key.toLowerCase() === name || rule.aliases?.some(alias => alias.toLowerCase() === name)
+  )?.[1];
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
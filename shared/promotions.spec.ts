@@ -0,0 +1,110 @@
+import type { Cart, CartItem, Order, OrderStatus } from '../src/app/core/interfaces/cart.interface';
+import type { Promotion } from '../src/app/core/interfaces/promotion.interface';
+import { PromotionError, describePromotionError } from './ipc-errors';
+import { applyPromotion, countRedemptions, normalizePromoCode } from './promotions';
+
+describe('promotions engine', () => {
+  function item(price: number, quantity: number, category = 'clothing'): CartItem {
+    return {
+      product: { id: price, title: `Item ${price}`, price, description: '', category, image: '', rating: { rate: 4, count: 1 } },
+      quantity,
+      subtotal: price * quantity
+    };
+  }
+
+  function cart(...items: CartItem[]): Cart {
+    return {
+      items,
+      totalItems: items.reduce((sum, entry) => sum + entry.quantity, 0),
+      totalAmount: items.reduce((sum, entry) => sum + entry.subtotal, 0),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  function rejection(run: () => unknown): PromotionError['reason'] | undefined {
+    try {
+      run();
+      return undefined;
+    } catch (error) {
+      return (error as PromotionError).reason;
+    }
+  }
+
+  it('should accept codes regardless of case and spacing', () => {
+    expect(normalizePromoCode('  welcome10 ')).toBe('WELCOME10');
+    expect(applyPromotion(' welcome10', cart(item(25, 2)))).toEqual({ code: 'WELCOME10', description: '10% off your order', discount: 5 });
+  });
+
+  it('should take a fixed amount off once the minimum spend is reached', () => {
+    expect(applyPromotion('SAVE5', cart(item(40, 1))).discount).toBe(5);
+    expect(rejection(() => applyPromotion('SAVE5', cart(item(39.99, 1))))).toBe('minimum-spend');
+  });
+
+  it('should only discount items of the promotion\'s category', () => {
+    const mixed = cart(item(100, 1, 'Electronics'), item(50, 1));
+
+    expect(applyPromotion('ELECTRONICS15', mixed).discount).toBe(15);
+    expect(rejection(() => applyPromotion('ELECTRONICS15', cart(item(50, 1))))).toBe('not-applicable');
+  });
+
+  it('should give the cheapest unit of every group away for buy-x-get-y', () => {
+    // Units 30, 30, 20 | 10, 10: the 20 is free, the second group is incomplete
+    expect(applyPromotion('BUY2GET1', cart(item(30, 2), item(20, 1), item(10, 2))).discount).toBe(20);
+  });
+
+  it('should respect the promotion\'s dates', () => {
+    const promotions: Promotion[] = [{
+      code: 'SPRING', description: 'Spring sale', type: 'percentage', value: 20,
+      startsAt: '2024-03-01T00:00:00.000Z', expiresAt: '2024-06-01T00:00:00.000Z'
+    }];
+    const spring = cart(item(50, 1));
+    const on = (date: string) => () => applyPromotion('SPRING', spring, promotions, { now: new Date(date) });
+
+    expect(rejection(on('2024-02-29T23:59:59.000Z'))).toBe('not-started');
+    expect(rejection(on('2024-04-01T00:00:00.000Z'))).toBeUndefined();
+    expect(rejection(on('2024-06-01T00:00:00.000Z'))).toBe('expired');
+  });
+
+  it('should refuse unknown and used-up codes', () => {
+    expect(rejection(() => applyPromotion('FREESTUFF', cart(item(50, 1))))).toBe('unknown');
+    expect(rejection(() => applyPromotion('FIRST100', cart(item(50, 1)), undefined, { redemptions: 100 }))).toBe('usage-limit');
+    expect(applyPromotion('FIRST100', cart(item(50, 1)), undefined, { redemptions: 99 }).discount).toBe(10);
+  });
+
+  describe('countRedemptions', () => {
+    function order(id: string, code: string | null, status: OrderStatus = 'pending'): Order {
+      return {
+        id,
+        status,
+        ...(code ? { promotion: { code, description: '', discount: 1 } } : {})
+      } as Order;
+    }
+
+    it('should count the orders that used a code, except cancelled ones', () => {
+      const orders = [order('ORD-1', 'FIRST100'), order('ORD-2', 'FIRST100', 'cancelled'), order('ORD-3', 'SAVE5'), order('ORD-4', null)];
+
+      expect(countRedemptions(orders, 'first100')).toBe(1);
+    });
+
+    it('should add the redemptions of other profiles from the ledger', () => {
+      const ledger = { FIRST100: ['ORD-1', 'ORD-9'] };
+
+      expect(countRedemptions([order('ORD-1', 'FIRST100'), order('ORD-2', 'FIRST100')], 'FIRST100', ledger)).toBe(3);
+    });
+
+    it('should not count a cancelled order the ledger still lists', () => {
+      const ledger = { FIRST100: ['ORD-1', 'ORD-2'] };
+
+      expect(countRedemptions([order('ORD-2', 'FIRST100', 'cancelled')], 'FIRST100', ledger)).toBe(1);
+    });
+  });
+
+  it('should describe the minimum spend in the display currency', () => {
+    const error = new PromotionError('SAVE5', 'minimum-spend', 40);
+
+    expect(error.message).toBe('Promo code SAVE5 requires a subtotal of at least $40.00.');
+    expect(describePromotionError(error, { code: 'GBP', rate: 0.79, locale: 'en-GB' }))
+      .toBe('Promo code SAVE5 requires a subtotal of at least £31.60.');
+  });
+});
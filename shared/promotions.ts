@@ -0,0 +1,134 @@
+import type { Cart, CartItem, Order } from '../src/app/core/interfaces/cart.interface';
+import type { AppliedPromotion, Promotion } from '../src/app/core/interfaces/promotion.interface';
+import { PromotionError } from './ipc-errors';
+
+/**
+ * Promotions Engine
+ * Evaluates promo codes against a cart. The renderer uses it to preview the discount (CartService);
+ * the order pipelines re-evaluate the code on the priced cart, including its usage limit,
+ * before it is stored on the order (order-pricing.ts, WebApiService).
+ * Codes come from AppConfig.promotions, falling back to DEFAULT_PROMOTIONS.
+ */
+
+export const DEFAULT_PROMOTIONS: Promotion[] = [
+  { code: 'WELCOME10', description: '10% off your order', type: 'percentage', value: 10 },
+  { code: 'SAVE5', description: '$5 off orders of $40 or more', type: 'fixed', value: 5, minSpend: 40 },
+  { code: 'ELECTRONICS15', description: '15% off electronics', type: 'percentage', value: 15, category: 'electronics' },
+  { code: 'BUY2GET1', description: 'Buy 2, get the cheapest 1 free', type: 'buy-x-get-y', buyQuantity: 2, getQuantity: 1 },
+  { code: 'FIRST100', description: '$10 off for the first 100 orders', type: 'fixed', value: 10, minSpend: 50, usageLimit: 100 }
+];
+
+/**
+ * Ids of the orders that redeemed each promo code, across every data profile
+ * Usage limits are global, but each profile keeps (and may encrypt) its own orders.
+ */
+export type RedemptionLedger = Record<string, string[]>;
+
+/**
+ * How a promo code is redeemed
+ */
+export interface RedemptionContext {
+  now?: Date;
+  /** Orders that already used the code (see countRedemptions) */
+  redemptions?: number;
+}
+
+/**
+ * Canonical form of a code as typed by the customer
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Apply a promo code to a cart
+ * @returns The code with the discount it grants on this cart
+ * @throws PromotionError when the code is unknown, out of date, used up or does not apply
+ */
+export function applyPromotion(
+  code: string,
+  cart: Cart,
+  promotions: Promotion[] = DEFAULT_PROMOTIONS,
+  { now = new Date(), redemptions = 0 }: RedemptionContext = {}
+): AppliedPromotion {
+  const normalized = normalizePromoCode(code);
+  const promotion = promotions.find(p => normalizePromoCode(p.code) === normalized);
+  if (!promotion) {
+    throw new PromotionError(normalized, 'unknown');
+  }
+
+  if (promotion.startsAt && now < new Date(promotion.startsAt)) {
+    throw new PromotionError(normalized, 'not-started');
+  }
+  if (promotion.expiresAt && now >= new Date(promotion.expiresAt)) {
+    throw new PromotionError(normalized, 'expired');
+  }
+  if (promotion.usageLimit !== undefined && redemptions >= promotion.usageLimit) {
+    throw new PromotionError(normalized, 'usage-limit');
+  }
+  if (promotion.minSpend !== undefined && cart.totalAmount < promotion.minSpend) {
+    throw new PromotionError(normalized, 'minimum-spend', promotion.minSpend);
+  }
+
+  const discount = roundCents(calculateDiscount(promotion, eligibleItems(promotion, cart)));
+  if (discount <= 0) {
+    throw new PromotionError(normalized, 'not-applicable');
+  }
+
+  return { code: normalized, description: promotion.description, discount };
+}
+
+/**
+ * Number of orders that used a code (cancelled orders do not count)
+ * @param orders Orders that may predate the ledger
+ * @param ledger Redemptions recorded across all profiles, if the orders are not all in one place
+ */
+export function countRedemptions(orders: Order[], code: string, ledger: RedemptionLedger = {}): number {
+  const normalized = normalizePromoCode(code);
+  const redeemed = new Set(ledger[normalized]);
+  for (const order of orders) {
+    if (order.promotion?.code === normalized) {
+      if (order.status === 'cancelled') {
+        redeemed.delete(order.id);
+      } else {
+        redeemed.add(order.id);
+      }
+    }
+  }
+  return redeemed.size;
+}
+
+function eligibleItems(promotion: Promotion, cart: Cart): CartItem[] {
+  const category = promotion.category?.toLowerCase();
+  return category
+    ? cart.items.filter(item => item.product.category.toLowerCase() === category)
+    : cart.items;
+}
+
+function calculateDiscount(promotion: Promotion, items: CartItem[]): number {
+  const eligibleTotal = items.reduce((sum, item) => sum + item.subtotal, 0);
+
+  switch (promotion.type) {
+    case 'percentage':
+      return eligibleTotal * Math.min(Math.max(promotion.value ?? 0, 0), 100) / 100;
+    case 'fixed':
+      return Math.min(Math.max(promotion.value ?? 0, 0), eligibleTotal);
+    case 'buy-x-get-y': {
+      const buy = promotion.buyQuantity ?? 0;
+      const get = promotion.getQuantity ?? 0;
+      if (buy < 1 || get < 1) {
+        return 0;
+      }
+      // Most expensive units first, so the free units of each group are its cheapest
+      const unitPrices = items
+        .flatMap(item => Array<number>(item.quantity).fill(item.product.price))
+        .sort((a, b) => b - a);
+      const groupSize = buy + get;
+      return unitPrices.reduce((sum, price, index) => index % groupSize >= buy ? sum + price : sum, 0);
+    }
+  }
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
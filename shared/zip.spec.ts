@@ -0,0 +1,57 @@
+import { crc32, createZip } from './zip';
+
+describe('zip archives', () => {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  /**
+   * Entries as listed by the central directory, read back from their local headers
+   */
+  function readZip(archive: Uint8Array): { name: string; text: string; crc: number }[] {
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+    const entries = [];
+    let offset = view.getUint32(end + 16, true);
+    for (let index = 0; index < view.getUint16(end + 10, true); index++) {
+      expect(view.getUint32(offset, true)).toBe(0x02014b50);
+      const size = view.getUint32(offset + 24, true);
+      const nameLength = view.getUint16(offset + 28, true);
+      const local = view.getUint32(offset + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+
+      const dataStart = local + 30 + view.getUint16(local + 26, true);
+      entries.push({
+        name: decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength)),
+        text: decoder.decode(archive.subarray(dataStart, dataStart + size)),
+        crc: view.getUint32(offset + 16, true)
+      });
+      offset += 46 + nameLength;
+    }
+    return entries;
+  }
+
+  it('should compute the standard CRC-32 check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('should store each entry under its name', () => {
+    const archive = createZip([
+      { name: '[Content_Types].xml', data: encoder.encode('<Types/>') },
+      { name: 'xl/worksheets/sheet1.xml', data: encoder.encode('<worksheet>Café</worksheet>') },
+      { name: 'empty.txt', data: new Uint8Array() }
+    ]);
+
+    expect(readZip(archive)).toEqual([
+      { name: '[Content_Types].xml', text: '<Types/>', crc: crc32(encoder.encode('<Types/>')) },
+      { name: 'xl/worksheets/sheet1.xml', text: '<worksheet>Café</worksheet>', crc: crc32(encoder.encode('<worksheet>Café</worksheet>')) },
+      { name: 'empty.txt', text: '', crc: 0 }
+    ]);
+  });
+
+  it('should write an empty archive as just the end record', () => {
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Zip Archives
+ * Minimal writer for the zip containers of Office documents (e.g. .xlsx order exports).
+ * Entries are stored uncompressed, which every zip reader accepts; no Zip64, so archives
+ * must stay under 4 GB.
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+// Version 2.0, the first to define directories and stored entries
+const ZIP_VERSION = 20;
+// General purpose flag bit 11: names are UTF-8
+const UTF8_NAMES = 0x0800;
+// MS-DOS date of 1980-01-01, the earliest a zip can hold; a fixed date keeps archives reproducible
+const DOS_DATE = (1 << 5) | 1;
+
+/**
+ * Build a zip archive holding the entries in order
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const files = entries.map(entry => ({ name: encoder.encode(entry.name), data: entry.data, crc: crc32(entry.data) }));
+
+  const localSize = files.reduce((sum, file) => sum + LOCAL_HEADER_SIZE + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + CENTRAL_HEADER_SIZE + file.name.length, 0);
+  const archive = new Uint8Array(localSize + centralSize + END_RECORD_SIZE);
+  const view = new DataView(archive.buffer);
+
+  let offset = 0;
+  const offsets: number[] = [];
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, UTF8_NAMES, true);
+    writeEntryFields(view, offset + 8, file);
+    archive.set(file.name, offset + LOCAL_HEADER_SIZE);
+    archive.set(file.data, offset + LOCAL_HEADER_SIZE + file.name.length);
+    offset += LOCAL_HEADER_SIZE + file.name.length + file.data.length;
+  }
+
+  files.forEach((file, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, ZIP_VERSION, true);
+    view.setUint16(offset + 8, UTF8_NAMES, true);
+    writeEntryFields(view, offset + 10, file);
+    // Extra field, comment, disk number and attributes stay zero
+    view.setUint32(offset + 42, offsets[index], true);
+    archive.set(file.name, offset + CENTRAL_HEADER_SIZE);
+    offset += CENTRAL_HEADER_SIZE + file.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, localSize, true);
+
+  return archive;
+}
+
+/**
+ * Fields shared by the local and central headers, from the compression method to the extra field length
+ */
+function writeEntryFields(view: DataView, offset: number, file: { name: Uint8Array; data: Uint8Array; crc: number }): void {
+  view.setUint16(offset, 0, true); // stored
+  view.setUint16(offset + 2, 0, true); // time
+  view.setUint16(offset + 4, DOS_DATE, true);
+  view.setUint32(offset + 6, file.crc, true);
+  view.setUint32(offset + 10, file.data.length, true); // compressed size
+  view.setUint32(offset + 14, file.data.length, true);
+  view.setUint16(offset + 18, file.name.length, true);
+  view.setUint16(offset + 20, 0, true);
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * CRC-32 (IEEE 802.3) checksum that zip stores for each entry
+ */
+export function crc32(data: Uint8Array): number {
+  crcTable ??= Uint32Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let bit = 0; bit < 8; bit++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c;
+  });
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -1,4 +1,4 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
+import { ApplicationConfig, provideAppInitializer, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
 import { provideRouter } from '@angular/router';
 import { provideHttpClient, withInterceptorsFromDi, HttpClient, HTTP_INTERCEPTORS } from '@angular/common/http';
 import { inject } from '@angular/core';
@@ -6,8 +6,12 @@ import { routes } from './app.routes';
 import { IDataApi } from './core/interfaces/idata-api.interface';
 import { WebApiService } from './core/services/web-api.service';
 import { ElectronApiService } from './core/services/electron-api.service';
+import { FakerApiService } from './core/services/faker-api.service';
 import { AuthInterceptor } from './core/interceptors/auth.interceptor';
 import { LoggerService } from './core/services/logger.service';
+import { ConfigService } from './core/services/config.service';
+import { VersionedStorageService } from './core/services/versioned-storage.service';
+import { DataProfileService } from './core/services/data-profile.service';
 
 export const appConfig: ApplicationConfig = {
   providers: [
@@ -15,6 +19,9 @@ export const appConfig: ApplicationConfig = {
     provideZoneChangeDetection({ eventCoalescing: true }),
     provideRouter(routes),
     provideHttpClient(withInterceptorsFromDi()),
+
+    // Load runtime config (API base URL, timeout) before any data service is used
+    provideAppInitializer(() => inject(ConfigService).load()),
     
     // Register HTTP Interceptor for authentication and error handling
     {
@@ -27,17 +34,27 @@ export const appConfig: ApplicationConfig = {
       provide: IDataApi,
       useFactory: () => {
         const logger = inject(LoggerService);
+        const config = inject(ConfigService).config();
         const isElectron = typeof window !== 'undefined' && 
-                           typeof (window as any).electronAPI !== 'undefined';
+                           typeof window.electronAPI !== 'undefined';
         
+        let dataApi: IDataApi;
         if (isElectron) {
           logger.info('🖥️', 'Running in Electron mode - Using ElectronApiService');
-          return new ElectronApiService(logger);
+          dataApi = new ElectronApiService(logger);
         } else {
           logger.info('🌐', 'Running in Browser mode - Using WebApiService');
           const http = inject(HttpClient);
-          return new WebApiService(http, logger);
+          dataApi = new WebApiService(http, logger, inject(ConfigService), inject(VersionedStorageService), inject(DataProfileService));
+        }
+
+        // Faker mode: local seeded catalog, cart/orders still persisted by the environment's API
+        if (config?.dataSource === 'faker') {
+          logger.info('🎲', 'Faker data source selected - Using FakerApiService for the catalog');
+          return new FakerApiService(logger, dataApi, config.faker);
         }
+
+        return dataApi;
       }
     }
   ]
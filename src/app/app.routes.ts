@@ -1,4 +1,6 @@
 import { Routes } from '@angular/router';
+import { unsavedChangesGuard } from './core/guards/unsaved-changes.guard';
+import { cartRevalidationGuard } from './core/guards/cart-revalidation.guard';
 
 export const routes: Routes = [
   {
@@ -24,7 +26,29 @@ export const routes: Routes = [
   },
   {
     path: 'checkout',
-    loadComponent: () => import('./features/checkout/checkout.component').then(m => m.CheckoutComponent)
+    loadComponent: () => import('./features/checkout/checkout.component').then(m => m.CheckoutComponent),
+    canActivate: [cartRevalidationGuard],
+    canDeactivate: [unsavedChangesGuard]
+  },
+  {
+    path: 'orders',
+    loadComponent: () => import('./features/orders/order-list/order-list.component').then(m => m.OrderListComponent)
+  },
+  {
+    path: 'orders/:id/confirmation',
+    loadComponent: () => import('./features/orders/order-confirmation/order-confirmation.component').then(m => m.OrderConfirmationComponent)
+  },
+  {
+    path: 'orders/:id',
+    loadComponent: () => import('./features/orders/order-detail/order-detail.component').then(m => m.OrderDetailComponent)
+  },
+  {
+    path: 'profile',
+    loadComponent: () => import('./features/profile/profile.component').then(m => m.ProfileComponent)
+  },
+  {
+    path: 'settings',
+    loadComponent: () => import('./features/settings/settings.component').then(m => m.SettingsComponent)
   },
   {
     path: '**',
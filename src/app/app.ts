@@ -11,6 +11,10 @@ import { MatDividerModule } from "@angular/material/divider";
 import { MatBadgeModule } from "@angular/material/badge";
 import { MatTooltipModule } from "@angular/material/tooltip";
 import { CartService } from "./core/services/cart.service";
+import { ConfigService } from "./core/services/config.service";
+import { VaultService } from "./core/services/vault.service";
+import { VaultUnlockComponent } from "./shared/components/vault-unlock/vault-unlock.component";
+import { CurrencyPickerComponent } from "./shared/components/currency-picker/currency-picker.component";
 
 @Component({
   selector: "app-root",
@@ -28,7 +32,9 @@ import { CartService } from "./core/services/cart.service";
     MatMenuModule,
     MatDividerModule,
     MatBadgeModule,
-    MatTooltipModule
+    MatTooltipModule,
+    VaultUnlockComponent,
+    CurrencyPickerComponent
   ],
   templateUrl: "./app.html",
   styleUrl: "./app.scss"
@@ -36,25 +42,30 @@ import { CartService } from "./core/services/cart.service";
 export class App implements OnInit {
   readonly title = signal("Electron Faker Angular");
   version = signal<string>("1.0.0");
-  config = signal<any>(null);
+  config = inject(ConfigService).config;
   
   private cartService = inject(CartService);
   cartSummary = this.cartService.cartSummary;
 
+  private vault = inject(VaultService);
+  vaultLocked = this.vault.locked;
+
   async ngOnInit() {
-    this.config.set(await window.electronAPI.getAppConfig());
-    this.version.set(await window.electronAPI.getAppVersion());
+    // Prompt for the passphrase on startup if the order data is encrypted
+    this.vault.refresh().catch(error => console.error('Failed to read vault status:', error));
+
+    this.version.set(await window.electronAPI.app.getVersion());
     
     // Debug cart summary
     console.log('🛒 App component cart summary:', this.cartSummary());
   }
 
   async getVersion() {
-    const v = await window.electronAPI.getAppVersion();
+    const v = await window.electronAPI.app.getVersion();
     this.version.set(v);
   }
 
   quitApp() {
-    window.electronAPI.quitApp();
+    window.electronAPI.app.quit();
   }
 }
@@ -0,0 +1,21 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { CartService } from '../services/cart.service';
+
+/**
+ * Cart Revalidation Guard - Checks the cart against the catalog before checkout
+ * If a price changed or a product was removed, the customer is sent back to the cart
+ * to review the changes before paying.
+ *
+ * Usage in routes:
+ * {
+ *   path: 'checkout',
+ *   component: CheckoutComponent,
+ *   canActivate: [cartRevalidationGuard]
+ * }
+ */
+export const cartRevalidationGuard: CanActivateFn = async () => {
+  const router = inject(Router);
+  const changes = await inject(CartService).revalidate();
+  return changes.length === 0 || router.createUrlTree(['/cart']);
+};
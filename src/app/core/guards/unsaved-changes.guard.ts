@@ -0,0 +1,26 @@
+import { CanDeactivateFn } from '@angular/router';
+
+/**
+ * A routed component that may hold changes which would be lost on leaving
+ */
+export interface PendingChanges {
+  /**
+   * Message to confirm before leaving, or null if nothing would be lost
+   */
+  pendingChangesWarning(): Promise<string | null> | string | null;
+}
+
+/**
+ * Unsaved Changes Guard - Asks before leaving a page whose changes would be lost
+ * 
+ * Usage in routes:
+ * {
+ *   path: 'checkout',
+ *   component: CheckoutComponent,
+ *   canDeactivate: [unsavedChangesGuard]
+ * }
+ */
+export const unsavedChangesGuard: CanDeactivateFn<PendingChanges> = async (component) => {
+  const warning = await component.pendingChangesWarning();
+  return !warning || confirm(warning);
+};
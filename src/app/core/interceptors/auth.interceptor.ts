@@ -11,6 +11,7 @@ import { Observable, throwError, BehaviorSubject } from 'rxjs';
 import { catchError, filter, take, switchMap, tap } from 'rxjs/operators';
 import { TokenService } from '../services/token.service';
 import { AuthService } from '../services/auth.service';
+import { ConfigService } from '../services/config.service';
 
 /**
  * AuthInterceptor - Intercepts HTTP requests and responses
@@ -41,7 +42,8 @@ export class AuthInterceptor implements HttpInterceptor {
 
   constructor(
     private tokenService: TokenService,
-    private authService: AuthService
+    private authService: AuthService,
+    private configService: ConfigService
   ) {}
 
   /**
@@ -76,7 +78,10 @@ export class AuthInterceptor implements HttpInterceptor {
    * @returns true if credentials should be included
    */
   private shouldIncludeCredentials(request: HttpRequest<any>): boolean {
-    // Don't include credentials for external APIs
+    // Don't include credentials for external APIs (including the configured catalog backend)
+    if (request.url.startsWith(this.configService.apiBaseUrl)) {
+      return false;
+    }
     return !this.EXTERNAL_APIS.some(url => request.url.includes(url));
   }
 
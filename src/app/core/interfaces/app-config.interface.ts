@@ -1,3 +1,8 @@
+import type { ShippingMethod } from './cart.interface';
+import type { Promotion } from './promotion.interface';
+import type { Currency } from './currency.interface';
+import type { PaymentGatewayConfig } from './payment.interface';
+
 /**
  * Application configuration interface
  */
@@ -7,6 +12,104 @@ export interface AppConfig {
   enableDevTools: boolean;
   apiBaseUrl?: string;
   apiTimeout?: number;
+  /**
+   * Catalog data source. 'auto' (default) uses Electron IPC on desktop and HTTP in the browser;
+   * 'faker' generates a seeded local catalog and never touches the network.
+   */
+  dataSource?: 'auto' | 'faker';
+  faker?: FakerCatalogConfig;
+  /**
+   * What the desktop order pipeline does when client prices disagree with the catalog:
+   * 'reject' (default) refuses the order, 'flag' places it at catalog prices with a pricing report
+   */
+  pricingPolicy?: 'reject' | 'flag';
+  /**
+   * Shipping and tax rules; every field falls back to DEFAULT_PRICING_RULES (shared/pricing.ts)
+   */
+  pricing?: Partial<PricingRules>;
+  /**
+   * Transit times, order cutoff and holiday calendars; every field falls back to DEFAULT_DELIVERY_RULES (shared/delivery.ts)
+   */
+  delivery?: Partial<DeliveryRules>;
+  /**
+   * Promo codes customers can redeem; replaces DEFAULT_PROMOTIONS (shared/promotions.ts) when set
+   */
+  promotions?: Promotion[];
+  /**
+   * Display currencies and their exchange rates from USD; replaces DEFAULT_CURRENCIES (shared/currency.ts) when set
+   */
+  currencies?: Currency[];
+  /**
+   * Currency shown until the customer picks one (default 'USD')
+   */
+  defaultCurrency?: string;
+  /**
+   * Behaviour of the mock payment gateway orders are charged through (approves by default)
+   */
+  paymentGateway?: PaymentGatewayConfig;
+}
+
+/**
+ * Shipping and tax rules applied to every order (cart summary, checkout and the order pipelines)
+ */
+export interface PricingRules {
+  /** Flat shipping charge per method */
+  shippingRates: Record<ShippingMethod, number>;
+  /** Subtotal from which a method ships free; methods without a threshold never do */
+  freeShippingThresholds: Partial<Record<ShippingMethod, number>>;
+  /** Tax rate (0.085 = 8.5%) for addresses no tax rule matches */
+  defaultTaxRate: number;
+  /** Tax rules by country name, matched case-insensitively against the shipping address */
+  taxRates: Record<string, TaxRule>;
+}
+
+/**
+ * Tax rate of a country, optionally overridden by state or province
+ */
+export interface TaxRule {
+  rate: number;
+  /** Other names the country is entered as (e.g. 'US', 'USA') */
+  aliases?: string[];
+  /** Rates by state code, as stored in the address */
+  states?: Record<string, number>;
+}
+
+/**
+ * When orders ship and arrive (order pipelines, checkout shipping options)
+ */
+export interface DeliveryRules {
+  /** Business days in transit per method, as an earliest-latest range */
+  transitDays: Record<ShippingMethod, { min: number; max: number }>;
+  /** Local time (HH:mm) after which an order ships the next business day */
+  cutoffTime: string;
+  /** Days of the week without dispatch or delivery (0 = Sunday, 6 = Saturday) */
+  weekendDays: number[];
+  /** Holidays of addresses no calendar matches */
+  defaultHolidays: string[];
+  /** Holiday calendars by country name, matched case-insensitively against the shipping address */
+  holidayCalendars: Record<string, HolidayCalendar>;
+}
+
+/**
+ * Days a country's carriers do not deliver
+ */
+export interface HolidayCalendar {
+  /** Dates as 'YYYY-MM-DD' (that day only) or 'MM-DD' (every year) */
+  dates: string[];
+  /** Other names the country is entered as (e.g. 'US', 'USA') */
+  aliases?: string[];
+}
+
+/**
+ * Settings for the locally generated Faker catalog
+ */
+export interface FakerCatalogConfig {
+  /** Seed for reproducible data (same seed => same catalog) */
+  seed?: number;
+  /** Number of products to generate */
+  productCount?: number;
+  /** Number of categories the products are spread across */
+  categoryCount?: number;
 }
 
 /**
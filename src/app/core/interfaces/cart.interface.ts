@@ -1,4 +1,7 @@
 import { Product } from './product.interface';
+import { AppliedPromotion } from './promotion.interface';
+import { OrderCurrency } from './currency.interface';
+import { PaymentCharge } from './payment.interface';
 
 /**
  * Cart item representing a product with quantity in the cart
@@ -20,6 +23,17 @@ export interface Cart {
   updatedAt: Date;
 }
 
+/**
+ * Postal address (region and postal code rules depend on the country, see shared/address-formats.ts)
+ */
+export interface Address {
+  street: string;
+  city: string;
+  state: string; // State, province or other region; may be empty where the country has none
+  zipCode: string; // Postal code in the country's format
+  country: string;
+}
+
 /**
  * Customer billing information
  */
@@ -28,29 +42,22 @@ export interface BillingInfo {
   lastName: string;
   email: string;
   phone?: string;
-  address: {
-    street: string;
-    city: string;
-    state: string;
-    zipCode: string;
-    country: string;
-  };
+  address: Address;
 }
 
+/**
+ * Delivery speed (priced by the rules in shared/pricing.ts)
+ */
+export type ShippingMethod = 'standard' | 'express' | 'overnight';
+
 /**
  * Shipping information (can be same as billing)
  */
 export interface ShippingInfo {
   firstName: string;
   lastName: string;
-  address: {
-    street: string;
-    city: string;
-    state: string;
-    zipCode: string;
-    country: string;
-  };
-  shippingMethod: 'standard' | 'express' | 'overnight';
+  address: Address;
+  shippingMethod: ShippingMethod;
 }
 
 /**
@@ -67,6 +74,29 @@ export interface PaymentInfo {
   cryptoWallet?: string;
 }
 
+/**
+ * Order lifecycle status (legal transitions are defined in shared/order-status.ts)
+ */
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+/**
+ * A status the order entered, and when
+ */
+export interface OrderStatusChange {
+  status: OrderStatus;
+  at: Date;
+  note?: string;
+}
+
+/**
+ * Optional details for a status update
+ */
+export interface OrderStatusDetails {
+  note?: string;
+  /** Carrier tracking number for 'shipped' (one is assigned if omitted) */
+  trackingNumber?: string;
+}
+
 /**
  * Order summary and tracking
  */
@@ -80,10 +110,17 @@ export interface Order {
   shipping_cost: number;
   tax: number;
   total: number;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
+  statusHistory: OrderStatusChange[]; // Every status the order has been in, oldest first
   createdAt: Date;
-  estimatedDelivery?: Date;
+  estimatedDelivery?: Date; // Latest expected delivery date (end of deliveryWindow)
+  deliveryWindow?: DeliveryWindow; // Absent on older orders
   trackingNumber?: string;
+  pricingReport?: PricingReport; // Present when the server adjusted client prices
+  idempotencyKey?: string; // Key of the submission that created the order (absent on older orders)
+  promotion?: AppliedPromotion; // Promo code redeemed; subtotal is before and total after its discount
+  currency: OrderCurrency; // Display currency at checkout; the amounts above stay in the base currency (USD)
+  charge?: PaymentCharge; // Payment taken for the total (absent on older orders)
 }
 
 /**
@@ -94,6 +131,9 @@ export interface OrderRequest {
   billing: BillingInfo;
   shipping: ShippingInfo;
   payment: PaymentInfo;
+  idempotencyKey: string; // Generated once per checkout; resubmitting returns the original order
+  promoCode?: string; // Re-validated by the order pipeline before the discount is granted
+  currency?: string; // Display currency code; the order pipeline records it with its current rate
 }
 
 /**
@@ -102,7 +142,61 @@ export interface OrderRequest {
 export interface CartSummary {
   itemCount: number;
   subtotal: number;
+  discount: number;
   shipping: number;
   tax: number;
   total: number;
-}
\ No newline at end of file
+  promotion: AppliedPromotion | null;
+}
+
+/**
+ * Earliest and latest expected delivery date (local midnight)
+ */
+export interface DeliveryWindow {
+  earliest: Date;
+  latest: Date;
+}
+
+/**
+ * Order amounts (subtotal, shipping, tax and total)
+ */
+export interface OrderTotals {
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * A cart line whose client price disagrees with the catalog price
+ */
+export interface PriceDiscrepancy {
+  productId: number;
+  title: string;
+  quantity: number;
+  clientUnitPrice: number;
+  serverUnitPrice: number | null; // null when the product no longer exists
+  clientSubtotal: number;
+  serverSubtotal: number;
+}
+
+/**
+ * A cart item whose catalog price changed since it was added (found when the cart is revalidated)
+ */
+export interface CartPriceChange {
+  productId: number;
+  title: string;
+  previousPrice: number;
+  currentPrice: number | null; // null when the product no longer exists and was removed from the cart
+}
+
+/**
+ * Server-side price check of an order request
+ */
+export interface PricingReport {
+  discrepancies: PriceDiscrepancy[];
+  cartTotal?: { client: number; server: number }; // Present when the client's cart total disagreed with the repriced items
+  client: OrderTotals;
+  server: OrderTotals;
+}
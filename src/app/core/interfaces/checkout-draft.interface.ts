@@ -0,0 +1,31 @@
+import { Address, BillingInfo, PaymentInfo, ShippingInfo } from './cart.interface';
+
+/**
+ * Billing form values (the address fields sit next to the contact fields)
+ */
+export type BillingDraft = Partial<Omit<BillingInfo, 'address'> & Address>;
+
+/**
+ * Shipping form values
+ */
+export type ShippingDraft = Partial<Omit<ShippingInfo, 'address'> & Address>;
+
+/**
+ * Payment form values that may be stored; card number, expiry date and CVV never are
+ */
+export type PaymentDraft = Partial<Pick<PaymentInfo, 'method' | 'cardholderName' | 'paypalEmail' | 'cryptoWallet'>>;
+
+/**
+ * Checkout progress saved while the customer fills in the forms, restored when they return
+ */
+export interface CheckoutDraft {
+  /** Cart the draft belongs to (see cartDraftId() in shared/checkout-drafts.ts) */
+  cartId: string;
+  /** Stepper index the customer was on */
+  step: number;
+  sameAsShipping: boolean;
+  billing: BillingDraft;
+  shipping: ShippingDraft;
+  payment: PaymentDraft;
+  savedAt: Date;
+}
@@ -0,0 +1,18 @@
+/**
+ * A currency prices can be displayed in, with its exchange rate from the base currency (USD)
+ */
+export interface Currency {
+  /** ISO 4217 code, e.g. 'EUR' */
+  code: string;
+  name: string;
+  /** Units of this currency per unit of the base currency (0.92 = 1 USD buys 0.92 EUR) */
+  rate: number;
+  /** Locale amounts are formatted in (defaults to the runtime locale) */
+  locale?: string;
+}
+
+/**
+ * Display currency an order was placed in, with the exchange rate at that time
+ * The order's amounts stay in the base currency; the rate converts them for display.
+ */
+export type OrderCurrency = Pick<Currency, 'code' | 'rate' | 'locale'>;
@@ -0,0 +1,45 @@
+import { Address } from './cart.interface';
+
+/**
+ * Which checkout form an address is the default for
+ */
+export type AddressUse = 'billing' | 'shipping';
+
+/**
+ * Contact details the checkout billing form starts from
+ */
+export interface CustomerContact {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+}
+
+/**
+ * An address book entry
+ */
+export interface SavedAddress {
+  /** Assigned when the address is first saved */
+  id: string;
+  /** Name the customer gave it, e.g. 'Home' */
+  label: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  address: Address;
+}
+
+/**
+ * Address book entry as submitted from a form (without an id when it is new)
+ */
+export type SavedAddressInput = Omit<SavedAddress, 'id'> & { id?: string };
+
+/**
+ * A customer's reusable checkout details (kept per data profile)
+ */
+export interface CustomerProfile {
+  contact: CustomerContact | null;
+  addresses: SavedAddress[];
+  defaultBillingId: string | null;
+  defaultShippingId: string | null;
+}
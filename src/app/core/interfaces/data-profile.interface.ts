@@ -0,0 +1,8 @@
+/**
+ * Profile the desktop data stores are currently serving (see shared/data-profiles.ts)
+ */
+export interface DataProfileInfo {
+  /** Profile id, 'guest' when nobody is logged in */
+  id: string;
+  guest: boolean;
+}
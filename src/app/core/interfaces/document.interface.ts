@@ -0,0 +1,10 @@
+/**
+ * A generated document to save (Electron) or download (browser), e.g. an order export
+ */
+export interface ExportFile {
+  /** Suggested file name, including the extension */
+  fileName: string;
+  mimeType: string;
+  /** Text (written as UTF-8) or the bytes of a binary format such as .xlsx */
+  content: string | Uint8Array<ArrayBuffer>;
+}
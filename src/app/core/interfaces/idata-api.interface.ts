@@ -1,6 +1,9 @@
+import { Signal } from '@angular/core';
 import { Observable } from 'rxjs';
-import { Product } from './product.interface';
-import { Cart, Order, OrderRequest } from './cart.interface';
+import { CatalogStatus, Product } from './product.interface';
+import { Cart, Order, OrderRequest, OrderStatus, OrderStatusDetails } from './cart.interface';
+import { CheckoutDraft } from './checkout-draft.interface';
+import { AddressUse, CustomerContact, CustomerProfile, SavedAddressInput } from './customer-profile.interface';
 
 /**
  * Data API abstraction interface
@@ -8,6 +11,12 @@ import { Cart, Order, OrderRequest } from './cart.interface';
  * to provide a consistent API regardless of the environment.
  */
 export abstract class IDataApi {
+  /**
+   * Cache status of the latest catalog response, for data APIs backed by the offline
+   * catalog cache (desktop mode); null for APIs without one
+   */
+  readonly catalogStatus: Signal<CatalogStatus | null> | null = null;
+
   /**
    * Get all products from the API
    */
@@ -16,8 +25,9 @@ export abstract class IDataApi {
   /**
    * Get a single product by ID
    * @param id Product ID
+   * @returns The product, or null if the catalog does not have it (errors mean it could not be fetched)
    */
-  abstract getProductById(id: number): Observable<Product>;
+  abstract getProductById(id: number): Observable<Product | null>;
 
   /**
    * Get all product categories
@@ -41,6 +51,59 @@ export abstract class IDataApi {
    */
   abstract loadCart(): Observable<Cart | null>;
 
+  /**
+   * Save the checkout progress (replaces the previous draft; card details are never stored)
+   * @param draft Draft to save
+   */
+  abstract saveCheckoutDraft(draft: CheckoutDraft): Observable<boolean>;
+
+  /**
+   * Load the saved checkout progress for a cart
+   * @param cartId Cart the draft was saved for (see cartDraftId() in shared/checkout-drafts.ts)
+   * @returns The draft, or null if there is none for this cart
+   */
+  abstract loadCheckoutDraft(cartId: string): Observable<CheckoutDraft | null>;
+
+  /**
+   * Discard the saved checkout progress (e.g. once the order is placed)
+   */
+  abstract clearCheckoutDraft(): Observable<boolean>;
+
+  /**
+   * Get the current customer's contact details and address book
+   */
+  abstract getCustomerProfile(): Observable<CustomerProfile>;
+
+  /**
+   * Replace the contact details the checkout billing form starts from
+   * @param contact Contact details
+   * @returns The updated profile
+   */
+  abstract updateCustomerContact(contact: CustomerContact): Observable<CustomerProfile>;
+
+  /**
+   * Add an address to the address book, or replace the entry with the same id
+   * Errors with an IpcValidationError if the address does not match its country's format.
+   * @param address Address (without an id when it is new)
+   * @returns The updated profile
+   */
+  abstract saveAddress(address: SavedAddressInput): Observable<CustomerProfile>;
+
+  /**
+   * Remove an address from the address book
+   * @param addressId Address ID
+   * @returns The updated profile
+   */
+  abstract deleteAddress(addressId: string): Observable<CustomerProfile>;
+
+  /**
+   * Make an address the default for billing or shipping
+   * @param addressId Address ID
+   * @param use Which checkout form it is the default for
+   * @returns The updated profile
+   */
+  abstract setDefaultAddress(addressId: string, use: AddressUse): Observable<CustomerProfile>;
+
   /**
    * Submit an order for processing
    * @param orderRequest Order request data
@@ -57,4 +120,20 @@ export abstract class IDataApi {
    * Get all orders for the current user
    */
   abstract getOrders(): Observable<Order[]>;
+
+  /**
+   * Move an order to a new status (see shared/order-status.ts for legal transitions)
+   * Errors with an OrderTransitionError if the transition is not allowed.
+   * @param orderId Order ID
+   * @param status Target status
+   * @param details Optional note and tracking number (assigned automatically on 'shipped')
+   */
+  abstract updateOrderStatus(orderId: string, status: OrderStatus, details?: OrderStatusDetails): Observable<Order>;
+
+  /**
+   * Cancel an order that has not shipped yet
+   * @param orderId Order ID
+   * @param reason Optional reason, recorded in the status history
+   */
+  abstract cancelOrder(orderId: string, reason?: string): Observable<Order>;
 }
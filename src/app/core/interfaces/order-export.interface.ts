@@ -0,0 +1,31 @@
+/**
+ * Order export file formats
+ * - csv: comma-separated values
+ * - json: the orders as pretty-printed JSON
+ * - spreadsheet: Excel workbook (.xlsx) with typed cells
+ */
+export type OrderExportFormat = 'csv' | 'json' | 'spreadsheet';
+
+/**
+ * One row per order, or one row per line item (tabular formats only)
+ */
+export type OrderExportRows = 'order' | 'line-item';
+
+export interface OrderExportOptions {
+  format: OrderExportFormat;
+  rows: OrderExportRows;
+  /** Only orders placed on or after this day */
+  from?: Date;
+  /** Only orders placed on or before this day (inclusive) */
+  to?: Date;
+}
+
+/**
+ * Outcome of an export
+ */
+export interface OrderExportResult {
+  /** Orders in the selected date range */
+  count: number;
+  /** Where the file was saved (a path in Electron, the file name in the browser); null when nothing was saved */
+  location: string | null;
+}
@@ -0,0 +1,46 @@
+/**
+ * Card networks the checkout accepts
+ */
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover';
+
+/**
+ * Why a payment was not taken
+ */
+export type PaymentFailureReason =
+  | 'declined'
+  | 'insufficient-funds'
+  | 'expired-card'
+  | 'invalid-card'
+  | 'timeout'
+  | 'gateway-error';
+
+/**
+ * A successful charge, stored on the order
+ */
+export interface PaymentCharge {
+  /** Gateway that took the payment, e.g. 'mock' */
+  gateway: string;
+  transactionId: string;
+  /** Amount charged, in `currency` */
+  amount: number;
+  currency: string;
+  authorizedAt: Date;
+  /** Card payments only */
+  brand?: CardBrand;
+  last4?: string;
+}
+
+/**
+ * Settings for the local mock payment gateway
+ */
+export interface PaymentGatewayConfig {
+  /**
+   * 'approve' (default) takes every payment except the decline test cards,
+   * 'decline' refuses every payment, 'timeout' never answers
+   */
+  mode?: 'approve' | 'decline' | 'timeout';
+  /** Simulated processing time in milliseconds (default 500) */
+  latencyMs?: number;
+  /** How long the order pipeline waits for the gateway in milliseconds (default 10000) */
+  timeoutMs?: number;
+}
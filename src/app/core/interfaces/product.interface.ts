@@ -28,3 +28,19 @@ export interface ProductFilter {
   maxPrice?: number;
   searchTerm?: string;
 }
+
+/**
+ * Catalog response envelope returned by the Electron main process.
+ * Tells the renderer whether the data came from the offline catalog cache.
+ */
+export interface CatalogResponse<T> {
+  data: T;
+  fromCache: boolean;
+  stale: boolean;
+  fetchedAt: string;
+}
+
+/**
+ * Where the latest catalog response came from (a CatalogResponse without its data)
+ */
+export type CatalogStatus = Omit<CatalogResponse<unknown>, 'data'>;
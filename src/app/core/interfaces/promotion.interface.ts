@@ -0,0 +1,41 @@
+/**
+ * A promo code and the discount it grants (evaluated by shared/promotions.ts)
+ */
+export interface Promotion {
+  code: string;
+  /** Shown to the customer, e.g. '10% off your order' */
+  description: string;
+  /**
+   * - percentage: `value` percent off the eligible items
+   * - fixed: `value` off the eligible items (never more than they cost)
+   * - buy-x-get-y: of every `buyQuantity + getQuantity` eligible units, the `getQuantity` cheapest are free
+   */
+  type: 'percentage' | 'fixed' | 'buy-x-get-y';
+  value?: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  /** Only items of this product category are eligible (all items when omitted) */
+  category?: string;
+  /** Cart subtotal required before the code applies */
+  minSpend?: number;
+  /** ISO 8601 date-times bounding when the code can be redeemed */
+  startsAt?: string;
+  expiresAt?: string;
+  /** Maximum number of orders that may use the code (cancelled orders give their use back) */
+  usageLimit?: number;
+}
+
+/**
+ * A promo code redeemed on a cart or order
+ */
+export interface AppliedPromotion {
+  code: string;
+  description: string;
+  /** Amount taken off the subtotal */
+  discount: number;
+}
+
+/**
+ * Why a promo code was refused
+ */
+export type PromotionRejection = 'unknown' | 'not-started' | 'expired' | 'minimum-spend' | 'usage-limit' | 'not-applicable';
@@ -0,0 +1,9 @@
+/**
+ * Encryption state of the desktop order and cart stores
+ */
+export interface VaultStatus {
+  /** A passphrase has been set; data files are encrypted at rest */
+  enabled: boolean;
+  /** The stores can be read and written (always true when encryption is disabled) */
+  unlocked: boolean;
+}
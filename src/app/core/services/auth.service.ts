@@ -3,6 +3,7 @@ import { HttpClient, HttpErrorResponse } from '@angular/common/http';
 import { Observable, throwError } from 'rxjs';
 import { catchError, tap } from 'rxjs/operators';
 import { TokenService } from './token.service';
+import { AUTH_API_URL } from '../../../../shared/auth';
 
 /**
  * Authentication request/response interfaces
@@ -30,8 +31,8 @@ export interface AuthResponse {
   providedIn: 'root'
 })
 export class AuthService {
-  // Your backend API URL - update this to your actual backend
-  private readonly AUTH_API_URL = 'https://your-backend-api.com/auth';
+  // Your backend API URL - update it in shared/auth.ts
+  private readonly AUTH_API_URL = AUTH_API_URL;
 
   // Signal for current user state
   currentUser = signal<any>(null);
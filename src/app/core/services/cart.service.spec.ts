@@ -0,0 +1,234 @@
+import { TestBed, fakeAsync, flush, tick } from '@angular/core/testing';
+import { computed, signal } from '@angular/core';
+import { Subject, of, throwError } from 'rxjs';
+import { CartService } from './cart.service';
+import { ConfigService } from './config.service';
+import { DataProfileService } from './data-profile.service';
+import { VaultService } from './vault.service';
+import { IDataApi } from '../interfaces/idata-api.interface';
+import { Cart } from '../interfaces/cart.interface';
+import { Product } from '../interfaces/product.interface';
+
+describe('CartService', () => {
+  const activeProfile = signal('guest');
+  const locked = signal(false);
+  let dataApi: jasmine.SpyObj<IDataApi>;
+  let catalog: Map<number, Product>;
+  let beforeSwitch: jasmine.Spy<(task: () => Promise<void>) => void>;
+
+  function product(id: number, price: number): Product {
+    return { id, title: `Product ${id}`, price, description: '', category: 'bags', image: '', rating: { rate: 4, count: 1 } };
+  }
+
+  function savedCart(...items: [Product, number][]): Cart {
+    const cartItems = items.map(([entry, quantity]) => ({ product: entry, quantity, subtotal: entry.price * quantity }));
+    return {
+      items: cartItems,
+      totalItems: cartItems.reduce((sum, item) => sum + item.quantity, 0),
+      totalAmount: cartItems.reduce((sum, item) => sum + item.subtotal, 0),
+      createdAt: new Date('2024-03-01T10:00:00.000Z'),
+      updatedAt: new Date('2024-03-01T10:00:00.000Z')
+    };
+  }
+
+  beforeEach(() => {
+    activeProfile.set('guest');
+    locked.set(false);
+    catalog = new Map([[1, product(1, 20)], [2, product(2, 30)]]);
+    beforeSwitch = jasmine.createSpy('beforeSwitch');
+    dataApi = jasmine.createSpyObj<IDataApi>('IDataApi', ['loadCart', 'saveCart', 'getProductById']);
+    dataApi.loadCart.and.returnValue(of(null));
+    dataApi.saveCart.and.returnValue(of(true));
+    dataApi.getProductById.and.callFake(id => of(catalog.get(id) ?? null));
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: IDataApi, useValue: dataApi },
+        { provide: ConfigService, useValue: { config: signal(null).asReadonly() } },
+        { provide: DataProfileService, useValue: { activeProfile: activeProfile.asReadonly(), beforeSwitch } },
+        { provide: VaultService, useValue: { locked: computed(() => locked()) } }
+      ]
+    });
+  });
+
+  function create(): CartService {
+    const service = TestBed.inject(CartService);
+    TestBed.tick();
+    return service;
+  }
+
+  describe('revalidation', () => {
+    it('should reprice items whose catalog price changed', async () => {
+      const service = create();
+      await service.revalidate();
+      service.addToCart(product(1, 20), 2);
+      catalog.set(1, { ...product(1, 25), title: 'Renamed' });
+
+      const changes = await service.revalidate();
+
+      expect(changes).toEqual([{ productId: 1, title: 'Renamed', previousPrice: 20, currentPrice: 25 }]);
+      expect(service.cart().items[0].subtotal).toBe(50);
+      expect(service.cart().totalAmount).toBe(50);
+      expect(service.priceChanges()).toEqual(changes);
+    });
+
+    it('should remove products that no longer exist', async () => {
+      const service = create();
+      await service.revalidate();
+      service.addToCart(product(1, 20));
+      service.addToCart(product(2, 30));
+      catalog.delete(2);
+
+      const changes = await service.revalidate();
+
+      expect(changes).toEqual([{ productId: 2, title: 'Product 2', previousPrice: 30, currentPrice: null }]);
+      expect(service.cart().items.map(item => item.product.id)).toEqual([1]);
+    });
+
+    it('should keep items whose product cannot be fetched', async () => {
+      const service = create();
+      await service.revalidate();
+      service.addToCart(product(1, 10));
+      dataApi.getProductById.and.returnValue(throwError(() => new Error('Server error: 500 - Http failure response for /products/404')));
+
+      expect(await service.revalidate()).toEqual([]);
+      expect(service.cart().items[0].product.price).toBe(10);
+    });
+
+    it('should check the saved cart when it loads', async () => {
+      dataApi.loadCart.and.returnValue(of(savedCart([product(1, 15), 1], [product(2, 30), 2])));
+      const service = create();
+
+      await service.revalidate();
+
+      expect(service.priceChanges()).toEqual([{ productId: 1, title: 'Product 1', previousPrice: 15, currentPrice: 20 }]);
+      expect(service.cart().totalAmount).toBe(80);
+      expect(dataApi.getProductById).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share a check that is already running', async () => {
+      const service = create();
+      await service.revalidate();
+      service.addToCart(product(1, 20));
+      dataApi.getProductById.calls.reset();
+
+      await Promise.all([service.revalidate(), service.revalidate()]);
+
+      expect(dataApi.getProductById).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hide the notices when dismissed or when the item is removed', async () => {
+      const service = create();
+      await service.revalidate();
+      service.addToCart(product(1, 10));
+      service.addToCart(product(2, 10));
+      await service.revalidate();
+
+      service.removeFromCart(1);
+      expect(service.priceChanges().map(change => change.productId)).toEqual([2]);
+
+      service.dismissPriceChanges();
+      expect(service.priceChanges()).toEqual([]);
+    });
+  });
+
+  describe('limits', () => {
+    it('should cap the quantity added to an item', async () => {
+      const service = create();
+      await service.revalidate();
+      service.addToCart(product(1, 20), 98);
+
+      expect(service.addToCart(product(1, 20), 5)).toBe('item-quantity');
+      expect(service.getItemQuantity(1)).toBe(99);
+      expect(service.cart().totalAmount).toBe(1980);
+      expect(service.addToCart(product(1, 20))).toBe('item-quantity');
+      expect(service.getItemQuantity(1)).toBe(99);
+    });
+
+    it('should cap a quantity set on an item', async () => {
+      const service = create();
+      await service.revalidate();
+      service.addToCart(product(1, 20));
+
+      expect(service.updateQuantity(1, 250)).toBe('item-quantity');
+      expect(service.getItemQuantity(1)).toBe(99);
+      expect(service.updateQuantity(1, 99)).toBeNull();
+    });
+
+    it('should refuse a new product once the cart holds the most products', async () => {
+      const service = create();
+      await service.revalidate();
+      for (let id = 1; id <= 100; id++) {
+        expect(service.addToCart(product(id, 1))).toBeNull();
+      }
+
+      expect(service.addToCart(product(101, 1))).toBe('cart-items');
+      expect(service.isInCart(101)).toBeFalse();
+      expect(service.addToCart(product(1, 1))).toBeNull();
+      expect(service.getItemQuantity(1)).toBe(2);
+    });
+  });
+
+  describe('saving', () => {
+    it('should wait for the saved cart and merge the items added meanwhile', fakeAsync(() => {
+      const loading = new Subject<Cart | null>();
+      dataApi.loadCart.and.returnValue(loading);
+      const service = create();
+
+      service.addToCart(product(2, 30));
+      tick(1000);
+      expect(dataApi.saveCart).not.toHaveBeenCalled();
+
+      loading.next(savedCart([product(1, 20), 1], [product(2, 30), 1]));
+      loading.complete();
+      flush();
+
+      expect(service.cart().items.map(item => [item.product.id, item.quantity])).toEqual([[1, 1], [2, 2]]);
+      expect(dataApi.saveCart).toHaveBeenCalledOnceWith(jasmine.objectContaining({ totalItems: 3, totalAmount: 80 }));
+    }));
+
+    it('should write a burst of changes once', fakeAsync(() => {
+      const service = create();
+      flush();
+
+      service.addToCart(product(1, 20));
+      service.addToCart(product(1, 20));
+      tick(299);
+      expect(dataApi.saveCart).not.toHaveBeenCalled();
+
+      tick(1);
+      expect(dataApi.saveCart).toHaveBeenCalledOnceWith(jasmine.objectContaining({ totalItems: 2 }));
+    }));
+
+    it('should write a pending change before the profile switches', async () => {
+      const service = create();
+      await service.revalidate();
+      service.addToCart(product(1, 20));
+
+      const [flushSave] = beforeSwitch.calls.mostRecent().args;
+      await flushSave();
+
+      expect(dataApi.saveCart).toHaveBeenCalledOnceWith(jasmine.objectContaining({ totalItems: 1 }));
+    });
+
+    it('should load the cart again once the vault is unlocked', fakeAsync(() => {
+      spyOn(console, 'error');
+      locked.set(true);
+      dataApi.loadCart.and.returnValue(throwError(() => new Error('The data store is locked')));
+      const service = create();
+      flush();
+
+      service.addToCart(product(2, 30));
+      flush();
+      expect(dataApi.saveCart).not.toHaveBeenCalled();
+
+      dataApi.loadCart.and.returnValue(of(savedCart([product(1, 20), 1])));
+      locked.set(false);
+      TestBed.tick();
+      flush();
+
+      expect(dataApi.loadCart).toHaveBeenCalledTimes(2);
+      expect(service.cart().totalItems).toBe(2);
+      expect(dataApi.saveCart).toHaveBeenCalledOnceWith(jasmine.objectContaining({ totalAmount: 50 }));
+    }));
+  });
+});
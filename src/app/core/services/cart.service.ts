@@ -1,8 +1,36 @@
-import { Injectable, computed, signal } from '@angular/core';
+import { Injectable, computed, effect, signal, untracked } from '@angular/core';
 import { Product } from '../interfaces/product.interface';
-import { Cart, CartItem, CartSummary, Order, OrderRequest } from '../interfaces/cart.interface';
+import { Cart, CartItem, CartPriceChange, CartSummary, Order, OrderRequest } from '../interfaces/cart.interface';
+import { IDataApi } from '../interfaces/idata-api.interface';
 import { LoggerService } from './logger.service';
-
+import { VersionedStorageService } from './versioned-storage.service';
+import { DataProfileService } from './data-profile.service';
+import { VaultService } from './vault.service';
+import { ConfigService } from './config.service';
+import { cartMigrator } from '../../../../shared/migrations';
+import { GUEST_PROFILE, profileStorageKey } from '../../../../shared/data-profiles';
+import {
+  PRICE_TOLERANCE,
+  PricingContext,
+  calculateTotals,
+  freeShippingShortfall,
+  resolvePricingRules
+} from '../../../../shared/pricing';
+import { resolveDeliveryRules } from '../../../../shared/delivery';
+import { DEFAULT_PROMOTIONS, applyPromotion } from '../../../../shared/promotions';
+import { CartLimit, MAX_CART_ITEMS, MAX_ITEM_QUANTITY } from '../../../../shared/cart-limits';
+import { PromotionError } from '../../../../shared/ipc-errors';
+import { AppliedPromotion } from '../interfaces/promotion.interface';
+import { firstValueFrom } from 'rxjs';
+
+// Changes in quick succession (e.g. quantity clicks) are written to the data store once
+const CART_SAVE_DELAY_MS = 300;
+
+/**
+ * Cart Service
+ * The shopping cart of the active data profile. The cart is persisted through IDataApi
+ * (a file in the desktop app, localStorage in the browser) with debounced writes.
+ */
 @Injectable({
   providedIn: 'root'
 })
@@ -17,41 +45,114 @@ export class CartService {
   });
 
   private readonly _orders = signal<Order[]>([]);
+  private readonly _promoCode = signal<string | null>(null);
+  private readonly _priceChanges = signal<CartPriceChange[]>([]);
+  private readonly _loading = signal<boolean>(true);
+
+  // Loading of the active profile's saved cart (later loads supersede earlier ones)
+  private hydration: Promise<void> = Promise.resolve();
+  private generation = 0;
+  // Whether the active profile's saved cart has been read; until then the cart is never saved
+  private loadSucceeded = false;
+  // Set when the cart is changed before the saved cart has loaded
+  private changedWhileLoading = false;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // The desktop app kept carts in localStorage before they were stored on disk
+  private readonly migratesLocalCart = typeof window !== 'undefined' && !!window.electronAPI;
+
+  // Catalog check in progress (callers share it rather than fetching every product twice)
+  private revalidation: Promise<CartPriceChange[]> | null = null;
+
+  // Each data profile (user or guest) has its own cart
+  private profileId = GUEST_PROFILE;
 
   // Public readonly signals
   public readonly cart = this._cart.asReadonly();
   public readonly orders = this._orders.asReadonly();
 
+  // True until the saved cart has been loaded
+  public readonly loading = this._loading.asReadonly();
+
+  // Items repriced or removed by the last catalog checks, shown until dismissed
+  public readonly priceChanges = this._priceChanges.asReadonly();
+
   // Computed values
   public readonly isEmpty = computed(() => this._cart().items.length === 0);
   public readonly itemCount = computed(() => 
     this._cart().items.reduce((total, item) => total + item.quantity, 0)
   );
   
-  public readonly cartSummary = computed<CartSummary>(() => {
-    const cart = this._cart();
-    const subtotal = cart.totalAmount;
-    const shipping = this.calculateShipping(subtotal);
-    const tax = this.calculateTax(subtotal);
-    
-    return {
-      itemCount: cart.totalItems,
-      subtotal,
-      shipping,
-      tax,
-      total: subtotal + shipping + tax
-    };
+  // Shipping, tax, delivery and promotion rules from the runtime config
+  public readonly pricingRules = computed(() => resolvePricingRules(this.config.config()?.pricing));
+  public readonly deliveryRules = computed(() => resolveDeliveryRules(this.config.config()?.delivery));
+  private readonly promotions = computed(() => this.config.config()?.promotions ?? DEFAULT_PROMOTIONS);
+
+  // Promo code entered by the customer (the order pipeline re-validates it)
+  public readonly promoCode = this._promoCode.asReadonly();
+
+  // The entered code evaluated against the current cart; a code can stop applying as the cart changes
+  public readonly promotion = computed<{ applied: AppliedPromotion | null; error: PromotionError | null }>(() => {
+    const code = this._promoCode();
+    if (!code) {
+      return { applied: null, error: null };
+    }
+    try {
+      return { applied: applyPromotion(code, this._cart(), this.promotions()), error: null };
+    } catch (error) {
+      return { applied: null, error: error as PromotionError };
+    }
   });
 
-  constructor(private logger: LoggerService) {
+  // Totals before checkout: standard shipping, default tax rate
+  public readonly cartSummary = computed<CartSummary>(() => this.summarize());
+
+  // How much more ships free with standard shipping (null if it never does)
+  public readonly freeShippingShortfall = computed(() =>
+    freeShippingShortfall(this._cart().totalAmount, 'standard', this.pricingRules())
+  );
+
+  constructor(
+    private logger: LoggerService,
+    private dataApi: IDataApi,
+    private storage: VersionedStorageService,
+    private dataProfiles: DataProfileService,
+    private config: ConfigService,
+    vault: VaultService
+  ) {
     this.logger.info('🛒 [CART SERVICE]', 'Service initialized');
-    this.loadCartFromStorage();
+    this.hydration = this.loadCart();
+
+    // Write a pending change before the window closes
+    if (typeof window !== 'undefined') {
+      window.addEventListener('beforeunload', () => this.flushSave());
+    }
+
+    // Swap the cart when a different user logs in (or out), after writing a pending change
+    // to the profile it was made in
+    this.dataProfiles.beforeSwitch(() => this.flushSave());
+    effect(() => {
+      const profileId = this.dataProfiles.activeProfile();
+      untracked(() => this.switchProfile(profileId));
+    });
+
+    // A locked vault refuses to load the cart; load it again once it is unlocked
+    let locked = vault.locked();
+    effect(() => {
+      const nowLocked = vault.locked();
+      if (locked && !nowLocked && !this.loadSucceeded) {
+        untracked(() => this.hydration = this.loadCart());
+      }
+      locked = nowLocked;
+    });
   }
 
   /**
    * Add a product to the cart
+   * Quantities are capped at MAX_ITEM_QUANTITY per product and MAX_CART_ITEMS products per cart.
+   * @returns The limit that kept some (or all) of the quantity out of the cart, or null
    */
-  addToCart(product: Product, quantity: number = 1): void {
+  addToCart(product: Product, quantity: number = 1): CartLimit | null {
     this.logger.info('🛒 [CART SERVICE]', 'Adding to cart:', { 
       productId: product.id, 
       title: product.title, 
@@ -63,6 +164,19 @@ export class CartService {
       item => item.product.id === product.id
     );
 
+    if (existingItemIndex < 0 && currentCart.items.length >= MAX_CART_ITEMS) {
+      this.logger.warn('🛒 [CART SERVICE]', 'Cart already holds the most products');
+      return 'cart-items';
+    }
+
+    const currentQuantity = existingItemIndex >= 0 ? currentCart.items[existingItemIndex].quantity : 0;
+    const newQuantity = Math.min(currentQuantity + quantity, MAX_ITEM_QUANTITY);
+    const limit = newQuantity < currentQuantity + quantity ? 'item-quantity' : null;
+    if (limit && newQuantity === currentQuantity) {
+      this.logger.warn('🛒 [CART SERVICE]', 'Cart already holds the most of this product');
+      return limit;
+    }
+
     let updatedItems: CartItem[];
 
     if (existingItemIndex >= 0) {
@@ -70,22 +184,23 @@ export class CartService {
       updatedItems = [...currentCart.items];
       updatedItems[existingItemIndex] = {
         ...updatedItems[existingItemIndex],
-        quantity: updatedItems[existingItemIndex].quantity + quantity,
-        subtotal: (updatedItems[existingItemIndex].quantity + quantity) * product.price
+        quantity: newQuantity,
+        subtotal: newQuantity * product.price
       };
       this.logger.info('🛒 [CART SERVICE]', 'Updated existing item quantity');
     } else {
       // Add new item
       const newItem: CartItem = {
         product,
-        quantity,
-        subtotal: product.price * quantity
+        quantity: newQuantity,
+        subtotal: product.price * newQuantity
       };
       updatedItems = [...currentCart.items, newItem];
       this.logger.info('🛒 [CART SERVICE]', 'Added new item to cart');
     }
 
     this.updateCart(updatedItems);
+    return limit;
   }
 
   /**
@@ -99,20 +214,25 @@ export class CartService {
       item => item.product.id !== productId
     );
 
+    this._priceChanges.update(changes => changes.filter(change => change.productId !== productId));
     this.updateCart(updatedItems);
   }
 
   /**
    * Update the quantity of a specific item
+   * @returns 'item-quantity' if the quantity was capped at MAX_ITEM_QUANTITY, otherwise null
    */
-  updateQuantity(productId: number, quantity: number): void {
+  updateQuantity(productId: number, quantity: number): CartLimit | null {
     this.logger.info('🛒 [CART SERVICE]', 'Updating quantity:', { productId, quantity });
 
     if (quantity <= 0) {
       this.removeFromCart(productId);
-      return;
+      return null;
     }
 
+    const limit = quantity > MAX_ITEM_QUANTITY ? 'item-quantity' : null;
+    quantity = Math.min(quantity, MAX_ITEM_QUANTITY);
+
     const currentCart = this._cart();
     const updatedItems = currentCart.items.map(item => {
       if (item.product.id === productId) {
@@ -126,6 +246,7 @@ export class CartService {
     });
 
     this.updateCart(updatedItems);
+    return limit;
   }
 
   /**
@@ -148,7 +269,9 @@ export class CartService {
    */
   clearCart(): void {
     this.logger.info('🛒 [CART SERVICE]', 'Clearing cart');
-    
+    this._promoCode.set(null);
+    this._priceChanges.set([]);
+
     this._cart.set({
       items: [],
       totalItems: 0,
@@ -157,37 +280,67 @@ export class CartService {
       updatedAt: new Date()
     });
 
-    this.saveCartToStorage();
+    this.scheduleSave();
+  }
+
+  /**
+   * Check every item against the catalog (IDataApi.getProductById): items whose price changed
+   * are repriced and products that no longer exist are removed. Items whose product cannot be
+   * fetched (e.g. while offline) are kept as they are; the order pipeline checks prices again.
+   * Waits for the saved cart to load first.
+   * @returns The changes found by this check
+   */
+  revalidate(): Promise<CartPriceChange[]> {
+    if (!this.revalidation) {
+      this.revalidation = this.checkPrices().finally(() => this.revalidation = null);
+    }
+    return this.revalidation;
+  }
+
+  /**
+   * Hide the price change notices
+   */
+  dismissPriceChanges(): void {
+    this._priceChanges.set([]);
+  }
+
+  /**
+   * Totals for the current cart, shipped with a given method to a given address
+   */
+  summarize(context: PricingContext = {}): CartSummary {
+    const cart = this._cart();
+    const promotion = this.promotion().applied;
+    return {
+      itemCount: cart.totalItems,
+      ...calculateTotals(cart.totalAmount, { ...context, discount: promotion?.discount }, this.pricingRules()),
+      promotion
+    };
+  }
+
+  /**
+   * Apply a promo code to the cart
+   * @throws PromotionError when the code does not apply to the current cart
+   */
+  applyPromoCode(code: string): AppliedPromotion {
+    const applied = applyPromotion(code, this._cart(), this.promotions());
+    this._promoCode.set(applied.code);
+    this.logger.info('🛒 [CART SERVICE]', 'Promo code applied:', applied);
+    return applied;
+  }
+
+  removePromoCode(): void {
+    this._promoCode.set(null);
   }
 
   /**
    * Create an order from the current cart
+   * The order is priced and persisted by the data API (in desktop mode the main process
+   * reprices every item from the catalog and may reject the order with a PriceDiscrepancyError).
    */
   async createOrder(orderRequest: OrderRequest): Promise<Order> {
     this.logger.info('🛒 [CART SERVICE]', 'Creating order');
 
-    const summary = this.cartSummary();
-    const orderId = this.generateOrderId();
-
-    const order: Order = {
-      id: orderId,
-      cart: orderRequest.cart,
-      billing: orderRequest.billing,
-      shipping: orderRequest.shipping,
-      payment: {
-        method: orderRequest.payment.method,
-        cardholderName: orderRequest.payment.cardholderName,
-        paypalEmail: orderRequest.payment.paypalEmail,
-        cryptoWallet: orderRequest.payment.cryptoWallet
-      },
-      subtotal: summary.subtotal,
-      shipping_cost: summary.shipping,
-      tax: summary.tax,
-      total: summary.total,
-      status: 'pending',
-      createdAt: new Date(),
-      estimatedDelivery: this.calculateEstimatedDelivery(orderRequest.shipping.shippingMethod)
-    };
+    const order = await firstValueFrom(this.dataApi.submitOrder(orderRequest));
 
     // Add to orders list
     const currentOrders = this._orders();
@@ -196,7 +349,7 @@ export class CartService {
     // Clear the cart after successful order
     this.clearCart();
 
-    this.logger.info('🛒 [CART SERVICE]', 'Order created successfully:', { orderId });
+    this.logger.info('🛒 [CART SERVICE]', 'Order created successfully:', { orderId: order.id });
     return order;
   }
 
@@ -210,6 +363,84 @@ export class CartService {
   /**
    * Private helper methods
    */
+  private switchProfile(profileId: string): void {
+    if (profileId === this.profileId) {
+      return;
+    }
+
+    this.logger.info('🛒 [CART SERVICE]', `Switching cart to profile ${profileId}`);
+    // Pending saves were flushed before the switch; the data API serves the new profile now
+    this.cancelSave();
+    this.changedWhileLoading = false;
+    this.profileId = profileId;
+    this._orders.set([]);
+    this._promoCode.set(null);
+    this._priceChanges.set([]);
+    this._cart.set({
+      items: [],
+      totalItems: 0,
+      totalAmount: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+    this.hydration = this.loadCart();
+  }
+
+  private async checkPrices(): Promise<CartPriceChange[]> {
+    await this.hydration;
+    const ids = [...new Set(this._cart().items.map(item => item.product.id))];
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const profileId = this.profileId;
+    const catalog = new Map(await Promise.all(ids.map(async id => [id, await this.lookupProduct(id)] as const)));
+    if (profileId !== this.profileId) {
+      // Another user's cart is loaded now; it gets its own check
+      return [];
+    }
+
+    // Apply to the cart as it is now (items may have changed during the lookups)
+    const changes: CartPriceChange[] = [];
+    const items: CartItem[] = [];
+    for (const item of this._cart().items) {
+      const product = catalog.get(item.product.id);
+      if (product === null) {
+        changes.push({ productId: item.product.id, title: item.product.title, previousPrice: item.product.price, currentPrice: null });
+      } else if (product && Math.abs(product.price - item.product.price) > PRICE_TOLERANCE) {
+        changes.push({ productId: item.product.id, title: product.title, previousPrice: item.product.price, currentPrice: product.price });
+        items.push({
+          ...item,
+          product: { ...item.product, price: product.price },
+          subtotal: product.price * item.quantity
+        });
+      } else {
+        items.push(item);
+      }
+    }
+
+    if (changes.length > 0) {
+      this.logger.warn('🛒 [CART SERVICE]', 'Cart revalidated against the catalog:', changes);
+      this._priceChanges.update(previous => [
+        ...previous.filter(change => !changes.some(next => next.productId === change.productId)),
+        ...changes
+      ]);
+      this.updateCart(items);
+    }
+    return changes;
+  }
+
+  // The catalog product; null if it no longer exists, undefined if it could not be fetched
+  private async lookupProduct(id: number): Promise<Product | null | undefined> {
+    try {
+      const product = await firstValueFrom(this.dataApi.getProductById(id));
+      return product && typeof product.price === 'number' ? product : null;
+    } catch (error) {
+      this.logger.warn('🛒 [CART SERVICE]', `Could not revalidate product ${id}:`, String(error));
+      return undefined;
+    }
+  }
+
   private updateCart(items: CartItem[]): void {
     const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
     const totalAmount = items.reduce((sum, item) => sum + item.subtotal, 0);
@@ -222,78 +453,131 @@ export class CartService {
       updatedAt: new Date()
     });
 
-    this.saveCartToStorage();
-  }
-
-  private calculateShipping(subtotal: number): number {
-    // Free shipping over $50
-    if (subtotal >= 50) return 0;
-    // Standard shipping rate
-    return 9.99;
+    this.scheduleSave();
   }
 
-  private calculateTax(subtotal: number): number {
-    // 8.5% tax rate
-    return subtotal * 0.085;
+  private scheduleSave(): void {
+    if (this._loading() || !this.loadSucceeded) {
+      // Saving now would replace the saved cart before it has been read
+      // (the change is merged into it once it loads)
+      this.changedWhileLoading = true;
+      return;
+    }
+    this.cancelSave();
+    this.saveTimer = setTimeout(() => this.flushSave(), CART_SAVE_DELAY_MS);
   }
 
-  private generateOrderId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `ORD-${timestamp}-${random}`.toUpperCase();
+  private cancelSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
   }
 
-  private calculateEstimatedDelivery(shippingMethod: string): Date {
-    const now = new Date();
-    const deliveryDate = new Date(now);
-    
-    switch (shippingMethod) {
-      case 'overnight':
-        deliveryDate.setDate(now.getDate() + 1);
-        break;
-      case 'express':
-        deliveryDate.setDate(now.getDate() + 3);
-        break;
-      case 'standard':
-      default:
-        deliveryDate.setDate(now.getDate() + 7);
-        break;
+  // Write the cart now if a change is waiting to be saved
+  private async flushSave(): Promise<void> {
+    if (!this.saveTimer) {
+      return;
     }
-    
-    return deliveryDate;
-  }
+    this.cancelSave();
 
-  private saveCartToStorage(): void {
     try {
-      const cartData = JSON.stringify(this._cart());
-      localStorage.setItem('cart', cartData);
-      this.logger.debug('🛒 [CART SERVICE]', 'Cart saved to localStorage');
+      await firstValueFrom(this.dataApi.saveCart(this._cart()));
+      this.logger.debug('🛒 [CART SERVICE]', 'Cart saved');
     } catch (error) {
-      this.logger.error('🛒 [CART SERVICE]', 'Failed to save cart to localStorage:', String(error));
+      this.logger.error('🛒 [CART SERVICE]', 'Failed to save cart:', String(error));
     }
   }
 
-  private loadCartFromStorage(): void {
+  private async loadCart(): Promise<void> {
+    const generation = ++this.generation;
+    this._loading.set(true);
+    this.loadSucceeded = false;
+
     try {
-      const cartData = localStorage.getItem('cart');
-      if (cartData) {
-        const parsedCart = JSON.parse(cartData);
-        // Ensure dates are properly parsed
-        parsedCart.createdAt = new Date(parsedCart.createdAt);
-        parsedCart.updatedAt = new Date(parsedCart.updatedAt);
-        this._cart.set(parsedCart);
-        this.logger.info('🛒 [CART SERVICE]', 'Cart loaded from localStorage');
+      const saved = await this.readSavedCart();
+      if (generation !== this.generation) {
+        // Another profile's cart is loading now
+        return;
+      }
+      this.loadSucceeded = true;
+
+      if (saved) {
+        // Items added while the saved cart was loading are kept on top of it
+        const items = this.changedWhileLoading ? mergeItems(saved.items, this._cart().items) : saved.items;
+        this._cart.set({
+          ...saved,
+          items,
+          totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+          totalAmount: items.reduce((sum, item) => sum + item.subtotal, 0),
+          createdAt: new Date(saved.createdAt),
+          updatedAt: new Date(saved.updatedAt)
+        });
+        this.logger.info('🛒 [CART SERVICE]', 'Cart loaded');
       }
     } catch (error) {
-      this.logger.error('🛒 [CART SERVICE]', 'Failed to load cart from localStorage:', String(error));
-      // Initialize with empty cart if loading fails
-      this._cart.set({
-        items: [],
-        totalItems: 0,
-        totalAmount: 0,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      });
+      // Keep whatever is in memory (an empty cart unless items were added meanwhile), unsaved
+      // until the saved cart can be read (e.g. once the vault is unlocked)
+      this.logger.error('🛒 [CART SERVICE]', 'Failed to load cart:', String(error));
+    } finally {
+      if (generation === this.generation) {
+        this._loading.set(false);
+        if (this.loadSucceeded && this.changedWhileLoading) {
+          this.changedWhileLoading = false;
+          this.scheduleSave();
+        }
+      }
+    }
+
+    if (generation === this.generation && !this.isEmpty()) {
+      // Prices may have changed since the cart was saved
+      this.revalidate();
+    }
+  }
+
+  /**
+   * The active profile's saved cart
+   * In the desktop app a cart left in localStorage by earlier versions is moved into the
+   * data store the first time it is seen (unless the store already has a cart).
+   */
+  private async readSavedCart(): Promise<Cart | null> {
+    const saved = await firstValueFrom(this.dataApi.loadCart());
+    if (!this.migratesLocalCart) {
+      return saved;
+    }
+
+    // Older schemas are migrated; unreadable carts are quarantined and treated as missing
+    const localKey = profileStorageKey('cart', this.profileId);
+    const local = this.storage.read(localKey, cartMigrator);
+    if (!local) {
+      return saved;
+    }
+
+    if (!saved) {
+      // The local copy is only removed once the data store has it
+      if (!(await firstValueFrom(this.dataApi.saveCart(local)))) {
+        throw new Error(`The data store did not save the localStorage cart '${localKey}'`);
+      }
+      this.logger.info('🛒 [CART SERVICE]', `Moved the localStorage cart '${localKey}' into the data store`);
+    }
+    localStorage.removeItem(localKey);
+    return saved ?? local;
+  }
+}
+
+/**
+ * Add each extra item's quantity to the matching cart item (or append it)
+ */
+function mergeItems(items: CartItem[], extra: CartItem[]): CartItem[] {
+  const merged = [...items];
+  for (const item of extra) {
+    const index = merged.findIndex(existing => existing.product.id === item.product.id);
+    if (index >= 0) {
+      const quantity = Math.min(merged[index].quantity + item.quantity, MAX_ITEM_QUANTITY);
+      merged[index] = { ...merged[index], quantity, subtotal: merged[index].product.price * quantity };
+    } else {
+      merged.push(item);
     }
   }
-}
\ No newline at end of file
+  return merged;
+}
@@ -0,0 +1,64 @@
+import { Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { CheckoutDraft } from '../interfaces/checkout-draft.interface';
+import { IDataApi } from '../interfaces/idata-api.interface';
+import { CartService } from './cart.service';
+import { LoggerService } from './logger.service';
+import { cartDraftId, redactCheckoutDraft } from '../../../../shared/checkout-drafts';
+
+/**
+ * Checkout Draft Service
+ * Saves and restores the checkout progress for the current cart through IDataApi.
+ * Card details are stripped before a draft leaves the renderer.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CheckoutDraftService {
+  constructor(
+    private dataApi: IDataApi,
+    private cartService: CartService,
+    private logger: LoggerService
+  ) {}
+
+  /**
+   * Saved progress for the current cart
+   * @returns The draft, or null if there is none (or it could not be read)
+   */
+  async load(): Promise<CheckoutDraft | null> {
+    try {
+      return await firstValueFrom(this.dataApi.loadCheckoutDraft(cartDraftId(this.cartService.cart())));
+    } catch (error) {
+      this.logger.warn('📝 [CHECKOUT DRAFT]', 'Failed to load draft:', String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Save progress for the current cart
+   * @returns Whether the draft was saved
+   */
+  async save(draft: Omit<CheckoutDraft, 'cartId' | 'savedAt'>): Promise<boolean> {
+    try {
+      return await firstValueFrom(this.dataApi.saveCheckoutDraft(redactCheckoutDraft({
+        ...draft,
+        cartId: cartDraftId(this.cartService.cart()),
+        savedAt: new Date()
+      })));
+    } catch (error) {
+      this.logger.warn('📝 [CHECKOUT DRAFT]', 'Failed to save draft:', String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Discard the saved progress
+   */
+  async clear(): Promise<void> {
+    try {
+      await firstValueFrom(this.dataApi.clearCheckoutDraft());
+    } catch (error) {
+      this.logger.warn('📝 [CHECKOUT DRAFT]', 'Failed to clear draft:', String(error));
+    }
+  }
+}
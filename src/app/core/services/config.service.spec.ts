@@ -0,0 +1,50 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { ConfigService, DEFAULT_API_BASE_URL, DEFAULT_API_TIMEOUT } from './config.service';
+
+describe('ConfigService', () => {
+  let service: ConfigService;
+  let http: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(ConfigService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    http.verify();
+  });
+
+  it('should use the defaults before a config is loaded', () => {
+    expect(service.apiBaseUrl).toBe(DEFAULT_API_BASE_URL);
+    expect(service.apiTimeout).toBe(DEFAULT_API_TIMEOUT);
+  });
+
+  it('should read the backend URL and timeout from config.json', async () => {
+    const loading = service.load();
+    http.expectOne('config.json').flush({
+      environment: 'production',
+      appUrl: '',
+      enableDevTools: false,
+      apiBaseUrl: 'https://catalog.example.com/v1//',
+      apiTimeout: 2500
+    });
+    await loading;
+
+    expect(service.apiBaseUrl).toBe('https://catalog.example.com/v1');
+    expect(service.apiTimeout).toBe(2500);
+  });
+
+  it('should fall back to the defaults when config.json cannot be loaded', async () => {
+    const loading = service.load();
+    http.expectOne('config.json').flush('Not found', { status: 404, statusText: 'Not Found' });
+    await loading;
+
+    expect(service.config()).toBeNull();
+    expect(service.apiBaseUrl).toBe(DEFAULT_API_BASE_URL);
+  });
+});
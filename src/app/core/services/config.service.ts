@@ -0,0 +1,65 @@
+import { Injectable, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { AppConfig } from '../interfaces/app-config.interface';
+import { LoggerService } from './logger.service';
+
+/**
+ * Default catalog backend settings, used when the config file omits them
+ */
+export const DEFAULT_API_BASE_URL = 'https://fakestoreapi.com';
+export const DEFAULT_API_TIMEOUT = 10000; // 10 seconds
+
+/**
+ * Config Service
+ * Loads the runtime AppConfig once at startup:
+ * - Electron mode: config.dev.json / config.prod.json via the main process
+ * - Browser mode: config.json served next to index.html (editable without rebuilding)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConfigService {
+  private readonly _config = signal<AppConfig | null>(null);
+
+  readonly config = this._config.asReadonly();
+
+  constructor(
+    private http: HttpClient,
+    private logger: LoggerService
+  ) {}
+
+  /**
+   * Load the runtime configuration (registered as an app initializer)
+   */
+  async load(): Promise<void> {
+    try {
+      const isElectron = typeof window !== 'undefined' &&
+                         typeof window.electronAPI !== 'undefined';
+
+      const config = isElectron
+        ? await window.electronAPI.app.getConfig()
+        : await firstValueFrom(this.http.get<AppConfig>('config.json'));
+
+      this._config.set(config);
+      this.logger.info('⚙️ [CONFIG]', 'Runtime config loaded:', config);
+    } catch (error) {
+      // Fall back to defaults so the app still starts without a config file
+      this.logger.warn('⚙️ [CONFIG]', 'Failed to load runtime config, using defaults:', String(error));
+    }
+  }
+
+  /**
+   * Catalog backend base URL (without trailing slash)
+   */
+  get apiBaseUrl(): string {
+    return (this._config()?.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+  }
+
+  /**
+   * Catalog request timeout in milliseconds
+   */
+  get apiTimeout(): number {
+    return this._config()?.apiTimeout || DEFAULT_API_TIMEOUT;
+  }
+}
@@ -0,0 +1,73 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { Currency, OrderCurrency } from '../interfaces/currency.interface';
+import { ConfigService } from './config.service';
+import { LoggerService } from './logger.service';
+import { BASE_CURRENCY, findCurrency, formatMoney, resolveCurrencies } from '../../../../shared/currency';
+
+// localStorage key of the customer's display currency
+const CURRENCY_STORAGE_KEY = 'currency';
+
+/**
+ * Currency Service
+ * The display currency picked in the shell, and formatting of base-currency (USD) amounts in it.
+ * Only presentation changes: prices, carts and orders stay in USD (see shared/currency.ts).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CurrencyService {
+  private readonly _selectedCode = signal<string | null>(readStoredCode());
+
+  /** Currencies the customer can pick from (AppConfig.currencies or the defaults) */
+  readonly currencies = computed(() => resolveCurrencies(this.configService.config()?.currencies));
+
+  /** Current display currency: the customer's pick, else the configured default, else USD */
+  readonly currency = computed<Currency>(() => {
+    const currencies = this.currencies();
+    return findCurrency(this._selectedCode(), currencies)
+      ?? findCurrency(this.configService.config()?.defaultCurrency, currencies)
+      ?? BASE_CURRENCY;
+  });
+
+  constructor(
+    private configService: ConfigService,
+    private logger: LoggerService
+  ) {}
+
+  /**
+   * Switch the display currency (remembered across restarts)
+   * @param code Code of one of `currencies()`
+   */
+  select(code: string): void {
+    const currency = findCurrency(code, this.currencies());
+    if (!currency) {
+      this.logger.warn('💱 [CURRENCY]', 'Ignoring unknown currency:', code);
+      return;
+    }
+
+    this.logger.log('💱 [CURRENCY]', 'Display currency:', currency.code);
+    this._selectedCode.set(currency.code);
+    try {
+      localStorage.setItem(CURRENCY_STORAGE_KEY, currency.code);
+    } catch (error) {
+      this.logger.warn('💱 [CURRENCY]', 'Failed to remember display currency:', String(error));
+    }
+  }
+
+  /**
+   * Format a base-currency amount
+   * @param currency Currency to show it in (default: the display currency); pass an order's
+   *                 recorded currency to show the order as it was placed
+   */
+  format(amount: number, currency: OrderCurrency = this.currency()): string {
+    return formatMoney(amount, currency);
+  }
+}
+
+function readStoredCode(): string | null {
+  try {
+    return localStorage.getItem(CURRENCY_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,95 @@
+import { TestBed } from '@angular/core/testing';
+import { computed, signal } from '@angular/core';
+import { of, throwError } from 'rxjs';
+import { CustomerProfileService } from './customer-profile.service';
+import { DataProfileService } from './data-profile.service';
+import { VaultService } from './vault.service';
+import { IDataApi } from '../interfaces/idata-api.interface';
+import { CustomerProfile } from '../interfaces/customer-profile.interface';
+import { VaultError } from '../../../../shared/ipc-errors';
+
+describe('CustomerProfileService', () => {
+  const activeProfile = signal('guest');
+  const locked = signal(false);
+  let dataApi: jasmine.SpyObj<IDataApi>;
+
+  const profile: CustomerProfile = {
+    contact: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com' },
+    addresses: [{
+      id: 'ADR-1',
+      label: 'Home',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      address: { street: '1 Main St', city: 'Albany', state: 'NY', zipCode: '12207', country: 'United States' }
+    }],
+    defaultBillingId: 'ADR-1',
+    defaultShippingId: null
+  };
+
+  beforeEach(() => {
+    activeProfile.set('guest');
+    locked.set(false);
+    dataApi = jasmine.createSpyObj<IDataApi>('IDataApi', ['getCustomerProfile', 'saveAddress']);
+    dataApi.getCustomerProfile.and.returnValue(of(profile));
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: IDataApi, useValue: dataApi },
+        { provide: DataProfileService, useValue: { activeProfile: activeProfile.asReadonly() } },
+        { provide: VaultService, useValue: { locked: computed(() => locked()) } }
+      ]
+    });
+  });
+
+  async function create(): Promise<CustomerProfileService> {
+    const service = TestBed.inject(CustomerProfileService);
+    TestBed.tick();
+    await service.load();
+    return service;
+  }
+
+  it('should load the profile once and expose its default addresses', async () => {
+    const service = await create();
+    await service.load();
+
+    expect(dataApi.getCustomerProfile).toHaveBeenCalledTimes(1);
+    expect(service.defaultBilling()?.label).toBe('Home');
+    expect(service.defaultShipping()).toBeUndefined();
+  });
+
+  it('should reload the profile for another data profile', async () => {
+    const service = await create();
+
+    activeProfile.set('user-ada');
+    TestBed.tick();
+    await service.load();
+
+    expect(dataApi.getCustomerProfile).toHaveBeenCalledTimes(2);
+  });
+
+  it('should load again once a locked vault is unlocked', async () => {
+    spyOn(console, 'error');
+    locked.set(true);
+    dataApi.getCustomerProfile.and.returnValue(throwError(() => new VaultError('locked')));
+    const service = await create();
+    expect(service.addresses()).toEqual([]);
+    expect(service.error()).not.toBeNull();
+
+    dataApi.getCustomerProfile.and.returnValue(of(profile));
+    locked.set(false);
+    TestBed.tick();
+    await service.load();
+
+    expect(service.addresses()).toEqual(profile.addresses);
+    expect(service.error()).toBeNull();
+  });
+
+  it('should show the profile returned by a change', async () => {
+    const service = await create();
+    const updated = { ...profile, defaultShippingId: 'ADR-1' };
+    dataApi.saveAddress.and.returnValue(of(updated));
+
+    await service.saveAddress({ ...profile.addresses[0] });
+
+    expect(service.defaultShipping()?.id).toBe('ADR-1');
+  });
+});
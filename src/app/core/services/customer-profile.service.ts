@@ -0,0 +1,123 @@
+import { Injectable, computed, effect, signal, untracked } from '@angular/core';
+import { Observable, firstValueFrom } from 'rxjs';
+import {
+  AddressUse,
+  CustomerContact,
+  CustomerProfile,
+  SavedAddressInput
+} from '../interfaces/customer-profile.interface';
+import { IDataApi } from '../interfaces/idata-api.interface';
+import { DataProfileService } from './data-profile.service';
+import { VaultService } from './vault.service';
+import { LoggerService } from './logger.service';
+import { EMPTY_CUSTOMER_PROFILE, defaultAddress } from '../../../../shared/customer-profiles';
+
+/**
+ * Customer Profile Service
+ * The current customer's contact details and address book (kept per data profile, so they
+ * follow AuthService.currentUser). Used by the profile page and to prefill checkout.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CustomerProfileService {
+  private readonly _profile = signal<CustomerProfile>(EMPTY_CUSTOMER_PROFILE);
+  private readonly _loading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+  private loaded: Promise<CustomerProfile> | null = null;
+  private generation = 0;
+
+  readonly profile = this._profile.asReadonly();
+  readonly loading = this._loading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  readonly addresses = computed(() => this._profile().addresses);
+  readonly defaultBilling = computed(() => defaultAddress(this._profile(), 'billing'));
+  readonly defaultShipping = computed(() => defaultAddress(this._profile(), 'shipping'));
+
+  constructor(
+    private dataApi: IDataApi,
+    private logger: LoggerService,
+    dataProfiles: DataProfileService,
+    vault: VaultService
+  ) {
+    // Each user has their own address book; reload it when someone else logs in
+    effect(() => {
+      dataProfiles.activeProfile();
+      untracked(() => {
+        this.generation++;
+        this._profile.set(EMPTY_CUSTOMER_PROFILE);
+        this.loaded = null;
+        this.load();
+      });
+    });
+
+    // A locked vault refuses the read; load again once it is unlocked
+    let locked = vault.locked();
+    effect(() => {
+      const nowLocked = vault.locked();
+      if (locked && !nowLocked) {
+        untracked(() => this.load(true));
+      }
+      locked = nowLocked;
+    });
+  }
+
+  /**
+   * Load the profile (once per data profile unless forced)
+   * @returns The profile; an empty one if it could not be read
+   */
+  load(force = false): Promise<CustomerProfile> {
+    if (!this.loaded || force) {
+      this.loaded = this.fetch();
+    }
+    return this.loaded;
+  }
+
+  updateContact(contact: CustomerContact): Promise<CustomerProfile> {
+    return this.apply(this.dataApi.updateCustomerContact(contact));
+  }
+
+  /**
+   * Add or edit an address book entry
+   * @throws IpcValidationError when the address does not match its country's format
+   */
+  saveAddress(address: SavedAddressInput): Promise<CustomerProfile> {
+    return this.apply(this.dataApi.saveAddress(address));
+  }
+
+  deleteAddress(addressId: string): Promise<CustomerProfile> {
+    return this.apply(this.dataApi.deleteAddress(addressId));
+  }
+
+  setDefaultAddress(addressId: string, use: AddressUse): Promise<CustomerProfile> {
+    return this.apply(this.dataApi.setDefaultAddress(addressId, use));
+  }
+
+  private async fetch(): Promise<CustomerProfile> {
+    const generation = this.generation;
+    this._loading.set(true);
+    this._error.set(null);
+    try {
+      const profile = await firstValueFrom(this.dataApi.getCustomerProfile());
+      // Ignore a profile that arrives after another user logged in
+      if (generation === this.generation) {
+        this._profile.set(profile);
+      }
+      return profile;
+    } catch (error) {
+      this._error.set('Failed to load your saved addresses');
+      this.logger.error('👤 [CUSTOMER]', 'Failed to load customer profile:', String(error));
+      return EMPTY_CUSTOMER_PROFILE;
+    } finally {
+      this._loading.set(false);
+    }
+  }
+
+  private async apply(change: Observable<CustomerProfile>): Promise<CustomerProfile> {
+    const profile = await firstValueFrom(change);
+    this._profile.set(profile);
+    this.loaded = Promise.resolve(profile);
+    return profile;
+  }
+}
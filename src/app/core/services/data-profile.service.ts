@@ -0,0 +1,72 @@
+import { Injectable, effect, signal, untracked } from '@angular/core';
+import { AuthService } from './auth.service';
+import { VaultService } from './vault.service';
+import { LoggerService } from './logger.service';
+import { GUEST_PROFILE, profileIdFor, profileUserId } from '../../../../shared/data-profiles';
+
+/**
+ * Data Profile Service
+ * Keeps persisted cart and order data separate per logged-in user (plus a guest profile).
+ * Follows AuthService.currentUser: in Electron the main process is switched to the user's
+ * data directory (and vault) before the new profile is published to the rest of the app.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DataProfileService {
+  private readonly _activeProfile = signal<string>(GUEST_PROFILE);
+  private activation = 0;
+  private readonly switchTasks: (() => Promise<void>)[] = [];
+
+  readonly activeProfile = this._activeProfile.asReadonly();
+
+  constructor(
+    private authService: AuthService,
+    private vault: VaultService,
+    private logger: LoggerService
+  ) {
+    effect(() => {
+      const userId = profileUserId(this.authService.currentUser());
+      untracked(() => this.activate(userId));
+    });
+  }
+
+  /**
+   * Run a task whenever the active profile is about to change, while its data is still served
+   * (e.g. writing a pending change to the profile it belongs to)
+   */
+  beforeSwitch(task: () => Promise<void>): void {
+    this.switchTasks.push(task);
+  }
+
+  private async activate(userId: string | null): Promise<void> {
+    const activation = ++this.activation;
+    let profileId = profileIdFor(userId);
+
+    if (profileId !== this._activeProfile()) {
+      await Promise.all(this.switchTasks.map(task => task()));
+    }
+
+    if (typeof window !== 'undefined' && window.electronAPI) {
+      try {
+        profileId = (await window.electronAPI.profile.activate(userId)).id;
+        // Each profile has its own vault; prompts for its passphrase if encrypted
+        await this.vault.refresh();
+      } catch (error) {
+        // The main process still serves the previous profile; keep the app consistent with it
+        this.logger.error('👤 [DATA PROFILE]', 'Failed to activate profile:', String(error));
+        return;
+      }
+    }
+
+    // A newer user change won the race
+    if (activation !== this.activation) {
+      return;
+    }
+
+    if (profileId !== this._activeProfile()) {
+      this.logger.info('👤 [DATA PROFILE]', `Active profile: ${profileId}`);
+      this._activeProfile.set(profileId);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { TestBed } from '@angular/core/testing';
+import { DocumentService } from './document.service';
+import { ElectronAPI } from '../../../../shared/ipc-contract';
+import { VaultError } from '../../../../shared/ipc-errors';
+
+describe('DocumentService', () => {
+  let documentApi: jasmine.SpyObj<ElectronAPI['document']>;
+
+  function create(desktop: boolean): DocumentService {
+    documentApi = jasmine.createSpyObj<ElectronAPI['document']>('document', ['saveAsPdf', 'saveFile']);
+    if (desktop) {
+      window.electronAPI = { document: documentApi } as Partial<ElectronAPI> as ElectronAPI;
+    }
+    return TestBed.inject(DocumentService);
+  }
+
+  afterEach(() => {
+    delete (window as Partial<Window>).electronAPI;
+  });
+
+  it('should only offer native dialogs in Electron', () => {
+    expect(create(false).nativeDialogs).toBeFalse();
+  });
+
+  it('should save the page as a PDF through the main process', async () => {
+    const service = create(true);
+    documentApi.saveAsPdf.and.resolveTo('/home/ada/ORD-1.pdf');
+
+    expect(service.nativeDialogs).toBeTrue();
+    expect(await service.saveAsPdf('ORD-1.pdf')).toBe('/home/ada/ORD-1.pdf');
+    expect(documentApi.saveAsPdf).toHaveBeenCalledOnceWith('ORD-1.pdf');
+  });
+
+  it('should resolve to null when the save dialog is cancelled', async () => {
+    const service = create(true);
+    documentApi.saveAsPdf.and.resolveTo(null);
+
+    expect(await service.saveAsPdf('ORD-1.pdf')).toBeNull();
+  });
+
+  it('should rethrow structured errors from the main process', async () => {
+    const service = create(true);
+    documentApi.saveAsPdf.and.rejectWith(new Error(`Error invoking remote method: [VAULT_ERROR]${JSON.stringify({ reason: 'locked' })}`));
+
+    await expectAsync(service.saveAsPdf('ORD-1.pdf')).toBeRejectedWith(jasmine.any(VaultError));
+  });
+
+  it('should open the print dialog', () => {
+    const service = create(false);
+    spyOn(window, 'print');
+
+    service.print();
+
+    expect(window.print).toHaveBeenCalled();
+  });
+});
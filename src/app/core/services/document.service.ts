@@ -0,0 +1,73 @@
+import { Injectable } from '@angular/core';
+import { ExportFile } from '../interfaces/document.interface';
+import { LoggerService } from './logger.service';
+import { fromTransportError } from '../../../../shared/ipc-errors';
+
+/**
+ * Document Service
+ * Printing and saving of the current page (e.g. order receipts) and of generated files (e.g. order exports).
+ * Electron saves through a native save dialog; browsers download generated files and offer PDF through the print dialog.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DocumentService {
+  // Electron only: native save dialogs and Save as PDF
+  readonly nativeDialogs = typeof window !== 'undefined' && typeof window.electronAPI !== 'undefined';
+
+  constructor(private logger: LoggerService) {}
+
+  /**
+   * Open the print dialog for the current page
+   */
+  print(): void {
+    window.print();
+  }
+
+  /**
+   * Save the current page as a PDF at a location the user chooses
+   * @param fileName Suggested file name
+   * @returns The saved file's path, or null when the user cancelled
+   */
+  async saveAsPdf(fileName: string): Promise<string | null> {
+    this.logger.log('📄 [DOCUMENT]', `Saving ${fileName} as PDF`);
+    try {
+      return await window.electronAPI.document.saveAsPdf(fileName);
+    } catch (error) {
+      const structured = fromTransportError(error);
+      this.logger.error('📄 [DOCUMENT]', 'Failed to save PDF:', structured?.message ?? String(error));
+      throw structured ?? error;
+    }
+  }
+
+  /**
+   * Save a generated file: through a native save dialog in Electron, as a download in the browser
+   * @returns Where the file went (path in Electron, file name in the browser), or null when the user cancelled
+   */
+  async saveFile(file: ExportFile): Promise<string | null> {
+    this.logger.log('📄 [DOCUMENT]', `Saving ${file.fileName}`);
+
+    if (!this.nativeDialogs) {
+      this.download(file);
+      return file.fileName;
+    }
+
+    try {
+      return await window.electronAPI.document.saveFile(file);
+    } catch (error) {
+      const structured = fromTransportError(error);
+      this.logger.error('📄 [DOCUMENT]', 'Failed to save file:', structured?.message ?? String(error));
+      throw structured ?? error;
+    }
+  }
+
+  private download(file: ExportFile): void {
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    link.click();
+    // Revoke after the click has been handled, or some browsers cancel the download
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+}
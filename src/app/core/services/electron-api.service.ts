@@ -1,10 +1,13 @@
-import { Injectable } from '@angular/core';
+import { Injectable, computed, signal } from '@angular/core';
 import { Observable, from, throwError } from 'rxjs';
-import { catchError } from 'rxjs/operators';
-import { Product } from '../interfaces/product.interface';
-import { Cart, Order, OrderRequest } from '../interfaces/cart.interface';
+import { catchError, map } from 'rxjs/operators';
+import { CatalogResponse, CatalogStatus, Product } from '../interfaces/product.interface';
+import { Cart, Order, OrderRequest, OrderStatus, OrderStatusDetails } from '../interfaces/cart.interface';
 import { IDataApi } from '../interfaces/idata-api.interface';
+import { CheckoutDraft } from '../interfaces/checkout-draft.interface';
+import { AddressUse, CustomerContact, CustomerProfile, SavedAddressInput } from '../interfaces/customer-profile.interface';
 import { LoggerService } from './logger.service';
+import { IpcValidationError, PriceDiscrepancyError, fromTransportError } from '../../../../shared/ipc-errors';
 
 /**
  * Electron API Service (Desktop Mode)
@@ -14,6 +17,12 @@ import { LoggerService } from './logger.service';
   providedIn: 'root'
 })
 export class ElectronApiService extends IDataApi {
+  // Cache metadata of the most recent catalog response
+  private readonly _catalogStatus = signal<CatalogStatus | null>(null);
+
+  override readonly catalogStatus = this._catalogStatus.asReadonly();
+  readonly servedFromCache = computed(() => this._catalogStatus()?.fromCache ?? false);
+
   constructor(private logger: LoggerService) {
     super();
     
@@ -30,9 +39,9 @@ export class ElectronApiService extends IDataApi {
    */
   private isElectronAvailable(): boolean {
     return typeof window !== 'undefined' && 
-           typeof (window as any).electronAPI !== 'undefined' &&
-           (typeof (window as any).electronAPI.products !== 'undefined' ||
-            typeof (window as any).electronAPI.cart !== 'undefined');
+           typeof window.electronAPI !== 'undefined' &&
+           (typeof window.electronAPI.products !== 'undefined' ||
+            typeof window.electronAPI.cart !== 'undefined');
   }
 
   /**
@@ -44,8 +53,9 @@ export class ElectronApiService extends IDataApi {
       return throwError(() => new Error('Electron API not available'));
     }
 
-    return from((window as any).electronAPI.products.getAll() as Promise<Product[]>).pipe(
-      catchError(this.handleError<Product[]>)
+    return from(window.electronAPI.products.getAll()).pipe(
+      map(response => this.unwrapCatalog(response)),
+      catchError(error => this.handleError<Product[]>(error))
     );
   }
 
@@ -53,14 +63,15 @@ export class ElectronApiService extends IDataApi {
    * Get a single product by ID via Electron IPC
    * @param id Product ID
    */
-  getProductById(id: number): Observable<Product> {
+  getProductById(id: number): Observable<Product | null> {
     this.logger.log('⚡ [ELECTRON IPC]', `Fetching product ${id} via IPC channel`);
     if (!this.isElectronAvailable()) {
       return throwError(() => new Error('Electron API not available'));
     }
 
-    return from((window as any).electronAPI.products.getById(id) as Promise<Product>).pipe(
-      catchError(this.handleError<Product>)
+    return from(window.electronAPI.products.getById(id)).pipe(
+      map(response => this.unwrapCatalog(response)),
+      catchError(error => this.handleError<Product | null>(error))
     );
   }
 
@@ -73,8 +84,9 @@ export class ElectronApiService extends IDataApi {
       return throwError(() => new Error('Electron API not available'));
     }
 
-    return from((window as any).electronAPI.products.getCategories() as Promise<string[]>).pipe(
-      catchError(this.handleError<string[]>)
+    return from(window.electronAPI.products.getCategories()).pipe(
+      map(response => this.unwrapCatalog(response)),
+      catchError(error => this.handleError<string[]>(error))
     );
   }
 
@@ -88,8 +100,9 @@ export class ElectronApiService extends IDataApi {
       return throwError(() => new Error('Electron API not available'));
     }
 
-    return from((window as any).electronAPI.products.getByCategory(category) as Promise<Product[]>).pipe(
-      catchError(this.handleError<Product[]>)
+    return from(window.electronAPI.products.getByCategory(category)).pipe(
+      map(response => this.unwrapCatalog(response)),
+      catchError(error => this.handleError<Product[]>(error))
     );
   }
 
@@ -102,8 +115,8 @@ export class ElectronApiService extends IDataApi {
       return throwError(() => new Error('Electron API not available'));
     }
 
-    return from((window as any).electronAPI.cart.save(cart) as Promise<boolean>).pipe(
-      catchError(this.handleError<boolean>)
+    return from(window.electronAPI.cart.save(cart)).pipe(
+      catchError(error => this.handleError<boolean>(error))
     );
   }
 
@@ -116,8 +129,120 @@ export class ElectronApiService extends IDataApi {
       return throwError(() => new Error('Electron API not available'));
     }
 
-    return from((window as any).electronAPI.cart.load() as Promise<Cart | null>).pipe(
-      catchError(this.handleError<Cart | null>)
+    return from(window.electronAPI.cart.load()).pipe(
+      catchError(error => this.handleError<Cart | null>(error))
+    );
+  }
+
+  /**
+   * Save checkout draft via Electron IPC
+   */
+  saveCheckoutDraft(draft: CheckoutDraft): Observable<boolean> {
+    this.logger.log('⚡ [ELECTRON IPC]', 'Saving checkout draft via IPC channel');
+    if (!this.isElectronAvailable()) {
+      return throwError(() => new Error('Electron API not available'));
+    }
+
+    return from(window.electronAPI.checkout.saveDraft(draft)).pipe(
+      catchError(error => this.handleError<boolean>(error))
+    );
+  }
+
+  /**
+   * Load checkout draft via Electron IPC
+   */
+  loadCheckoutDraft(cartId: string): Observable<CheckoutDraft | null> {
+    this.logger.log('⚡ [ELECTRON IPC]', 'Loading checkout draft via IPC channel');
+    if (!this.isElectronAvailable()) {
+      return throwError(() => new Error('Electron API not available'));
+    }
+
+    return from(window.electronAPI.checkout.loadDraft(cartId)).pipe(
+      catchError(error => this.handleError<CheckoutDraft | null>(error))
+    );
+  }
+
+  /**
+   * Clear checkout draft via Electron IPC
+   */
+  clearCheckoutDraft(): Observable<boolean> {
+    this.logger.log('⚡ [ELECTRON IPC]', 'Clearing checkout draft via IPC channel');
+    if (!this.isElectronAvailable()) {
+      return throwError(() => new Error('Electron API not available'));
+    }
+
+    return from(window.electronAPI.checkout.clearDraft()).pipe(
+      catchError(error => this.handleError<boolean>(error))
+    );
+  }
+
+  /**
+   * Get customer profile via Electron IPC
+   */
+  getCustomerProfile(): Observable<CustomerProfile> {
+    this.logger.log('⚡ [ELECTRON IPC]', 'Loading customer profile via IPC channel');
+    if (!this.isElectronAvailable()) {
+      return throwError(() => new Error('Electron API not available'));
+    }
+
+    return from(window.electronAPI.customer.getProfile()).pipe(
+      catchError(error => this.handleError<CustomerProfile>(error))
+    );
+  }
+
+  /**
+   * Update customer contact details via Electron IPC
+   */
+  updateCustomerContact(contact: CustomerContact): Observable<CustomerProfile> {
+    this.logger.log('⚡ [ELECTRON IPC]', 'Updating customer contact via IPC channel');
+    if (!this.isElectronAvailable()) {
+      return throwError(() => new Error('Electron API not available'));
+    }
+
+    return from(window.electronAPI.customer.updateContact(contact)).pipe(
+      catchError(error => this.handleError<CustomerProfile>(error))
+    );
+  }
+
+  /**
+   * Save an address book entry via Electron IPC
+   */
+  saveAddress(address: SavedAddressInput): Observable<CustomerProfile> {
+    this.logger.log('⚡ [ELECTRON IPC]', 'Saving address via IPC channel');
+    if (!this.isElectronAvailable()) {
+      return throwError(() => new Error('Electron API not available'));
+    }
+
+    return from(window.electronAPI.customer.saveAddress(address)).pipe(
+      catchError(error => this.handleError<CustomerProfile>(error))
+    );
+  }
+
+  /**
+   * Delete an address book entry via Electron IPC
+   */
+  deleteAddress(addressId: string): Observable<CustomerProfile> {
+    this.logger.log('⚡ [ELECTRON IPC]', 'Deleting address via IPC channel');
+    if (!this.isElectronAvailable()) {
+      return throwError(() => new Error('Electron API not available'));
+    }
+
+    return from(window.electronAPI.customer.deleteAddress(addressId)).pipe(
+      catchError(error => this.handleError<CustomerProfile>(error))
+    );
+  }
+
+  /**
+   * Set the default billing or shipping address via Electron IPC
+   */
+  setDefaultAddress(addressId: string, use: AddressUse): Observable<CustomerProfile> {
+    this.logger.log('⚡ [ELECTRON IPC]', 'Setting default address via IPC channel');
+    if (!this.isElectronAvailable()) {
+      return throwError(() => new Error('Electron API not available'));
+    }
+
+    return from(window.electronAPI.customer.setDefaultAddress(addressId, use)).pipe(
+      catchError(error => this.handleError<CustomerProfile>(error))
     );
   }
 
@@ -130,8 +255,8 @@ export class ElectronApiService extends IDataApi {
       return throwError(() => new Error('Electron API not available'));
     }
 
-    return from((window as any).electronAPI.cart.submitOrder(orderRequest) as Promise<Order>).pipe(
-      catchError(this.handleError<Order>)
+    return from(window.electronAPI.cart.submitOrder(orderRequest)).pipe(
+      catchError(error => this.handleError<Order>(error))
     );
   }
 
@@ -144,8 +269,8 @@ export class ElectronApiService extends IDataApi {
       return throwError(() => new Error('Electron API not available'));
     }
 
-    return from((window as any).electronAPI.cart.getOrder(orderId) as Promise<Order>).pipe(
-      catchError(this.handleError<Order>)
+    return from(window.electronAPI.cart.getOrder(orderId)).pipe(
+      catchError(error => this.handleError<Order>(error))
     );
   }
 
@@ -158,15 +283,64 @@ export class ElectronApiService extends IDataApi {
       return throwError(() => new Error('Electron API not available'));
     }
 
-    return from((window as any).electronAPI.cart.getOrders() as Promise<Order[]>).pipe(
-      catchError(this.handleError<Order[]>)
+    return from(window.electronAPI.cart.getOrders()).pipe(
+      catchError(error => this.handleError<Order[]>(error))
     );
   }
 
+  /**
+   * Update order status via Electron IPC
+   */
+  updateOrderStatus(orderId: string, status: OrderStatus, details?: OrderStatusDetails): Observable<Order> {
+    this.logger.log('⚡ [ELECTRON IPC]', `Updating order ${orderId} to ${status} via IPC channel`);
+    if (!this.isElectronAvailable()) {
+      return throwError(() => new Error('Electron API not available'));
+    }
+
+    return from(window.electronAPI.cart.updateOrderStatus(orderId, status, details)).pipe(
+      catchError(error => this.handleError<Order>(error))
+    );
+  }
+
+  /**
+   * Cancel order via Electron IPC
+   */
+  cancelOrder(orderId: string, reason?: string): Observable<Order> {
+    this.logger.log('⚡ [ELECTRON IPC]', `Cancelling order ${orderId} via IPC channel`);
+    if (!this.isElectronAvailable()) {
+      return throwError(() => new Error('Electron API not available'));
+    }
+
+    return from(window.electronAPI.cart.cancelOrder(orderId, reason)).pipe(
+      catchError(error => this.handleError<Order>(error))
+    );
+  }
+
+  /**
+   * Record cache metadata from a catalog response and return its data
+   */
+  private unwrapCatalog<T>({ data, ...status }: CatalogResponse<T>): T {
+    this._catalogStatus.set(status);
+    if (status.fromCache) {
+      this.logger.log('⚡ [ELECTRON IPC]', `Served from catalog cache${status.stale ? ' (stale, revalidating)' : ''}`, status.fetchedAt);
+    }
+    return data;
+  }
+
   /**
    * Handle errors from Electron IPC
    */
   private handleError<T>(error: any): Observable<T> {
+    // Rejections from the main process may carry structured details (validation issues, price report, vault, order status)
+    const structuredError = fromTransportError(error);
+    if (structuredError) {
+      this.logger.error('⚡ [ELECTRON IPC]', 'Request rejected:',
+        structuredError instanceof IpcValidationError ? structuredError.issues
+          : structuredError instanceof PriceDiscrepancyError ? structuredError.report
+          : structuredError.message);
+      return throwError(() => structuredError);
+    }
+
     const errorMessage = error?.message || 'Electron IPC communication error';
     this.logger.error('⚡ [ELECTRON IPC]', 'Error:', errorMessage, error);
     console.error('ElectronApiService error:', errorMessage);
@@ -0,0 +1,60 @@
+import { signal } from '@angular/core';
+import { firstValueFrom, of } from 'rxjs';
+import { FakerApiService } from './faker-api.service';
+import { LoggerService } from './logger.service';
+import { IDataApi } from '../interfaces/idata-api.interface';
+import { CatalogStatus } from '../interfaces/product.interface';
+import { Cart } from '../interfaces/cart.interface';
+import { generateFakerCatalog } from '../../../../shared/faker-catalog';
+
+describe('FakerApiService', () => {
+  let persistence: jasmine.SpyObj<IDataApi>;
+
+  beforeEach(() => {
+    persistence = jasmine.createSpyObj<IDataApi>('IDataApi', ['saveCart', 'loadCart', 'getOrders'], { catalogStatus: null });
+  });
+
+  function create(seed = 42): FakerApiService {
+    return new FakerApiService(new LoggerService(), persistence, { seed, productCount: 10, categoryCount: 3 });
+  }
+
+  it('should serve the seeded catalog', async () => {
+    const expected = generateFakerCatalog({ seed: 42, productCount: 10, categoryCount: 3 });
+
+    expect(await firstValueFrom(create().getAllProducts())).toEqual(expected.products);
+    expect(await firstValueFrom(create().getCategories())).toEqual(expected.categories);
+  });
+
+  it('should find products by id and category', async () => {
+    const api = create();
+    const products = await firstValueFrom(api.getAllProducts());
+    const category = products[0].category;
+
+    expect(await firstValueFrom(api.getProductById(products[0].id))).toEqual(products[0]);
+    expect(await firstValueFrom(api.getProductsByCategory(category)))
+      .toEqual(products.filter(product => product.category === category));
+  });
+
+  it('should return null for an unknown product', async () => {
+    expect(await firstValueFrom(create().getProductById(999))).toBeNull();
+  });
+
+  it('should delegate persistence to the wrapped data API', async () => {
+    const cart: Cart = { items: [], totalItems: 0, totalAmount: 0, createdAt: new Date(), updatedAt: new Date() };
+    persistence.saveCart.and.returnValue(of(true));
+    persistence.getOrders.and.returnValue(of([]));
+
+    const api = create();
+
+    expect(await firstValueFrom(api.saveCart(cart))).toBeTrue();
+    expect(await firstValueFrom(api.getOrders())).toEqual([]);
+    expect(persistence.saveCart).toHaveBeenCalledOnceWith(cart);
+  });
+
+  it('should report the wrapped data API\'s catalog status', () => {
+    const status = signal<CatalogStatus | null>({ fromCache: true, stale: false, fetchedAt: '2026-01-01T00:00:00.000Z' });
+    persistence = jasmine.createSpyObj<IDataApi>('IDataApi', ['saveCart'], { catalogStatus: status.asReadonly() });
+
+    expect(create().catalogStatus?.()).toEqual(status());
+  });
+});
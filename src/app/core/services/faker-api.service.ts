@@ -0,0 +1,141 @@
+import { Signal } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { CatalogStatus, Product } from '../interfaces/product.interface';
+import { Cart, Order, OrderRequest, OrderStatus, OrderStatusDetails } from '../interfaces/cart.interface';
+import { FakerCatalogConfig } from '../interfaces/app-config.interface';
+import { IDataApi } from '../interfaces/idata-api.interface';
+import { CheckoutDraft } from '../interfaces/checkout-draft.interface';
+import { AddressUse, CustomerContact, CustomerProfile, SavedAddressInput } from '../interfaces/customer-profile.interface';
+import { LoggerService } from './logger.service';
+import { DEFAULT_FAKER_CATALOG, FakerCatalog, generateFakerCatalog } from '../../../../shared/faker-catalog';
+
+/**
+ * Faker API Service (Local Mode)
+ * Implements IDataApi with a seeded, reproducible catalog generated in the browser.
+ * Catalog calls never touch the network; cart and order persistence is delegated to
+ * the environment's regular data API (Electron IPC or localStorage).
+ * Created by the IDataApi factory in app.config.ts when AppConfig.dataSource is 'faker'.
+ */
+export class FakerApiService extends IDataApi {
+  private readonly settings: Required<FakerCatalogConfig>;
+  private catalog: FakerCatalog | null = null;
+
+  // Whatever the wrapped API reports (e.g. the desktop catalog cache)
+  override readonly catalogStatus: Signal<CatalogStatus | null> | null;
+
+  constructor(
+    private logger: LoggerService,
+    private persistence: IDataApi,
+    settings: FakerCatalogConfig = {}
+  ) {
+    super();
+    this.catalogStatus = persistence.catalogStatus;
+    this.settings = { ...DEFAULT_FAKER_CATALOG, ...settings };
+    this.logger.info('🎲', `FakerApiService initialized - Local catalog (seed ${this.settings.seed}, ${this.settings.productCount} products)`);
+  }
+
+  /**
+   * Get all generated products
+   */
+  getAllProducts(): Observable<Product[]> {
+    this.logger.log('🎲 [FAKER API]', 'Serving all products from local catalog');
+    return of(this.getCatalog().products);
+  }
+
+  /**
+   * Get a single generated product by ID
+   * @param id Product ID
+   */
+  getProductById(id: number): Observable<Product | null> {
+    this.logger.log('🎲 [FAKER API]', `Serving product ${id} from local catalog`);
+    return of(this.getCatalog().products.find(p => p.id === id) ?? null);
+  }
+
+  /**
+   * Get all generated categories
+   */
+  getCategories(): Observable<string[]> {
+    this.logger.log('🎲 [FAKER API]', 'Serving categories from local catalog');
+    return of(this.getCatalog().categories);
+  }
+
+  /**
+   * Get generated products in a category
+   * @param category Category name
+   */
+  getProductsByCategory(category: string): Observable<Product[]> {
+    this.logger.log('🎲 [FAKER API]', `Serving products in category '${category}' from local catalog`);
+    return of(this.getCatalog().products.filter(p => p.category === category));
+  }
+
+  saveCart(cart: Cart): Observable<boolean> {
+    return this.persistence.saveCart(cart);
+  }
+
+  loadCart(): Observable<Cart | null> {
+    return this.persistence.loadCart();
+  }
+
+  saveCheckoutDraft(draft: CheckoutDraft): Observable<boolean> {
+    return this.persistence.saveCheckoutDraft(draft);
+  }
+
+  loadCheckoutDraft(cartId: string): Observable<CheckoutDraft | null> {
+    return this.persistence.loadCheckoutDraft(cartId);
+  }
+
+  clearCheckoutDraft(): Observable<boolean> {
+    return this.persistence.clearCheckoutDraft();
+  }
+
+  getCustomerProfile(): Observable<CustomerProfile> {
+    return this.persistence.getCustomerProfile();
+  }
+
+  updateCustomerContact(contact: CustomerContact): Observable<CustomerProfile> {
+    return this.persistence.updateCustomerContact(contact);
+  }
+
+  saveAddress(address: SavedAddressInput): Observable<CustomerProfile> {
+    return this.persistence.saveAddress(address);
+  }
+
+  deleteAddress(addressId: string): Observable<CustomerProfile> {
+    return this.persistence.deleteAddress(addressId);
+  }
+
+  setDefaultAddress(addressId: string, use: AddressUse): Observable<CustomerProfile> {
+    return this.persistence.setDefaultAddress(addressId, use);
+  }
+
+  submitOrder(orderRequest: OrderRequest): Observable<Order> {
+    return this.persistence.submitOrder(orderRequest);
+  }
+
+  getOrder(orderId: string): Observable<Order> {
+    return this.persistence.getOrder(orderId);
+  }
+
+  getOrders(): Observable<Order[]> {
+    return this.persistence.getOrders();
+  }
+
+  updateOrderStatus(orderId: string, status: OrderStatus, details?: OrderStatusDetails): Observable<Order> {
+    return this.persistence.updateOrderStatus(orderId, status, details);
+  }
+
+  cancelOrder(orderId: string, reason?: string): Observable<Order> {
+    return this.persistence.cancelOrder(orderId, reason);
+  }
+
+  /**
+   * Generate the catalog on first use; the seed makes every run identical
+   */
+  private getCatalog(): FakerCatalog {
+    if (!this.catalog) {
+      this.catalog = generateFakerCatalog(this.settings);
+      this.logger.info('🎲 [FAKER API]', `Generated ${this.catalog.products.length} products in ${this.catalog.categories.length} categories`);
+    }
+    return this.catalog;
+  }
+}
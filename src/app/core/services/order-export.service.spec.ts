@@ -0,0 +1,130 @@
+import { of } from 'rxjs';
+import { OrderExportService } from './order-export.service';
+import { DocumentService } from './document.service';
+import { LoggerService } from './logger.service';
+import { IDataApi } from '../interfaces/idata-api.interface';
+import { CartItem, Order } from '../interfaces/cart.interface';
+import { ExportFile } from '../interfaces/document.interface';
+
+describe('OrderExportService', () => {
+  let dataApi: jasmine.SpyObj<IDataApi>;
+  let documents: jasmine.SpyObj<DocumentService>;
+  let service: OrderExportService;
+
+  function item(id: number, title: string, price: number, quantity: number): CartItem {
+    return {
+      product: { id, title, price, description: '', category: 'bags', image: '', rating: { rate: 4, count: 1 } },
+      quantity,
+      subtotal: price * quantity
+    };
+  }
+
+  function order(id: string, createdAt: Date, firstName = 'Ada'): Order {
+    const items = [item(1, 'Backpack, large', 20, 2), item(2, 'Jacket', 30, 1)];
+    const address = { street: '1 Main St', city: 'Albany', state: 'NY', zipCode: '12207', country: 'United States' };
+    return {
+      id,
+      cart: { items, totalItems: 3, totalAmount: 70, createdAt, updatedAt: createdAt },
+      billing: { firstName, lastName: 'Lovelace', email: 'ada@example.com', address },
+      shipping: { firstName, lastName: 'Lovelace', address, shippingMethod: 'standard' },
+      payment: { method: 'paypal', paypalEmail: 'ada@example.com' },
+      subtotal: 70,
+      shipping_cost: 0,
+      tax: 2.8,
+      total: 72.8,
+      status: 'pending',
+      statusHistory: [{ status: 'pending', at: createdAt }],
+      createdAt,
+      currency: { code: 'USD', rate: 1 }
+    };
+  }
+
+  beforeEach(() => {
+    dataApi = jasmine.createSpyObj<IDataApi>('IDataApi', ['getOrders']);
+    documents = jasmine.createSpyObj<DocumentService>('DocumentService', ['saveFile']);
+    service = new OrderExportService(dataApi, documents, new LoggerService());
+  });
+
+  function text({ content }: ExportFile): string {
+    return typeof content === 'string' ? content : new TextDecoder().decode(content);
+  }
+
+  function csvLines(file: ExportFile): string[] {
+    return text(file).replace(/^\uFEFF/, '').split('\r\n').filter(line => line);
+  }
+
+  it('should write one CSV row per order', () => {
+    const file = service.buildFile([order('ORD-1', new Date(2024, 2, 1))], { format: 'csv', rows: 'order' });
+    const [header, row] = csvLines(file);
+
+    expect(file.mimeType).toBe('text/csv;charset=utf-8');
+    expect(text(file).startsWith('\uFEFF')).toBeTrue();
+    expect(header.split(',').slice(0, 6)).toEqual(['Order ID', 'Placed At', 'Status', 'Customer', 'Email', 'Items']);
+    expect(row).toContain('ORD-1,');
+    expect(row).toContain(',70.00,0.00,,0.00,2.80,72.80,USD,1,paypal,');
+  });
+
+  it('should write one CSV row per line item and quote fields with commas', () => {
+    const file = service.buildFile([order('ORD-1', new Date(2024, 2, 1))], { format: 'csv', rows: 'line-item' });
+    const lines = csvLines(file);
+
+    expect(file.fileName).toMatch(/^orders-items-/);
+    expect(lines.length).toBe(3);
+    expect(lines[1]).toContain(',1,"Backpack, large",bags,2,20.00,40.00');
+  });
+
+  it('should keep customer text from running as a spreadsheet formula', () => {
+    const file = service.buildFile([order('ORD-1', new Date(2024, 2, 1), '=HYPERLINK("x")')], { format: 'csv', rows: 'order' });
+
+    expect(csvLines(file)[1]).toContain(`"'=HYPERLINK(""x"") Lovelace"`);
+  });
+
+  it('should export the orders as JSON', () => {
+    const orders = [order('ORD-1', new Date(2024, 2, 1))];
+    const file = service.buildFile(orders, { format: 'json', rows: 'order' });
+
+    expect(file.fileName).toMatch(/\.json$/);
+    expect(JSON.parse(text(file))).toEqual(JSON.parse(JSON.stringify(orders)));
+  });
+
+  it('should write typed and escaped cells to an Excel workbook', () => {
+    const file = service.buildFile([order('ORD-1', new Date(2024, 2, 1, 9, 30), 'Ada & <Co>')], { format: 'spreadsheet', rows: 'order' });
+
+    expect(file.fileName).toMatch(/\.xlsx$/);
+    expect(file.content).toBeInstanceOf(Uint8Array);
+    // Entries are stored uncompressed, so the parts can be read from the archive as is
+    const archive = text(file);
+    expect(archive.startsWith('PK\x03\x04')).toBeTrue();
+    expect(archive).toContain('xl/worksheets/sheet1.xml');
+    expect(archive).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Order ID</t></is></c>');
+    expect(archive).toContain('<c r="D2" t="inlineStr"><is><t xml:space="preserve">Ada &amp; &lt;Co&gt; Lovelace</t></is></c>');
+    // 2024-03-01 09:30 as a spreadsheet date serial
+    expect(archive).toContain('<c r="B2" s="2"><v>45352.39583333333</v></c>');
+    expect(archive).toContain('<c r="L2" s="3"><v>72.80</v></c>');
+  });
+
+  it('should export only the orders placed within the date range', async () => {
+    dataApi.getOrders.and.returnValue(of([
+      order('ORD-1', new Date(2024, 2, 1, 12)),
+      order('ORD-2', new Date(2024, 2, 5, 23, 59)),
+      order('ORD-3', new Date(2024, 2, 6, 0, 1))
+    ]));
+    documents.saveFile.and.resolveTo('/home/ada/orders.csv');
+
+    const result = await service.exportOrders({ format: 'json', rows: 'order', from: new Date(2024, 2, 2), to: new Date(2024, 2, 5) });
+
+    expect(result).toEqual({ count: 1, location: '/home/ada/orders.csv' });
+    const saved = documents.saveFile.calls.mostRecent().args[0];
+    expect(saved.fileName).toBe('orders-2024-03-02_to_2024-03-05.json');
+    expect(JSON.parse(text(saved)).map((entry: Order) => entry.id)).toEqual(['ORD-2']);
+  });
+
+  it('should not save a file when no orders are in the range', async () => {
+    dataApi.getOrders.and.returnValue(of([order('ORD-1', new Date(2024, 2, 1))]));
+
+    const result = await service.exportOrders({ format: 'csv', rows: 'order', from: new Date(2025, 0, 1) });
+
+    expect(result).toEqual({ count: 0, location: null });
+    expect(documents.saveFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,322 @@
+import { Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { CartItem, Order } from '../interfaces/cart.interface';
+import { ExportFile } from '../interfaces/document.interface';
+import { OrderExportOptions, OrderExportResult, OrderExportRows } from '../interfaces/order-export.interface';
+import { IDataApi } from '../interfaces/idata-api.interface';
+import { DocumentService } from './document.service';
+import { LoggerService } from './logger.service';
+import { createZip } from '../../../../shared/zip';
+
+type CellValue = string | number | Date | undefined;
+
+interface ExportColumn<T> {
+  header: string;
+  type: 'string' | 'number' | 'money' | 'date';
+  value: (row: T) => CellValue;
+}
+
+interface LineItemRow {
+  order: Order;
+  item: CartItem;
+}
+
+const ORDER_FIELDS: ExportColumn<Order>[] = [
+  { header: 'Order ID', type: 'string', value: o => o.id },
+  { header: 'Placed At', type: 'date', value: o => o.createdAt },
+  { header: 'Status', type: 'string', value: o => o.status },
+  { header: 'Customer', type: 'string', value: o => `${o.billing.firstName} ${o.billing.lastName}` },
+  { header: 'Email', type: 'string', value: o => o.billing.email }
+];
+
+const ORDER_COLUMNS: ExportColumn<Order>[] = [
+  ...ORDER_FIELDS,
+  { header: 'Items', type: 'number', value: o => o.cart.totalItems },
+  { header: 'Subtotal', type: 'money', value: o => o.subtotal },
+  { header: 'Discount', type: 'money', value: o => o.promotion?.discount ?? 0 },
+  { header: 'Promo Code', type: 'string', value: o => o.promotion?.code },
+  { header: 'Shipping', type: 'money', value: o => o.shipping_cost },
+  { header: 'Tax', type: 'money', value: o => o.tax },
+  { header: 'Total', type: 'money', value: o => o.total },
+  { header: 'Display Currency', type: 'string', value: o => o.currency.code },
+  { header: 'Exchange Rate', type: 'number', value: o => o.currency.rate },
+  { header: 'Payment Method', type: 'string', value: o => o.payment.method },
+  { header: 'Transaction ID', type: 'string', value: o => o.charge?.transactionId },
+  { header: 'Shipping Method', type: 'string', value: o => o.shipping.shippingMethod },
+  { header: 'Ship To Country', type: 'string', value: o => o.shipping.address.country },
+  { header: 'Earliest Delivery', type: 'date', value: o => o.deliveryWindow?.earliest },
+  { header: 'Estimated Delivery', type: 'date', value: o => o.estimatedDelivery },
+  { header: 'Tracking Number', type: 'string', value: o => o.trackingNumber }
+];
+
+const LINE_ITEM_COLUMNS: ExportColumn<LineItemRow>[] = [
+  ...ORDER_FIELDS.map(column => ({ ...column, value: (row: LineItemRow) => column.value(row.order) })),
+  { header: 'Product ID', type: 'number', value: r => r.item.product.id },
+  { header: 'Product', type: 'string', value: r => r.item.product.title },
+  { header: 'Category', type: 'string', value: r => r.item.product.category },
+  { header: 'Quantity', type: 'number', value: r => r.item.quantity },
+  { header: 'Unit Price', type: 'money', value: r => r.item.product.price },
+  { header: 'Line Total', type: 'money', value: r => r.item.subtotal }
+];
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOCUMENT_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+
+// Indexes into the cellXfs of xl/styles.xml
+const HEADER_STYLE = 1;
+const DATE_STYLE = 2;
+const MONEY_STYLE = 3;
+
+// Workbook parts other than the worksheet; one sheet named "Orders", styled by xl/styles.xml
+const WORKBOOK_PARTS: Record<string, string> = {
+  '[Content_Types].xml': [
+    XML_DECLARATION,
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    `<Override PartName="/xl/workbook.xml" ContentType="${CONTENT_TYPE}.sheet.main+xml"/>`,
+    `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="${CONTENT_TYPE}.worksheet+xml"/>`,
+    `<Override PartName="/xl/styles.xml" ContentType="${CONTENT_TYPE}.styles+xml"/>`,
+    '</Types>'
+  ].join('\n'),
+  '_rels/.rels': [
+    XML_DECLARATION,
+    `<Relationships xmlns="${RELATIONSHIPS_NS}">`,
+    `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP}/officeDocument" Target="xl/workbook.xml"/>`,
+    '</Relationships>'
+  ].join('\n'),
+  'xl/workbook.xml': [
+    XML_DECLARATION,
+    `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${DOCUMENT_RELATIONSHIP}">`,
+    '<sheets><sheet name="Orders" sheetId="1" r:id="rId1"/></sheets>',
+    '</workbook>'
+  ].join('\n'),
+  'xl/_rels/workbook.xml.rels': [
+    XML_DECLARATION,
+    `<Relationships xmlns="${RELATIONSHIPS_NS}">`,
+    `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP}/worksheet" Target="worksheets/sheet1.xml"/>`,
+    `<Relationship Id="rId2" Type="${DOCUMENT_RELATIONSHIP}/styles" Target="styles.xml"/>`,
+    '</Relationships>'
+  ].join('\n'),
+  'xl/styles.xml': [
+    XML_DECLARATION,
+    `<styleSheet xmlns="${SPREADSHEET_NS}">`,
+    '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts>',
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+    '<cellXfs count="4">',
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>',
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>',
+    // Built-in format 2 is 0.00
+    '<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>',
+    '</cellXfs>',
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>',
+    '</styleSheet>'
+  ].join('\n')
+};
+
+/**
+ * Order Export Service
+ * Serializes the order history (IDataApi.getOrders) to CSV, JSON or an Excel workbook (.xlsx)
+ * and hands the file to DocumentService (save dialog in Electron, download in the browser).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OrderExportService {
+  constructor(
+    private dataApi: IDataApi,
+    private documents: DocumentService,
+    private logger: LoggerService
+  ) {}
+
+  /**
+   * Export the orders placed within the options' date range
+   * Nothing is saved when no orders fall in the range.
+   */
+  async exportOrders(options: OrderExportOptions): Promise<OrderExportResult> {
+    const orders = this.filterByDate(await firstValueFrom(this.dataApi.getOrders()), options);
+    this.logger.log('📄 [DOCUMENT]', `Exporting ${orders.length} orders as ${options.format}`);
+
+    if (orders.length === 0) {
+      return { count: 0, location: null };
+    }
+
+    const location = await this.documents.saveFile(this.buildFile(orders, options));
+    return { count: orders.length, location };
+  }
+
+  /**
+   * Serialize orders to an export file (no date filtering)
+   */
+  buildFile(orders: Order[], options: OrderExportOptions): ExportFile {
+    const baseName = this.fileBaseName(options);
+
+    switch (options.format) {
+      case 'json':
+        return {
+          fileName: `${baseName}.json`,
+          mimeType: 'application/json',
+          content: JSON.stringify(orders, null, 2)
+        };
+      case 'csv':
+        return {
+          fileName: `${baseName}.csv`,
+          mimeType: 'text/csv;charset=utf-8',
+          // The byte order mark makes Excel read the file as UTF-8
+          content: '\uFEFF' + this.withRows(orders, options.rows, (columns, rows) => this.toCsv(columns, rows))
+        };
+      case 'spreadsheet':
+        return {
+          fileName: `${baseName}.xlsx`,
+          mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          content: this.toWorkbook(this.withRows(orders, options.rows, (columns, rows) => this.toWorksheet(columns, rows)))
+        };
+    }
+  }
+
+  private filterByDate(orders: Order[], { from, to }: OrderExportOptions): Order[] {
+    const start = from ? startOfDay(from).getTime() : -Infinity;
+    const end = to ? startOfDay(to).getTime() + DAY_MS : Infinity;
+    return orders.filter(order => {
+      const placed = new Date(order.createdAt).getTime();
+      return placed >= start && placed < end;
+    });
+  }
+
+  private withRows(
+    orders: Order[],
+    rows: OrderExportRows,
+    serialize: <T>(columns: ExportColumn<T>[], rows: T[]) => string
+  ): string {
+    if (rows === 'line-item') {
+      return serialize(LINE_ITEM_COLUMNS, orders.flatMap(order => order.cart.items.map(item => ({ order, item }))));
+    }
+    return serialize(ORDER_COLUMNS, orders);
+  }
+
+  private toCsv<T>(columns: ExportColumn<T>[], rows: T[]): string {
+    const lines = [columns.map(column => csvField(column.header))];
+    for (const row of rows) {
+      lines.push(columns.map(column => csvField(formatText(column.value(row), column.type), column.type === 'string')));
+    }
+    return lines.map(fields => fields.join(',')).join('\r\n') + '\r\n';
+  }
+
+  private toWorksheet<T>(columns: ExportColumn<T>[], rows: T[]): string {
+    const header = columns.map((c, index) => worksheetCell(cellRef(index, 1), c.header, 'string', HEADER_STYLE));
+    const body = rows.map((row, rowIndex) => columns.map((c, index) => worksheetCell(cellRef(index, rowIndex + 2), c.value(row), c.type)));
+
+    return [
+      XML_DECLARATION,
+      `<worksheet xmlns="${SPREADSHEET_NS}">`,
+      '<sheetData>',
+      ...[header, ...body].map((cells, index) => `<row r="${index + 1}">${cells.join('')}</row>`),
+      '</sheetData>',
+      '</worksheet>'
+    ].join('\n');
+  }
+
+  /**
+   * Package a worksheet as an Office Open XML workbook: a zip of the sheet, its styles and the
+   * relationship parts that tie them together
+   */
+  private toWorkbook(worksheet: string): Uint8Array<ArrayBuffer> {
+    const encoder = new TextEncoder();
+    return createZip(Object.entries({ ...WORKBOOK_PARTS, 'xl/worksheets/sheet1.xml': worksheet })
+      .map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+  }
+
+  private fileBaseName({ rows, from, to }: OrderExportOptions): string {
+    const range = from || to
+      ? `${from ? isoDay(from) : 'start'}_to_${to ? isoDay(to) : isoDay(new Date())}`
+      : isoDay(new Date());
+    return rows === 'line-item' ? `orders-items-${range}` : `orders-${range}`;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days from the spreadsheet epoch (1899-12-30) to the Unix epoch
+const EXCEL_EPOCH_OFFSET = 25569;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function isoDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatText(value: CellValue, type: ExportColumn<unknown>['type']): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (type === 'date') {
+    return new Date(value).toISOString();
+  }
+  if (type === 'money') {
+    return Number(value).toFixed(2);
+  }
+  return String(value);
+}
+
+function csvField(text: string, escapeFormulas = true): string {
+  // Spreadsheets run text cells starting with these characters as formulas
+  const safe = escapeFormulas && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function xmlText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Characters XML 1.0 does not allow at all
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+}
+
+function worksheetCell(ref: string, value: CellValue, type: ExportColumn<unknown>['type'], style?: number): string {
+  if (value === undefined || value === null || value === '') {
+    return '';
+  }
+  switch (type) {
+    case 'number':
+      return `<c r="${ref}"><v>${Number(value)}</v></c>`;
+    case 'money':
+      return `<c r="${ref}" s="${MONEY_STYLE}"><v>${Number(value).toFixed(2)}</v></c>`;
+    case 'date':
+      return `<c r="${ref}" s="${DATE_STYLE}"><v>${dateSerial(new Date(value))}</v></c>`;
+    default:
+      return `<c r="${ref}"${style ? ` s="${style}"` : ''} t="inlineStr"><is><t xml:space="preserve">${xmlText(String(value))}</t></is></c>`;
+  }
+}
+
+/**
+ * A1-style reference of a cell
+ * @param column Zero-based column index
+ * @param row One-based row number
+ */
+function cellRef(column: number, row: number): string {
+  let name = '';
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + (n - 1) % 26) + name;
+  }
+  return `${name}${row}`;
+}
+
+/**
+ * Spreadsheet date serial (days since 1899-12-30)
+ * Spreadsheet dates have no time zone; this uses the local time the user sees in the app.
+ */
+function dateSerial(date: Date): number {
+  const local = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds());
+  return local / DAY_MS + EXCEL_EPOCH_OFFSET;
+}
@@ -0,0 +1,99 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { of, throwError } from 'rxjs';
+import { OrderService } from './order.service';
+import { DataProfileService } from './data-profile.service';
+import { IDataApi } from '../interfaces/idata-api.interface';
+import { Order, OrderStatus } from '../interfaces/cart.interface';
+
+describe('OrderService', () => {
+  const activeProfile = signal('guest');
+  let dataApi: jasmine.SpyObj<IDataApi>;
+  let service: OrderService;
+
+  function order(id: string, status: OrderStatus = 'pending'): Order {
+    const createdAt = new Date('2024-03-01T10:00:00.000Z');
+    const address = { street: '1 Main St', city: 'Albany', state: 'NY', zipCode: '12207', country: 'United States' };
+    return {
+      id,
+      cart: { items: [], totalItems: 0, totalAmount: 0, createdAt, updatedAt: createdAt },
+      billing: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', address },
+      shipping: { firstName: 'Ada', lastName: 'Lovelace', address, shippingMethod: 'standard' },
+      payment: { method: 'paypal', paypalEmail: 'ada@example.com' },
+      subtotal: 0,
+      shipping_cost: 0,
+      tax: 0,
+      total: 0,
+      status,
+      statusHistory: [{ status, at: createdAt }],
+      createdAt,
+      currency: { code: 'USD', rate: 1 }
+    };
+  }
+
+  beforeEach(() => {
+    activeProfile.set('guest');
+    dataApi = jasmine.createSpyObj<IDataApi>('IDataApi', ['getOrders', 'getOrder', 'cancelOrder']);
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: IDataApi, useValue: dataApi },
+        { provide: DataProfileService, useValue: { activeProfile: activeProfile.asReadonly() } }
+      ]
+    });
+    service = TestBed.inject(OrderService);
+    TestBed.tick();
+  });
+
+  it('should load the order history', () => {
+    dataApi.getOrders.and.returnValue(of([order('ORD-1'), order('ORD-2')]));
+
+    service.loadOrders();
+
+    expect(service.orders().map(entry => entry.id)).toEqual(['ORD-1', 'ORD-2']);
+    expect(service.hasOrders()).toBeTrue();
+    expect(service.loading()).toBeFalse();
+  });
+
+  it('should report a failed load', () => {
+    spyOn(console, 'error');
+    dataApi.getOrders.and.returnValue(throwError(() => new Error('Disk unavailable')));
+
+    service.loadOrders();
+
+    expect(service.error()).toBe('Failed to load orders: Disk unavailable');
+    expect(service.loading()).toBeFalse();
+  });
+
+  it('should load a single order for the detail page', () => {
+    dataApi.getOrder.and.returnValue(of(order('ORD-7')));
+
+    service.loadOrderById('ORD-7');
+
+    expect(dataApi.getOrder).toHaveBeenCalledOnceWith('ORD-7');
+    expect(service.selectedOrder()?.id).toBe('ORD-7');
+  });
+
+  it('should replace a cancelled order in the list and the detail view', async () => {
+    dataApi.getOrders.and.returnValue(of([order('ORD-1'), order('ORD-2')]));
+    dataApi.cancelOrder.and.returnValue(of(order('ORD-2', 'cancelled')));
+    service.loadOrders();
+    service.selectOrder(order('ORD-2'));
+
+    await service.cancelOrder('ORD-2', 'Changed my mind');
+
+    expect(dataApi.cancelOrder).toHaveBeenCalledOnceWith('ORD-2', 'Changed my mind');
+    expect(service.orders().map(entry => entry.status)).toEqual(['pending', 'cancelled']);
+    expect(service.selectedOrder()?.status).toBe('cancelled');
+  });
+
+  it('should drop the orders when another profile becomes active', () => {
+    dataApi.getOrders.and.returnValue(of([order('ORD-1')]));
+    service.loadOrders();
+
+    activeProfile.set('user-ada');
+    TestBed.tick();
+
+    expect(service.orders()).toEqual([]);
+    expect(service.selectedOrder()).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import { Injectable, computed, effect, signal } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { Order } from '../interfaces/cart.interface';
+import { IDataApi } from '../interfaces/idata-api.interface';
+import { DataProfileService } from './data-profile.service';
+
+/**
+ * Order Service
+ * Manages order history state using Angular signals and delegates API calls to IDataApi
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OrderService {
+  // Signals for reactive state management
+  private readonly _orders = signal<Order[]>([]);
+  private readonly _selectedOrder = signal<Order | null>(null);
+  private readonly _loading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly orders = this._orders.asReadonly();
+  readonly selectedOrder = this._selectedOrder.asReadonly();
+  readonly loading = this._loading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  // Computed signals
+  readonly hasOrders = computed(() => this._orders().length > 0);
+
+  constructor(
+    private dataApi: IDataApi,
+    dataProfiles: DataProfileService
+  ) {
+    // Orders belong to the active user; drop them when someone else logs in
+    effect(() => {
+      dataProfiles.activeProfile();
+      this._orders.set([]);
+      this._selectedOrder.set(null);
+    });
+  }
+
+  /**
+   * Load all orders from the API
+   */
+  loadOrders(): void {
+    this._loading.set(true);
+    this._error.set(null);
+
+    this.dataApi.getOrders().subscribe({
+      next: (orders) => {
+        this._orders.set(orders);
+        this._loading.set(false);
+      },
+      error: (err) => {
+        this._error.set('Failed to load orders: ' + err.message);
+        this._loading.set(false);
+        console.error('Error loading orders:', err);
+      }
+    });
+  }
+
+  /**
+   * Load a single order by ID
+   * @param id Order ID
+   */
+  loadOrderById(id: string): void {
+    this._loading.set(true);
+    this._error.set(null);
+
+    this.dataApi.getOrder(id).subscribe({
+      next: (order) => {
+        this._selectedOrder.set(order);
+        this._loading.set(false);
+      },
+      error: (err) => {
+        this._error.set('Failed to load order: ' + err.message);
+        this._loading.set(false);
+        console.error('Error loading order:', err);
+      }
+    });
+  }
+
+  /**
+   * Show an order that is already at hand (e.g. the one checkout just submitted)
+   * @param order Order to select
+   */
+  selectOrder(order: Order): void {
+    this._selectedOrder.set(order);
+    this._error.set(null);
+  }
+
+  /**
+   * Cancel an order that has not shipped yet
+   * @param id Order ID
+   * @param reason Optional reason, recorded in the order's timeline
+   * @returns The cancelled order
+   */
+  async cancelOrder(id: string, reason?: string): Promise<Order> {
+    const order = await firstValueFrom(this.dataApi.cancelOrder(id, reason));
+    this.replaceOrder(order);
+    return order;
+  }
+
+  /**
+   * Clear selected order
+   */
+  clearSelectedOrder(): void {
+    this._selectedOrder.set(null);
+  }
+
+  /**
+   * Clear error
+   */
+  clearError(): void {
+    this._error.set(null);
+  }
+
+  private replaceOrder(order: Order): void {
+    this._orders.update(orders => orders.map(o => o.id === order.id ? order : o));
+    if (this._selectedOrder()?.id === order.id) {
+      this._selectedOrder.set(order);
+    }
+  }
+}
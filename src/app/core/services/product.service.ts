@@ -61,6 +61,9 @@ export class ProductService {
     this.dataApi.getProductById(id).subscribe({
       next: (product) => {
         this._selectedProduct.set(product);
+        if (!product) {
+          this._error.set('Product not found');
+        }
         this._loading.set(false);
       },
       error: (err) => {
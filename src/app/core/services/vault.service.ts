@@ -0,0 +1,79 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { VaultStatus } from '../interfaces/vault.interface';
+import { LoggerService } from './logger.service';
+import { IpcValidationError, fromTransportError } from '../../../../shared/ipc-errors';
+
+/**
+ * Vault Service
+ * Unlocking and passphrase management for the desktop app's encrypted order and cart stores.
+ * Encryption at rest is only available in Electron; in the browser the status stays null.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class VaultService {
+  private readonly _status = signal<VaultStatus | null>(null);
+
+  readonly status = this._status.asReadonly();
+  readonly locked = computed(() => this._status()?.unlocked === false);
+  readonly available = typeof window !== 'undefined' && typeof window.electronAPI !== 'undefined';
+
+  constructor(private logger: LoggerService) {}
+
+  /**
+   * Fetch the current status from the main process
+   */
+  async refresh(): Promise<VaultStatus | null> {
+    if (!this.available) {
+      return null;
+    }
+    return this.run(() => window.electronAPI.vault.getStatus());
+  }
+
+  unlock(passphrase: string): Promise<VaultStatus> {
+    this.logger.log('🔐 [VAULT]', 'Unlocking data stores');
+    return this.run(() => window.electronAPI.vault.unlock(passphrase));
+  }
+
+  lock(): Promise<VaultStatus> {
+    this.logger.log('🔐 [VAULT]', 'Locking data stores');
+    return this.run(() => window.electronAPI.vault.lock());
+  }
+
+  enable(passphrase: string): Promise<VaultStatus> {
+    this.logger.log('🔐 [VAULT]', 'Enabling encryption');
+    return this.run(() => window.electronAPI.vault.enable(passphrase));
+  }
+
+  changePassphrase(current: string, next: string): Promise<VaultStatus> {
+    this.logger.log('🔐 [VAULT]', 'Changing passphrase');
+    return this.run(() => window.electronAPI.vault.changePassphrase(current, next));
+  }
+
+  disable(passphrase: string): Promise<VaultStatus> {
+    this.logger.log('🔐 [VAULT]', 'Disabling encryption');
+    return this.run(() => window.electronAPI.vault.disable(passphrase));
+  }
+
+  /**
+   * User-facing message for a failed vault operation
+   */
+  describeError(error: unknown): string {
+    if (error instanceof IpcValidationError) {
+      return `Passphrase ${error.issues[0]?.message ?? 'is invalid'}.`;
+    }
+    return (error as Error)?.message || 'Something went wrong. Please try again.';
+  }
+
+  private async run(call: () => Promise<VaultStatus>): Promise<VaultStatus> {
+    try {
+      const status = await call();
+      this._status.set(status);
+      return status;
+    } catch (error) {
+      const structured = fromTransportError(error);
+      this.logger.warn('🔐 [VAULT]', 'Vault operation failed:', structured?.message ?? String(error));
+      throw structured ?? error;
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { TestBed } from '@angular/core/testing';
+import { VersionedStorageService } from './versioned-storage.service';
+import { cartMigrator } from '../../../../shared/migrations';
+import { Cart } from '../interfaces/cart.interface';
+
+describe('VersionedStorageService', () => {
+  const key = 'versioned-storage-spec';
+  const cart: Cart = { items: [], totalItems: 0, totalAmount: 0, createdAt: new Date(0), updatedAt: new Date(0) };
+  let service: VersionedStorageService;
+
+  beforeEach(() => {
+    service = TestBed.inject(VersionedStorageService);
+  });
+
+  afterEach(() => {
+    Object.keys(localStorage).filter(entry => entry.startsWith(key)).forEach(entry => localStorage.removeItem(entry));
+  });
+
+  it('should read null when nothing is stored', () => {
+    expect(service.read(key, cartMigrator)).toBeNull();
+  });
+
+  it('should write documents in the versioned envelope', () => {
+    service.write(key, cartMigrator, cart);
+
+    expect(JSON.parse(localStorage.getItem(key)!)).toEqual({ schemaVersion: cartMigrator.version, data: JSON.parse(JSON.stringify(cart)) });
+  });
+
+  it('should upgrade an unversioned document and store the result', () => {
+    localStorage.setItem(key, JSON.stringify(cart));
+
+    expect(service.read(key, cartMigrator)?.totalItems).toBe(0);
+    expect(JSON.parse(localStorage.getItem(key)!).schemaVersion).toBe(cartMigrator.version);
+  });
+
+  it('should quarantine a document that cannot be parsed or migrated', () => {
+    localStorage.setItem(key, '{"items": ');
+
+    expect(service.read(key, cartMigrator)).toBeNull();
+    expect(localStorage.getItem(key)).toBeNull();
+    expect(Object.keys(localStorage).some(entry => entry.startsWith(`${key}.quarantine.`))).toBeTrue();
+  });
+});
@@ -0,0 +1,56 @@
+import { Injectable } from '@angular/core';
+import { DocumentMigrator, MigrationError } from '../../../../shared/migrations';
+import { LoggerService } from './logger.service';
+
+/**
+ * Versioned Storage Service
+ * localStorage access for persisted documents (cart, orders) with schema migrations.
+ * Documents are written in the versioned envelope and upgraded when read; documents that
+ * cannot be parsed or migrated are moved to a `<key>.quarantine.<timestamp>` entry.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class VersionedStorageService {
+  constructor(private logger: LoggerService) {}
+
+  /**
+   * Read and migrate a document
+   * @returns The current-version data, or null if missing or quarantined
+   */
+  read<T>(key: string, migrator: DocumentMigrator<T>): T | null {
+    const raw = localStorage.getItem(key);
+    if (raw === null) {
+      return null;
+    }
+
+    try {
+      const result = migrator.migrate(JSON.parse(raw));
+      if (result.migrated) {
+        localStorage.setItem(key, JSON.stringify(result.document));
+        this.logger.info('💾 [STORAGE]', `Migrated '${key}' from schema v${result.fromVersion} to v${migrator.version}`);
+      }
+      return result.document.data;
+    } catch (error) {
+      if (!(error instanceof MigrationError || error instanceof SyntaxError)) {
+        throw error;
+      }
+      this.quarantine(key, raw, error);
+      return null;
+    }
+  }
+
+  /**
+   * Write a document in the current schema version
+   */
+  write<T>(key: string, migrator: DocumentMigrator<T>, data: T): void {
+    localStorage.setItem(key, JSON.stringify(migrator.wrap(data)));
+  }
+
+  private quarantine(key: string, raw: string, error: Error): void {
+    const quarantineKey = `${key}.quarantine.${Date.now()}`;
+    localStorage.setItem(quarantineKey, raw);
+    localStorage.removeItem(key);
+    this.logger.warn('💾 [STORAGE]', `Moved unreadable '${key}' to '${quarantineKey}':`, error.message);
+  }
+}
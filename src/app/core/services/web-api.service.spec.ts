@@ -0,0 +1,227 @@
+import { TestBed, fakeAsync, flush } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { WebApiService } from './web-api.service';
+import { DataProfileService } from './data-profile.service';
+import { Order, OrderRequest } from '../interfaces/cart.interface';
+import { CheckoutDraft } from '../interfaces/checkout-draft.interface';
+import { IpcValidationError } from '../../../../shared/ipc-errors';
+
+describe('WebApiService', () => {
+  const activeProfile = signal('guest');
+  let service: WebApiService;
+
+  function orderRequest(idempotencyKey = 'checkout-0000000000000001'): OrderRequest {
+    const address = { street: '1 Main St', city: 'Albany', state: 'NY', zipCode: '12207', country: 'United States' };
+    const product = { id: 1, title: 'Backpack', price: 20, description: '', category: 'bags', image: '', rating: { rate: 4, count: 1 } };
+    return {
+      cart: {
+        items: [{ product, quantity: 2, subtotal: 40 }],
+        totalItems: 2,
+        totalAmount: 40,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      },
+      billing: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', address },
+      shipping: { firstName: 'Ada', lastName: 'Lovelace', address, shippingMethod: 'standard' },
+      payment: { method: 'paypal', paypalEmail: 'ada@example.com' },
+      idempotencyKey
+    };
+  }
+
+  function submit(request: OrderRequest): { order?: Order; error?: unknown } {
+    const result: { order?: Order; error?: unknown } = {};
+    service.submitOrder(request).subscribe({
+      next: order => result.order = order,
+      error: error => result.error = error
+    });
+    return result;
+  }
+
+  beforeEach(() => {
+    activeProfile.set('guest');
+    localStorage.removeItem('orders');
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: DataProfileService, useValue: { activeProfile: activeProfile.asReadonly() } }
+      ]
+    });
+    service = TestBed.inject(WebApiService);
+  });
+
+  afterEach(() => {
+    for (const key of ['orders', 'orders.user-ada', 'promoRedemptions', 'checkoutDraft', 'checkoutDraft.user-ada']) {
+      localStorage.removeItem(key);
+    }
+  });
+
+  function storedOrders(): Order[] {
+    let orders: Order[] = [];
+    service.getOrders().subscribe(value => orders = value);
+    return orders;
+  }
+
+  it('should store a submitted order', fakeAsync(() => {
+    const result = submit(orderRequest());
+    flush();
+
+    expect(result.order?.id).toMatch(/^ORD-/);
+    expect(result.order?.charge?.amount).toBe(result.order?.total);
+    expect(storedOrders().map(order => order.id)).toEqual([result.order!.id]);
+  }));
+
+  it('should return the original order when a submission is repeated', fakeAsync(() => {
+    const first = submit(orderRequest());
+    flush();
+    const second = submit(orderRequest());
+    flush();
+
+    expect(second.order?.id).toBe(first.order!.id);
+    expect(storedOrders().length).toBe(1);
+  }));
+
+  it('should create one order for a double-clicked submission', fakeAsync(() => {
+    const first = submit(orderRequest());
+    const second = submit(orderRequest());
+    flush();
+
+    expect(second.order?.id).toBe(first.order!.id);
+    expect(second.order?.charge?.transactionId).toBe(first.order!.charge!.transactionId);
+    expect(storedOrders().length).toBe(1);
+  }));
+
+  it('should create a new order for a new checkout', fakeAsync(() => {
+    const first = submit(orderRequest('checkout-0000000000000001'));
+    const second = submit(orderRequest('checkout-0000000000000002'));
+    flush();
+
+    expect(second.order?.id).not.toBe(first.order!.id);
+    expect(storedOrders().length).toBe(2);
+  }));
+
+  it('should reject an order with an invalid address', fakeAsync(() => {
+    const request = orderRequest();
+    request.shipping.address = { ...request.shipping.address, zipCode: 'ABC' };
+
+    const result = submit(request);
+    flush();
+
+    expect(result.error).toEqual(jasmine.any(IpcValidationError));
+    expect((result.error as IpcValidationError).issues.map(issue => issue.path)).toEqual(['orderRequest.shipping.address.zipCode']);
+    expect(storedOrders()).toEqual([]);
+  }));
+
+  it('should keep each profile\'s orders apart', fakeAsync(() => {
+    const guest = submit(orderRequest('checkout-0000000000000001'));
+    flush();
+    activeProfile.set('user-ada');
+    const ada = submit(orderRequest('checkout-0000000000000002'));
+    flush();
+
+    expect(storedOrders().map(order => order.id)).toEqual([ada.order!.id]);
+    activeProfile.set('guest');
+    expect(storedOrders().map(order => order.id)).toEqual([guest.order!.id]);
+    expect(localStorage.getItem('orders')).toContain(guest.order!.id);
+  }));
+
+  it('should count promo code redemptions across profiles', fakeAsync(() => {
+    activeProfile.set('user-ada');
+    const result = submit({ ...orderRequest(), promoCode: 'WELCOME10' });
+    flush();
+    const redemptions = () => JSON.parse(localStorage.getItem('promoRedemptions') ?? '{}');
+
+    expect(redemptions()).toEqual({ WELCOME10: [result.order!.id] });
+
+    service.cancelOrder(result.order!.id).subscribe();
+    expect(redemptions()).toEqual({ WELCOME10: [] });
+  }));
+
+  describe('checkout drafts', () => {
+    const draft: CheckoutDraft = {
+      cartId: '2024-03-01T10:00:00.000Z',
+      step: 2,
+      sameAsShipping: false,
+      billing: { firstName: 'Ada', country: 'United States' },
+      shipping: { shippingMethod: 'express' },
+      payment: { method: 'credit', cardholderName: 'Ada Lovelace' },
+      savedAt: new Date('2024-03-01T10:05:00.000Z')
+    };
+
+    function load(cartId = draft.cartId): CheckoutDraft | null {
+      let loaded: CheckoutDraft | null = null;
+      service.loadCheckoutDraft(cartId).subscribe(value => loaded = value);
+      return loaded;
+    }
+
+    it('should store drafts without card details', () => {
+      const withCard = { ...draft, payment: { ...draft.payment, cardNumber: '4242424242424242', cvv: '123' } } as CheckoutDraft;
+
+      service.saveCheckoutDraft(withCard).subscribe();
+
+      expect(localStorage.getItem('checkoutDraft')).not.toContain('4242');
+      expect(load()).toEqual(draft);
+    });
+
+    it('should only restore the draft of the same cart', () => {
+      service.saveCheckoutDraft(draft).subscribe();
+
+      expect(load('2024-03-02T08:00:00.000Z')).toBeNull();
+    });
+
+    it('should keep a draft per data profile', () => {
+      service.saveCheckoutDraft(draft).subscribe();
+
+      activeProfile.set('user-ada');
+      expect(load()).toBeNull();
+      service.saveCheckoutDraft({ ...draft, step: 0 }).subscribe();
+
+      activeProfile.set('guest');
+      expect(load()?.step).toBe(2);
+      service.clearCheckoutDraft().subscribe();
+      expect(load()).toBeNull();
+
+      activeProfile.set('user-ada');
+      expect(load()?.step).toBe(0);
+    });
+  });
+
+  describe('catalog', () => {
+    function getProduct(): { product?: unknown; error?: unknown } {
+      const result: { product?: unknown; error?: unknown } = {};
+      service.getProductById(7).subscribe({
+        next: product => result.product = product,
+        error: error => result.error = error
+      });
+      return result;
+    }
+
+    function expectProductRequest() {
+      return TestBed.inject(HttpTestingController).expectOne(request => request.url.endsWith('/products/7'));
+    }
+
+    it('should report an unknown product as null', () => {
+      const result = getProduct();
+      expectProductRequest().flush('Not found', { status: 404, statusText: 'Not Found' });
+
+      expect(result).toEqual({ product: null });
+    });
+
+    it('should report an empty response as an unknown product', () => {
+      const result = getProduct();
+      expectProductRequest().flush(null);
+
+      expect(result).toEqual({ product: null });
+    });
+
+    it('should fail when the catalog cannot be reached', () => {
+      spyOn(console, 'error');
+      const result = getProduct();
+      expectProductRequest().flush('Unavailable', { status: 503, statusText: 'Service Unavailable' });
+
+      expect(result.error).toEqual(jasmine.any(Error));
+    });
+  });
+});
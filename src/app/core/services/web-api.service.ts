@@ -1,29 +1,103 @@
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpErrorResponse } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError, timeout } from 'rxjs/operators';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, map, tap, timeout } from 'rxjs/operators';
 import { Product } from '../interfaces/product.interface';
-import { Cart, Order, OrderRequest } from '../interfaces/cart.interface';
+import { Address, Cart, Order, OrderRequest, OrderStatus, OrderStatusDetails } from '../interfaces/cart.interface';
 import { IDataApi } from '../interfaces/idata-api.interface';
+import { CheckoutDraft } from '../interfaces/checkout-draft.interface';
+import { AddressUse, CustomerContact, CustomerProfile, SavedAddressInput } from '../interfaces/customer-profile.interface';
 import { LoggerService } from './logger.service';
+import { ConfigService } from './config.service';
+import { VersionedStorageService } from './versioned-storage.service';
+import { DataProfileService } from './data-profile.service';
+import { cartMigrator, checkoutDraftMigrator, customerProfileMigrator, ordersMigrator } from '../../../../shared/migrations';
+import {
+  EMPTY_CUSTOMER_PROFILE,
+  deleteAddress,
+  saveAddress,
+  setDefaultAddress,
+  updateContact
+} from '../../../../shared/customer-profiles';
+import { redactCheckoutDraft } from '../../../../shared/checkout-drafts';
+import { transitionOrder } from '../../../../shared/order-status';
+import { calculateTotals, resolvePricingRules } from '../../../../shared/pricing';
+import { estimateDelivery, resolveDeliveryRules } from '../../../../shared/delivery';
+import { DEFAULT_PROMOTIONS, RedemptionLedger, applyPromotion, countRedemptions } from '../../../../shared/promotions';
+import { BASE_CURRENCY, orderCurrencyFor, resolveCurrencies } from '../../../../shared/currency';
+import { describeAddressIssue, validateAddress } from '../../../../shared/address-formats';
+import { validateCard } from '../../../../shared/payments';
+import { PaymentGateway, chargePayment, createPaymentGateway } from '../../../../shared/payment-gateway';
+import { IpcValidationError, IpcValidationIssue } from '../../../../shared/ipc-errors';
+import { IPC_CONTRACT } from '../../../../shared/ipc-contract';
+import { profileStorageKey } from '../../../../shared/data-profiles';
+import { AppliedPromotion } from '../interfaces/promotion.interface';
+
+// Promo code redemptions of every profile (see RedemptionLedger)
+const REDEMPTIONS_STORAGE_KEY = 'promoRedemptions';
 
 /**
  * Web API Service (Cloud Mode)
  * Implements IDataApi interface using HttpClient to call FakeStoreAPI
+ * (or any compatible backend configured via AppConfig.apiBaseUrl)
  */
 @Injectable({
   providedIn: 'root'
 })
 export class WebApiService extends IDataApi {
-  private readonly baseUrl = 'https://fakestoreapi.com';
-  private readonly requestTimeout = 10000; // 10 seconds
+  private paymentGateway?: PaymentGateway;
 
   constructor(
     private http: HttpClient,
-    private logger: LoggerService
+    private logger: LoggerService,
+    private configService: ConfigService,
+    private storage: VersionedStorageService,
+    private dataProfiles: DataProfileService
   ) {
     super();
-    this.logger.info('🌐', 'WebApiService initialized - Using HTTP/REST API mode');
+    this.logger.info('🌐', `WebApiService initialized - Using HTTP/REST API mode (${this.baseUrl})`);
+  }
+
+  /**
+   * Catalog backend base URL from the runtime config
+   */
+  private get baseUrl(): string {
+    return this.configService.apiBaseUrl;
+  }
+
+  /**
+   * localStorage key of the active data profile's cart
+   */
+  private get cartStorageKey(): string {
+    return profileStorageKey('cart', this.dataProfiles.activeProfile());
+  }
+
+  /**
+   * localStorage key of the active data profile's orders
+   */
+  private get ordersStorageKey(): string {
+    return profileStorageKey('orders', this.dataProfiles.activeProfile());
+  }
+
+  /**
+   * localStorage key of the active data profile's checkout draft
+   */
+  private get checkoutDraftStorageKey(): string {
+    return profileStorageKey('checkoutDraft', this.dataProfiles.activeProfile());
+  }
+
+  /**
+   * localStorage key of the active data profile's contact details and address book
+   */
+  private get customerStorageKey(): string {
+    return profileStorageKey('customer', this.dataProfiles.activeProfile());
+  }
+
+  /**
+   * Request timeout from the runtime config
+   */
+  private get requestTimeout(): number {
+    return this.configService.apiTimeout;
   }
 
   /**
@@ -41,11 +115,13 @@ export class WebApiService extends IDataApi {
    * Get a single product by ID
    * @param id Product ID
    */
-  getProductById(id: number): Observable<Product> {
+  getProductById(id: number): Observable<Product | null> {
     this.logger.log('🌐 [WEB API]', `Fetching product ${id} via HTTP`);
-    return this.http.get<Product>(`${this.baseUrl}/products/${id}`).pipe(
+    return this.http.get<Product | null>(`${this.baseUrl}/products/${id}`).pipe(
       timeout(this.requestTimeout),
-      catchError(this.handleError)
+      // Backends answer an unknown id with a 404 or with an empty body (which parses as null)
+      map(product => product ?? null),
+      catchError(error => error instanceof HttpErrorResponse && error.status === 404 ? of(null) : this.handleError(error))
     );
   }
 
@@ -94,13 +170,14 @@ export class WebApiService extends IDataApi {
 
   /**
    * Save cart data to localStorage (web implementation)
+   * Each data profile (user or guest) has its own cart.
    */
   saveCart(cart: Cart): Observable<boolean> {
     this.logger.log('🌐 [WEB API]', 'Saving cart to localStorage');
     
     return new Observable(subscriber => {
       try {
-        localStorage.setItem('cart', JSON.stringify(cart));
+        this.storage.write(this.cartStorageKey, cartMigrator, cart);
         subscriber.next(true);
         subscriber.complete();
       } catch (error) {
@@ -118,9 +195,9 @@ export class WebApiService extends IDataApi {
     
     return new Observable(subscriber => {
       try {
-        const cartData = localStorage.getItem('cart');
-        if (cartData) {
-          const cart = JSON.parse(cartData);
+        // Older schemas are migrated; unreadable carts are quarantined and treated as missing
+        const cart = this.storage.read(this.cartStorageKey, cartMigrator);
+        if (cart) {
           // Ensure dates are properly parsed
           cart.createdAt = new Date(cart.createdAt);
           cart.updatedAt = new Date(cart.updatedAt);
@@ -136,8 +213,111 @@ export class WebApiService extends IDataApi {
     });
   }
 
+  /**
+   * Save checkout draft to localStorage (web implementation)
+   */
+  saveCheckoutDraft(draft: CheckoutDraft): Observable<boolean> {
+    this.logger.log('🌐 [WEB API]', 'Saving checkout draft to localStorage');
+
+    return new Observable(subscriber => {
+      try {
+        this.storage.write(this.checkoutDraftStorageKey, checkoutDraftMigrator, redactCheckoutDraft(draft));
+        subscriber.next(true);
+        subscriber.complete();
+      } catch (error) {
+        this.logger.error('🌐 [WEB API]', 'Failed to save checkout draft:', String(error));
+        subscriber.error(error);
+      }
+    });
+  }
+
+  /**
+   * Load checkout draft from localStorage (web implementation)
+   */
+  loadCheckoutDraft(cartId: string): Observable<CheckoutDraft | null> {
+    this.logger.log('🌐 [WEB API]', 'Loading checkout draft from localStorage');
+
+    return new Observable(subscriber => {
+      try {
+        const draft = this.storage.read(this.checkoutDraftStorageKey, checkoutDraftMigrator);
+        subscriber.next(draft && draft.cartId === cartId ? { ...draft, savedAt: new Date(draft.savedAt) } : null);
+        subscriber.complete();
+      } catch (error) {
+        this.logger.error('🌐 [WEB API]', 'Failed to load checkout draft:', String(error));
+        subscriber.error(error);
+      }
+    });
+  }
+
+  /**
+   * Remove checkout draft from localStorage (web implementation)
+   */
+  clearCheckoutDraft(): Observable<boolean> {
+    this.logger.log('🌐 [WEB API]', 'Clearing checkout draft');
+    localStorage.removeItem(this.checkoutDraftStorageKey);
+    return of(true);
+  }
+
+  /**
+   * Get customer profile from localStorage (web implementation)
+   */
+  getCustomerProfile(): Observable<CustomerProfile> {
+    this.logger.log('🌐 [WEB API]', 'Loading customer profile from localStorage');
+
+    return new Observable(subscriber => {
+      try {
+        subscriber.next(this.storage.read(this.customerStorageKey, customerProfileMigrator) ?? EMPTY_CUSTOMER_PROFILE);
+        subscriber.complete();
+      } catch (error) {
+        this.logger.error('🌐 [WEB API]', 'Failed to load customer profile:', String(error));
+        subscriber.error(error);
+      }
+    });
+  }
+
+  /**
+   * Update customer contact details (web implementation)
+   */
+  updateCustomerContact(contact: CustomerContact): Observable<CustomerProfile> {
+    this.logger.log('🌐 [WEB API]', 'Updating customer contact details');
+    return this.updateStoredCustomer(profile => updateContact(profile, contact));
+  }
+
+  /**
+   * Save an address book entry (web implementation)
+   */
+  saveAddress(address: SavedAddressInput): Observable<CustomerProfile> {
+    this.logger.log('🌐 [WEB API]', 'Saving address:', address.id ?? '(new)');
+
+    // Same address rules as the desktop store (electron/validation/customer.schemas.ts)
+    const issues = this.addressIssues('address.address', address.address);
+    if (issues.length > 0) {
+      const error = new IpcValidationError(IPC_CONTRACT.customer.saveAddress.channel, issues);
+      this.logger.warn('🌐 [WEB API]', 'Rejected address:', error.message);
+      return throwError(() => error);
+    }
+    return this.updateStoredCustomer(profile => saveAddress(profile, address).profile);
+  }
+
+  /**
+   * Delete an address book entry (web implementation)
+   */
+  deleteAddress(addressId: string): Observable<CustomerProfile> {
+    this.logger.log('🌐 [WEB API]', 'Deleting address:', addressId);
+    return this.updateStoredCustomer(profile => deleteAddress(profile, addressId));
+  }
+
+  /**
+   * Set the default billing or shipping address (web implementation)
+   */
+  setDefaultAddress(addressId: string, use: AddressUse): Observable<CustomerProfile> {
+    this.logger.log('🌐 [WEB API]', `Default ${use} address:`, addressId);
+    return this.updateStoredCustomer(profile => setDefaultAddress(profile, addressId, use));
+  }
+
   /**
    * Submit order (mock implementation for demo)
+   * Idempotent: resubmitting with the same key returns the order the first submission created.
    */
   submitOrder(orderRequest: OrderRequest): Observable<Order> {
     this.logger.log('🌐 [WEB API]', 'Submitting order');
@@ -145,33 +325,128 @@ export class WebApiService extends IDataApi {
     return new Observable(subscriber => {
       // Simulate API call delay
       setTimeout(() => {
-        const orderId = `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`.toUpperCase();
-        
-        const order: Order = {
-          id: orderId,
-          cart: orderRequest.cart,
-          billing: orderRequest.billing,
-          shipping: orderRequest.shipping,
-          payment: {
-            method: orderRequest.payment.method,
-            cardholderName: orderRequest.payment.cardholderName,
-            paypalEmail: orderRequest.payment.paypalEmail,
-            cryptoWallet: orderRequest.payment.cryptoWallet
+        // Delayed submissions run one after another, so a duplicate always finds the stored original
+        const orders = this.getOrdersFromStorage();
+        const existing = orders.find(o => o.idempotencyKey === orderRequest.idempotencyKey);
+        if (existing) {
+          this.logger.log('🌐 [WEB API]', 'Order already submitted, returning it:', existing.id);
+          subscriber.next(existing);
+          subscriber.complete();
+          return;
+        }
+
+        // Same address and card rules as the desktop order pipeline (electron/validation/cart.schemas.ts)
+        const issues = [
+          ...this.addressIssues('orderRequest.billing.address', orderRequest.billing.address),
+          ...this.addressIssues('orderRequest.shipping.address', orderRequest.shipping.address),
+          ...validateCard(orderRequest.payment).map(issue => ({
+            path: `orderRequest.payment.${issue.field}`,
+            message: issue.message
+          }))
+        ];
+        if (issues.length > 0) {
+          const error = new IpcValidationError(IPC_CONTRACT.cart.submitOrder.channel, issues);
+          this.logger.warn('🌐 [WEB API]', 'Rejected order:', error.message);
+          subscriber.error(error);
+          return;
+        }
+
+        // Re-validate the promo code, including its usage limit
+        let promotion: AppliedPromotion | null = null;
+        if (orderRequest.promoCode) {
+          try {
+            promotion = applyPromotion(orderRequest.promoCode, orderRequest.cart,
+              this.configService.config()?.promotions ?? DEFAULT_PROMOTIONS,
+              // Usage limits count every profile's orders with the code
+              { redemptions: countRedemptions(orders, orderRequest.promoCode, this.readRedemptions()) });
+          } catch (error) {
+            this.logger.warn('🌐 [WEB API]', 'Rejected promo code:', String(error));
+            subscriber.error(error);
+            return;
+          }
+        }
+
+        const { shipping: shipping_cost, tax, total } = calculateTotals(
+          orderRequest.cart.totalAmount,
+          {
+            shippingMethod: orderRequest.shipping.shippingMethod,
+            address: orderRequest.shipping.address,
+            discount: promotion?.discount
           },
-          subtotal: orderRequest.cart.totalAmount,
-          shipping_cost: orderRequest.cart.totalAmount >= 50 ? 0 : 9.99,
-          tax: orderRequest.cart.totalAmount * 0.085,
-          total: orderRequest.cart.totalAmount + (orderRequest.cart.totalAmount >= 50 ? 0 : 9.99) + (orderRequest.cart.totalAmount * 0.085),
-          status: 'pending',
-          createdAt: new Date(),
-          estimatedDelivery: this.calculateEstimatedDelivery(orderRequest.shipping.shippingMethod)
-        };
-
-        // Save order to localStorage (in real app, would be sent to server)
-        this.saveOrderToStorage(order);
+          resolvePricingRules(this.configService.config()?.pricing)
+        );
         
-        subscriber.next(order);
-        subscriber.complete();
+        // Charge the total before storing anything; declined payments reject with a PaymentError
+        chargePayment(this.getPaymentGateway(), {
+          amount: total,
+          currency: BASE_CURRENCY.code,
+          payment: orderRequest.payment,
+          idempotencyKey: orderRequest.idempotencyKey
+        }, this.configService.config()?.paymentGateway?.timeoutMs).then(charge => {
+          // A duplicate submission may have stored its order while this one was being charged
+          const stored = this.getOrdersFromStorage().find(o => o.idempotencyKey === orderRequest.idempotencyKey);
+          if (stored) {
+            subscriber.next(stored);
+            subscriber.complete();
+            return;
+          }
+
+          const orderId = `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`.toUpperCase();
+          const createdAt = new Date();
+          const deliveryWindow = estimateDelivery(
+            orderRequest.shipping.shippingMethod,
+            createdAt,
+            orderRequest.shipping.address.country,
+            resolveDeliveryRules(this.configService.config()?.delivery)
+          );
+          const order: Order = {
+            id: orderId,
+            cart: orderRequest.cart,
+            billing: orderRequest.billing,
+            shipping: orderRequest.shipping,
+            payment: {
+              method: orderRequest.payment.method,
+              cardholderName: orderRequest.payment.cardholderName,
+              paypalEmail: orderRequest.payment.paypalEmail,
+              cryptoWallet: orderRequest.payment.cryptoWallet
+            },
+            subtotal: orderRequest.cart.totalAmount,
+            shipping_cost,
+            tax,
+            total,
+            status: 'pending',
+            statusHistory: [{ status: 'pending', at: createdAt }],
+            createdAt,
+            estimatedDelivery: deliveryWindow.latest,
+            deliveryWindow,
+            idempotencyKey: orderRequest.idempotencyKey,
+            // Display currency at today's rate; the amounts stay in USD
+            currency: orderCurrencyFor(orderRequest.currency, resolveCurrencies(this.configService.config()?.currencies)),
+            charge,
+            ...(promotion ? { promotion } : {})
+          };
+
+          // Save order to localStorage (in real app, would be sent to server)
+          try {
+            this.saveOrderToStorage(order);
+          } catch {
+            // The payment was taken but the order is not stored; give it back
+            this.getPaymentGateway().voidCharge(charge, orderRequest.idempotencyKey).catch(error =>
+              this.logger.error('🌐 [WEB API]', `Failed to void charge ${charge.transactionId}:`, String(error))
+            );
+            subscriber.error(new Error('Failed to process order'));
+            return;
+          }
+          if (order.promotion) {
+            this.updateRedemptions(order.promotion.code, order.id, 'record');
+          }
+
+          subscriber.next(order);
+          subscriber.complete();
+        }).catch(error => {
+          this.logger.warn('🌐 [WEB API]', 'Payment failed:', String(error));
+          subscriber.error(error);
+        });
       }, 1000); // Simulate 1 second API call
     });
   }
@@ -216,49 +491,129 @@ export class WebApiService extends IDataApi {
     });
   }
 
+  /**
+   * Update order status (mock implementation)
+   */
+  updateOrderStatus(orderId: string, status: OrderStatus, details?: OrderStatusDetails): Observable<Order> {
+    this.logger.log('🌐 [WEB API]', `Updating order ${orderId} to ${status}`);
+    return this.updateStoredOrder(orderId, order => transitionOrder(order, status, details));
+  }
+
+  /**
+   * Cancel order (mock implementation)
+   */
+  cancelOrder(orderId: string, reason?: string): Observable<Order> {
+    this.logger.log('🌐 [WEB API]', 'Cancelling order:', orderId);
+    return this.updateStoredOrder(orderId, order => transitionOrder(order, 'cancelled', { note: reason || undefined })).pipe(
+      tap(order => {
+        // A cancelled order no longer uses up its promo code
+        if (order.promotion) {
+          this.updateRedemptions(order.promotion.code, order.id, 'release');
+        }
+      })
+    );
+  }
+
   /**
    * Private helper methods
    */
-  private calculateEstimatedDelivery(shippingMethod: string): Date {
-    const now = new Date();
-    const deliveryDate = new Date(now);
-    
-    switch (shippingMethod) {
-      case 'overnight':
-        deliveryDate.setDate(now.getDate() + 1);
-        break;
-      case 'express':
-        deliveryDate.setDate(now.getDate() + 3);
-        break;
-      case 'standard':
-      default:
-        deliveryDate.setDate(now.getDate() + 7);
-        break;
-    }
-    
-    return deliveryDate;
+  private updateStoredOrder(orderId: string, change: (order: Order) => Order): Observable<Order> {
+    return new Observable(subscriber => {
+      try {
+        const orders = this.getOrdersFromStorage();
+        const index = orders.findIndex(o => o.id === orderId);
+        if (index < 0) {
+          subscriber.error(new Error(`Order ${orderId} not found`));
+          return;
+        }
+
+        // Throws OrderTransitionError for illegal status changes
+        const updated = change(orders[index]);
+        orders[index] = updated;
+        this.storage.write(this.ordersStorageKey, ordersMigrator, orders);
+
+        subscriber.next(updated);
+        subscriber.complete();
+      } catch (error) {
+        this.logger.error('🌐 [WEB API]', 'Failed to update order:', String(error));
+        subscriber.error(error);
+      }
+    });
+  }
+
+  private updateStoredCustomer(change: (profile: CustomerProfile) => CustomerProfile): Observable<CustomerProfile> {
+    return new Observable(subscriber => {
+      try {
+        const updated = change(this.storage.read(this.customerStorageKey, customerProfileMigrator) ?? EMPTY_CUSTOMER_PROFILE);
+        this.storage.write(this.customerStorageKey, customerProfileMigrator, updated);
+        subscriber.next(updated);
+        subscriber.complete();
+      } catch (error) {
+        this.logger.error('🌐 [WEB API]', 'Failed to update customer profile:', String(error));
+        subscriber.error(error);
+      }
+    });
+  }
+
+  private getPaymentGateway(): PaymentGateway {
+    // One gateway for the session, so its idempotency keys carry across submissions
+    return this.paymentGateway ??= createPaymentGateway(this.configService.config()?.paymentGateway);
+  }
+
+  private addressIssues(path: string, address: Address): IpcValidationIssue[] {
+    return validateAddress(address).map(issue => ({
+      path: `${path}.${issue.field}`,
+      message: describeAddressIssue(issue, address.country)
+    }));
   }
 
   private saveOrderToStorage(order: Order): void {
     try {
       const orders = this.getOrdersFromStorage();
       orders.push(order);
-      localStorage.setItem('orders', JSON.stringify(orders));
+      this.storage.write(this.ordersStorageKey, ordersMigrator, orders);
     } catch (error) {
       this.logger.error('🌐 [WEB API]', 'Failed to save order to storage:', String(error));
+      throw error;
+    }
+  }
+
+  private readRedemptions(): RedemptionLedger {
+    try {
+      return JSON.parse(localStorage.getItem(REDEMPTIONS_STORAGE_KEY) ?? '{}');
+    } catch {
+      this.logger.warn('🌐 [WEB API]', 'Ignoring unreadable promo code redemptions');
+      return {};
+    }
+  }
+
+  private updateRedemptions(code: string, orderId: string, change: 'record' | 'release'): void {
+    try {
+      const ledger = this.readRedemptions();
+      const others = (ledger[code] ?? []).filter(id => id !== orderId);
+      localStorage.setItem(REDEMPTIONS_STORAGE_KEY, JSON.stringify({
+        ...ledger,
+        [code]: change === 'record' ? [...others, orderId] : others
+      }));
+    } catch (error) {
+      this.logger.error('🌐 [WEB API]', `Failed to ${change} the redemption of ${code} by order ${orderId}:`, String(error));
     }
   }
 
   private getOrdersFromStorage(): Order[] {
     try {
-      const ordersData = localStorage.getItem('orders');
-      if (ordersData) {
-        const orders = JSON.parse(ordersData);
+      const orders = this.storage.read(this.ordersStorageKey, ordersMigrator);
+      if (orders) {
         // Ensure dates are properly parsed
-        return orders.map((order: any) => ({
+        return orders.map(order => ({
           ...order,
           createdAt: new Date(order.createdAt),
           estimatedDelivery: order.estimatedDelivery ? new Date(order.estimatedDelivery) : undefined,
+          deliveryWindow: order.deliveryWindow
+            ? { earliest: new Date(order.deliveryWindow.earliest), latest: new Date(order.deliveryWindow.latest) }
+            : undefined,
+          charge: order.charge ? { ...order.charge, authorizedAt: new Date(order.charge.authorizedAt) } : undefined,
+          statusHistory: order.statusHistory.map(change => ({ ...change, at: new Date(change.at) })),
           cart: {
             ...order.cart,
             createdAt: new Date(order.cart.createdAt),
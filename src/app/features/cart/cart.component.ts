@@ -1,4 +1,4 @@
-import { Component, computed } from '@angular/core';
+import { Component, computed, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
@@ -10,8 +10,12 @@ import { MatTableModule } from '@angular/material/table';
 import { MatInputModule } from '@angular/material/input';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { CartService } from '../../core/services/cart.service';
-import { CartItem } from '../../core/interfaces/cart.interface';
+import { CartItem, CartPriceChange } from '../../core/interfaces/cart.interface';
+import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { MAX_ITEM_QUANTITY, describeCartLimit } from '../../../../shared/cart-limits';
 
 @Component({
   selector: 'app-cart',
@@ -27,7 +31,10 @@ import { CartItem } from '../../core/interfaces/cart.interface';
     MatTableModule,
     MatInputModule,
     MatFormFieldModule,
-    MatTooltipModule
+    MatTooltipModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MoneyPipe
   ],
   templateUrl: './cart.component.html',
   styleUrls: ['./cart.component.scss']
@@ -36,18 +43,45 @@ export class CartComponent {
   // Table columns for cart items
   displayedColumns: string[] = ['image', 'product', 'price', 'quantity', 'subtotal', 'actions'];
 
+  // Most units of one product the cart accepts
+  readonly maxQuantity = MAX_ITEM_QUANTITY;
+
+  private snackBar = inject(MatSnackBar);
+
   constructor(private cartService: CartService) {}
 
   // Cart state from service (accessed as getters to avoid initialization issues)
   get cart() { return this.cartService.cart; }
   get cartSummary() { return this.cartService.cartSummary; }
+  get freeShippingShortfall() { return this.cartService.freeShippingShortfall; }
   get isEmpty() { return this.cartService.isEmpty; }
+  get loading() { return this.cartService.loading; }
+
+  // Products removed from the cart because they are no longer in the catalog
+  removedItems = computed(() => this.cartService.priceChanges().filter(change => change.currentPrice === null));
+
+  /**
+   * Catalog price change of an item still in the cart, if any
+   */
+  priceChangeFor(productId: number): CartPriceChange | undefined {
+    return this.cartService.priceChanges().find(change => change.productId === productId && change.currentPrice !== null);
+  }
+
+  /**
+   * Hide the notices about removed products
+   */
+  dismissPriceChanges(): void {
+    this.cartService.dismissPriceChanges();
+  }
 
   /**
-   * Update item quantity
+   * Update item quantity, telling the user if it was capped
    */
   updateQuantity(productId: number, quantity: number): void {
-    this.cartService.updateQuantity(productId, quantity);
+    const limit = this.cartService.updateQuantity(productId, quantity);
+    if (limit) {
+      this.snackBar.open(describeCartLimit(limit), 'Close', { duration: 3000 });
+    }
   }
 
   /**
@@ -80,12 +114,12 @@ export class CartComponent {
     
     if (quantity >= 1) {
       this.updateQuantity(productId, quantity);
-    } else {
-      // Reset to current quantity if invalid
-      const currentItem = this.cart().items.find(item => item.product.id === productId);
-      if (currentItem) {
-        input.value = currentItem.quantity.toString();
-      }
+    }
+
+    // Show the quantity the cart kept (the current one if invalid, the cap if beyond it)
+    const currentItem = this.cart().items.find(item => item.product.id === productId);
+    if (currentItem) {
+      input.value = currentItem.quantity.toString();
     }
   }
 
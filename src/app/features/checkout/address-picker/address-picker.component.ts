@@ -0,0 +1,34 @@
+import { Component, EventEmitter, Input, Output, inject } from '@angular/core';
+import { RouterModule } from '@angular/router';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { AddressUse, SavedAddress } from '../../../core/interfaces/customer-profile.interface';
+import { CustomerProfileService } from '../../../core/services/customer-profile.service';
+
+/**
+ * Address Picker Component - Fill a checkout form from the address book
+ * Hidden while the address book is empty.
+ */
+@Component({
+  selector: 'app-address-picker',
+  standalone: true,
+  imports: [
+    RouterModule,
+    MatFormFieldModule,
+    MatSelectModule
+  ],
+  templateUrl: './address-picker.component.html',
+  styleUrl: './address-picker.component.scss'
+})
+export class AddressPickerComponent {
+  customerProfiles = inject(CustomerProfileService);
+
+  // Which form the picker fills (marks that form's default address)
+  @Input({ required: true }) use!: AddressUse;
+  @Output() picked = new EventEmitter<SavedAddress>();
+
+  isDefault(entry: SavedAddress): boolean {
+    const defaults = this.use === 'billing' ? this.customerProfiles.defaultBilling() : this.customerProfiles.defaultShipping();
+    return defaults?.id === entry.id;
+  }
+}
@@ -1,6 +1,9 @@
-import { Component, signal, computed } from '@angular/core';
+import { Component, HostListener, signal, computed } from '@angular/core';
+import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { RouterModule, Router } from '@angular/router';
+import { merge } from 'rxjs';
+import { debounceTime, skip, tap } from 'rxjs/operators';
 import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
@@ -15,7 +18,33 @@ import { MatDividerModule } from '@angular/material/divider';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSnackBarModule, MatSnackBar } from '@angular/material/snack-bar';
 import { CartService } from '../../core/services/cart.service';
-import { BillingInfo, ShippingInfo, PaymentInfo, OrderRequest } from '../../core/interfaces/cart.interface';
+import { CurrencyService } from '../../core/services/currency.service';
+import { CheckoutDraftService } from '../../core/services/checkout-draft.service';
+import { CustomerProfileService } from '../../core/services/customer-profile.service';
+import { CustomerProfile, SavedAddress } from '../../core/interfaces/customer-profile.interface';
+import { PendingChanges } from '../../core/guards/unsaved-changes.guard';
+import { PromoCodeComponent } from './promo-code/promo-code.component';
+import { AddressFieldsComponent } from '../../shared/components/address-fields/address-fields.component';
+import { AddressPickerComponent } from './address-picker/address-picker.component';
+import { DEFAULT_COUNTRY, addressControls, watchAddressCountry } from '../../shared/components/address-fields/address-form';
+import { cardValidators, watchCardNumber } from './payment-form';
+import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { DeliveryWindowPipe } from '../../shared/pipes/delivery-window.pipe';
+import { BillingInfo, ShippingInfo, PaymentInfo, OrderRequest, PricingReport, ShippingMethod } from '../../core/interfaces/cart.interface';
+import { IpcValidationError, PaymentError, PriceDiscrepancyError, PromotionError, describePromotionError } from '../../../../shared/ipc-errors';
+import { PricingContext, calculateShipping } from '../../../../shared/pricing';
+import { describeTransit, estimateDelivery } from '../../../../shared/delivery';
+import { CardBrandRule, detectCardBrand, formatCardNumber } from '../../../../shared/payments';
+import { defaultAddress } from '../../../../shared/customer-profiles';
+
+// Typing pauses this long before the checkout draft is saved
+const DRAFT_SAVE_DELAY_MS = 500;
+
+const SHIPPING_OPTIONS: { value: ShippingMethod; label: string }[] = [
+  { value: 'standard', label: 'Standard Shipping' },
+  { value: 'express', label: 'Express Shipping' },
+  { value: 'overnight', label: 'Overnight Shipping' }
+];
 
 @Component({
   selector: 'app-checkout',
@@ -35,12 +64,17 @@ import { BillingInfo, ShippingInfo, PaymentInfo, OrderRequest } from '../../core
     MatStepperModule,
     MatDividerModule,
     MatProgressSpinnerModule,
-    MatSnackBarModule
+    MatSnackBarModule,
+    PromoCodeComponent,
+    AddressFieldsComponent,
+    AddressPickerComponent,
+    MoneyPipe,
+    DeliveryWindowPipe
   ],
   templateUrl: './checkout.component.html',
   styleUrls: ['./checkout.component.scss']
 })
-export class CheckoutComponent {
+export class CheckoutComponent implements PendingChanges {
   // Stepper control
   currentStep = signal(0);
   isProcessing = signal(false);
@@ -52,12 +86,53 @@ export class CheckoutComponent {
   
   // State
   sameAsShipping = signal(false);
+
+  // Brand of the card number being entered (shown next to it; sets the CVV length)
+  cardBrand = signal<CardBrandRule | undefined>(undefined);
+
+  // Price check result from the order pipeline (set when catalog prices differ from the cart)
+  priceReport = signal<PricingReport | null>(null);
+
+  // Shipping method and destination chosen so far; they price shipping and tax
+  private shippingSelection = signal<PricingContext>({ shippingMethod: 'standard' });
+
+  cartSummary = computed(() => this.cartService.summarize(this.shippingSelection()));
+
+  // Shipping methods with their cost for the current cart and their delivery window if ordered now
+  shippingOptions = computed(() => {
+    const subtotal = this.cart().totalAmount;
+    const rules = this.cartService.pricingRules();
+    const deliveryRules = this.cartService.deliveryRules();
+    const country = this.shippingSelection().address?.country;
+    return SHIPPING_OPTIONS.map(option => ({
+      value: option.value,
+      label: `${option.label} (${describeTransit(option.value, deliveryRules)})`,
+      cost: calculateShipping(subtotal, option.value, rules),
+      delivery: estimateDelivery(option.value, new Date(), country, deliveryRules)
+    }));
+  });
+
+  selectedDelivery = computed(() =>
+    this.shippingOptions().find(option => option.value === this.shippingSelection().shippingMethod)?.delivery
+  );
+
+  // Form changes not yet saved to the checkout draft
+  private readonly unsavedDraft = signal(false);
+  // Once the order is placed the draft is discarded and leaving checkout needs no warning
+  private orderPlaced = false;
+
+  // Identifies this checkout's order submission; retries and double clicks reuse it,
+  // so the order pipeline returns the original order instead of placing a second one
+  private readonly idempotencyKey = crypto.randomUUID();
   
   constructor(
     private cartService: CartService,
+    private currencyService: CurrencyService,
     private fb: FormBuilder,
     private router: Router,
-    private snackBar: MatSnackBar
+    private snackBar: MatSnackBar,
+    private drafts: CheckoutDraftService,
+    private customerProfiles: CustomerProfileService
   ) {
     // Redirect if cart is empty
     if (this.cartService.isEmpty()) {
@@ -66,11 +141,12 @@ export class CheckoutComponent {
     }
 
     this.initializeForms();
+    this.autosaveDraft();
+    this.restoreProgress();
   }
 
   // Getters for cart data
   get cart() { return this.cartService.cart; }
-  get cartSummary() { return this.cartService.cartSummary; }
   get isEmpty() { return this.cartService.isEmpty; }
 
   private initializeForms(): void {
@@ -80,35 +156,42 @@ export class CheckoutComponent {
       lastName: ['', [Validators.required, Validators.minLength(2)]],
       email: ['', [Validators.required, Validators.email]],
       phone: [''],
-      street: ['', Validators.required],
-      city: ['', Validators.required],
-      state: ['', Validators.required],
-      zipCode: ['', [Validators.required, Validators.pattern(/^\d{5}(-\d{4})?$/)]],
-      country: ['United States', Validators.required]
+      ...addressControls()
     });
+    watchAddressCountry(this.billingForm);
 
     // Shipping Information Form
     this.shippingForm = this.fb.group({
       firstName: ['', [Validators.required, Validators.minLength(2)]],
       lastName: ['', [Validators.required, Validators.minLength(2)]],
-      street: ['', Validators.required],
-      city: ['', Validators.required],
-      state: ['', Validators.required],
-      zipCode: ['', [Validators.required, Validators.pattern(/^\d{5}(-\d{4})?$/)]],
-      country: ['United States', Validators.required],
+      ...addressControls(),
       shippingMethod: ['standard', Validators.required]
     });
+    watchAddressCountry(this.shippingForm);
+
+    // Reprice the order summary as the shipping method and destination change
+    this.shippingForm.valueChanges.subscribe(value => {
+      this.shippingSelection.set({
+        shippingMethod: value.shippingMethod,
+        address: { country: value.country, state: value.state }
+      });
+    });
 
     // Payment Information Form
+    const card = cardValidators();
     this.paymentForm = this.fb.group({
       method: ['credit', Validators.required],
-      cardNumber: ['', [Validators.required, Validators.pattern(/^\d{16}$/)]],
-      expiryDate: ['', [Validators.required, Validators.pattern(/^(0[1-9]|1[0-2])\/\d{2}$/)]],
-      cvv: ['', [Validators.required, Validators.pattern(/^\d{3,4}$/)]],
+      cardNumber: ['', card.cardNumber],
+      expiryDate: ['', card.expiryDate],
+      cvv: ['', card.cvv],
       cardholderName: ['', Validators.required],
       paypalEmail: [''],
       cryptoWallet: ['']
     });
+    watchCardNumber(this.paymentForm);
+    this.paymentForm.get('cardNumber')?.valueChanges.subscribe(cardNumber => {
+      this.cardBrand.set(detectCardBrand(cardNumber ?? ''));
+    });
 
     // Watch payment method changes
     this.paymentForm.get('method')?.valueChanges.subscribe(method => {
@@ -126,6 +209,7 @@ export class CheckoutComponent {
     const cardholderName = this.paymentForm.get('cardholderName');
     const paypalEmail = this.paymentForm.get('paypalEmail');
     const cryptoWallet = this.paymentForm.get('cryptoWallet');
+    const card = cardValidators();
 
     // Clear all validators first
     [cardNumber, expiryDate, cvv, cardholderName, paypalEmail, cryptoWallet].forEach(control => {
@@ -137,9 +221,9 @@ export class CheckoutComponent {
     switch (method) {
       case 'credit':
       case 'debit':
-        cardNumber?.setValidators([Validators.required, Validators.pattern(/^\d{16}$/)]);
-        expiryDate?.setValidators([Validators.required, Validators.pattern(/^(0[1-9]|1[0-2])\/\d{2}$/)]);
-        cvv?.setValidators([Validators.required, Validators.pattern(/^\d{3,4}$/)]);
+        cardNumber?.setValidators(card.cardNumber);
+        expiryDate?.setValidators(card.expiryDate);
+        cvv?.setValidators(card.cvv);
         cardholderName?.setValidators([Validators.required]);
         break;
       case 'paypal':
@@ -156,6 +240,145 @@ export class CheckoutComponent {
     });
   }
 
+  /**
+   * Save the checkout draft shortly after each change (forms, step and "same as billing")
+   */
+  private autosaveDraft(): void {
+    merge(
+      this.billingForm.valueChanges,
+      this.shippingForm.valueChanges,
+      this.paymentForm.valueChanges,
+      toObservable(this.currentStep).pipe(skip(1)),
+      toObservable(this.sameAsShipping).pipe(skip(1))
+    ).pipe(
+      tap(() => this.unsavedDraft.set(true)),
+      debounceTime(DRAFT_SAVE_DELAY_MS),
+      takeUntilDestroyed()
+    ).subscribe(() => this.saveDraft());
+  }
+
+  /**
+   * Fill the forms from the draft saved for this cart and return to the step the customer was on;
+   * without a draft, start from the customer's saved contact details and default addresses
+   */
+  private async restoreProgress(): Promise<void> {
+    const [draft, profile] = await Promise.all([this.drafts.load(), this.customerProfiles.load()]);
+    if (!draft) {
+      this.prefillFromProfile(profile);
+      return;
+    }
+
+    this.billingForm.patchValue(draft.billing);
+    this.sameAsShipping.set(draft.sameAsShipping);
+    this.shippingForm.patchValue(draft.shipping);
+    this.paymentForm.patchValue(draft.payment);
+    this.currentStep.set(draft.step);
+
+    const byCard = draft.payment.method === 'credit' || draft.payment.method === 'debit';
+    this.snackBar.open(`Your checkout details have been restored.${byCard ? ' Please enter your card details again.' : ''}`, 'Close', {
+      duration: 5000
+    });
+  }
+
+  private prefillFromProfile(profile: CustomerProfile): void {
+    // Never overwrite what the customer typed while the profile loaded
+    if (!this.billingForm.pristine || !this.shippingForm.pristine) {
+      return;
+    }
+
+    if (profile.contact) {
+      this.billingForm.patchValue(profile.contact);
+    }
+    const billing = defaultAddress(profile, 'billing');
+    if (billing) {
+      this.fillBilling(billing);
+    }
+    const shipping = defaultAddress(profile, 'shipping');
+    if (shipping) {
+      this.fillShipping(shipping);
+    }
+  }
+
+  /**
+   * Fill the billing form from an address book entry
+   */
+  fillBilling(entry: SavedAddress): void {
+    this.billingForm.patchValue({
+      firstName: entry.firstName,
+      lastName: entry.lastName,
+      ...(entry.phone ? { phone: entry.phone } : {}),
+      ...entry.address
+    });
+    if (this.sameAsShipping()) {
+      this.copyBillingToShipping();
+    }
+  }
+
+  /**
+   * Fill the shipping form from an address book entry (keeps the chosen shipping method)
+   */
+  fillShipping(entry: SavedAddress): void {
+    this.sameAsShipping.set(false);
+    this.shippingForm.patchValue({
+      firstName: entry.firstName,
+      lastName: entry.lastName,
+      ...entry.address
+    });
+  }
+
+  private async saveDraft(): Promise<void> {
+    if (this.orderPlaced) {
+      return;
+    }
+
+    // Card number, expiry date and CVV are left out on purpose
+    const { method, cardholderName, paypalEmail, cryptoWallet } = this.paymentForm.value;
+    this.unsavedDraft.set(false);
+    const saved = await this.drafts.save({
+      step: this.currentStep(),
+      sameAsShipping: this.sameAsShipping(),
+      billing: this.billingForm.value,
+      shipping: this.shippingForm.value,
+      payment: { method, cardholderName, paypalEmail, cryptoWallet }
+    });
+    if (!saved) {
+      this.unsavedDraft.set(true);
+    }
+  }
+
+  /**
+   * Save pending changes before the window closes (Electron) or the page unloads
+   */
+  @HostListener('window:beforeunload')
+  flushDraft(): void {
+    if (this.unsavedDraft()) {
+      this.saveDraft();
+    }
+  }
+
+  /**
+   * Warning for the unsaved changes guard: pending changes are saved first,
+   * so only details that cannot be kept are reported
+   */
+  async pendingChangesWarning(): Promise<string | null> {
+    if (this.orderPlaced || !this.paymentForm) {
+      return null;
+    }
+
+    if (this.unsavedDraft()) {
+      await this.saveDraft();
+    }
+    if (this.unsavedDraft()) {
+      return 'Your checkout details could not be saved. Leave checkout anyway?';
+    }
+
+    const { cardNumber, expiryDate, cvv } = this.paymentForm.value;
+    if (cardNumber || expiryDate || cvv) {
+      return 'Card details are not saved and will need to be entered again. Leave checkout anyway?';
+    }
+    return null;
+  }
+
   /**
    * Copy billing address to shipping
    */
@@ -174,7 +397,7 @@ export class CheckoutComponent {
     } else {
       this.shippingForm.reset({
         shippingMethod: 'standard',
-        country: 'United States'
+        country: DEFAULT_COUNTRY
       });
     }
   }
@@ -224,7 +447,13 @@ export class CheckoutComponent {
       return;
     }
 
+    // Ignore clicks while the order is being placed
+    if (this.isProcessing()) {
+      return;
+    }
+
     this.isProcessing.set(true);
+    this.priceReport.set(null);
 
     try {
       // Prepare order data
@@ -273,24 +502,75 @@ export class CheckoutComponent {
         cart: this.cart(),
         billing,
         shipping,
-        payment
+        payment,
+        idempotencyKey: this.idempotencyKey,
+        // A code that no longer applies to the cart is left off rather than failing the order
+        promoCode: this.cartService.promotion().applied?.code,
+        // Recorded on the order with today's exchange rate
+        currency: this.currencyService.currency().code
       };
 
       // Submit order
       const order = await this.cartService.createOrder(orderRequest);
+
+      // The draft has served its purpose
+      this.orderPlaced = true;
+      this.drafts.clear();
       
-      this.snackBar.open('Order placed successfully!', 'Close', {
+      // Flagged orders were placed at catalog prices rather than the cart's prices
+      const message = order.pricingReport
+        ? `Order placed at current catalog prices (total ${this.currencyService.format(order.total, order.currency)})`
+        : 'Order placed successfully!';
+      this.snackBar.open(message, 'Close', {
         duration: 5000,
         panelClass: ['success-snackbar']
       });
 
-      // Navigate to order confirmation (or dashboard)
-      this.router.navigate(['/dashboard'], { 
-        queryParams: { orderId: order.id, orderSuccess: true }
-      });
+      // Show the receipt (handing over the order saves a round trip)
+      this.router.navigate(['/orders', order.id, 'confirmation'], { state: { order } });
 
     } catch (error) {
       console.error('Order submission failed:', error);
+
+      if (error instanceof PriceDiscrepancyError) {
+        this.priceReport.set(error.report);
+        // Bring the cart up to date so 'Review Cart' shows what changed
+        this.cartService.revalidate();
+        this.snackBar.open('Some prices have changed. Please review your order.', 'Close', {
+          duration: 5000,
+          panelClass: ['error-snackbar']
+        });
+        return;
+      }
+
+      if (error instanceof PromotionError) {
+        this.cartService.removePromoCode();
+        const message = describePromotionError(error, this.currencyService.currency());
+        this.snackBar.open(`${message} It has been removed from your order.`, 'Close', {
+          duration: 5000,
+          panelClass: ['error-snackbar']
+        });
+        return;
+      }
+
+      if (error instanceof PaymentError) {
+        // Nothing was charged (or, on a timeout, a retry reuses the charge); the customer can fix the card or retry
+        this.snackBar.open(error.message, 'Close', {
+          duration: 5000,
+          panelClass: ['error-snackbar']
+        });
+        return;
+      }
+
+      if (error instanceof IpcValidationError) {
+        const issue = error.issues[0];
+        this.snackBar.open(`Please check your details: ${issue ? describeIssuePath(issue.path) + ' ' + issue.message : 'some fields are invalid'}.`, 'Close', {
+          duration: 5000,
+          panelClass: ['error-snackbar']
+        });
+        return;
+      }
+
       this.snackBar.open('Failed to place order. Please try again.', 'Close', {
         duration: 5000,
         panelClass: ['error-snackbar']
@@ -316,27 +596,26 @@ export class CheckoutComponent {
     }
     if (control?.hasError('pattern')) {
       switch (field) {
-        case 'zipCode': return 'Enter a valid zip code (12345 or 12345-6789)';
-        case 'cardNumber': return 'Enter a valid 16-digit card number';
         case 'expiryDate': return 'Enter date in MM/YY format';
-        case 'cvv': return 'Enter a valid CVV (3-4 digits)';
+        case 'cvv': return 'CVV must contain only digits';
         default: return `${field} format is invalid`;
       }
     }
+    if (control?.hasError('card')) {
+      const names: Record<string, string> = { cardNumber: 'Card number', expiryDate: 'Expiry date', cvv: 'CVV' };
+      return `${names[field] ?? field} ${control.errors?.['card']}`;
+    }
     return '';
   }
 
   /**
-   * Format card number with spaces
+   * Format card number with spaces, grouped for its brand
    */
   formatCardNumber(event: any): void {
-    let value = event.target.value.replace(/\s/g, '');
-    let formattedValue = value.replace(/(.{4})/g, '$1 ').trim();
-    if (formattedValue.length > 19) {
-      formattedValue = formattedValue.substring(0, 19);
-    }
-    event.target.value = formattedValue;
-    this.paymentForm.get('cardNumber')?.setValue(value.replace(/\s/g, ''));
+    const value = event.target.value.replace(/\D/g, '').substring(0, 19);
+    event.target.value = formatCardNumber(value);
+    // Keep the grouped number on screen; the control holds digits only
+    this.paymentForm.get('cardNumber')?.setValue(value, { emitModelToViewChange: false });
   }
 
   /**
@@ -350,4 +629,13 @@ export class CheckoutComponent {
     event.target.value = value;
     this.paymentForm.get('expiryDate')?.setValue(value);
   }
-}
\ No newline at end of file
+}
+
+// Issue path of a rejected order request as words, e.g. 'orderRequest.shipping.address.zipCode' → 'shipping postal code'
+function describeIssuePath(path: string): string {
+  const names: Record<string, string> = { zipCode: 'postal code', state: 'state / region' };
+  return path.split('.')
+    .filter(segment => segment !== 'orderRequest' && segment !== 'address')
+    .map(segment => names[segment] ?? segment)
+    .join(' ');
+}
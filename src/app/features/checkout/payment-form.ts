@@ -0,0 +1,54 @@
+import { AbstractControl, FormGroup, ValidationErrors, ValidatorFn, Validators } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { CardIssue, validateCard } from '../../../../shared/payments';
+
+/**
+ * Payment Form Helpers
+ * Validators for the card fields of the checkout payment form, built on the card checks
+ * the order pipelines run (shared/payments.ts).
+ */
+
+const EXPIRY_FORMAT = /^(0[1-9]|1[0-2])\/\d{2}$/;
+
+/**
+ * Validators for each card field while a credit or debit payment is selected
+ */
+export function cardValidators(): Record<CardIssue['field'], ValidatorFn[]> {
+  return {
+    cardNumber: [Validators.required, cardFieldValidator('cardNumber')],
+    expiryDate: [Validators.required, Validators.pattern(EXPIRY_FORMAT), cardFieldValidator('expiryDate')],
+    cvv: [Validators.required, Validators.pattern(/^\d+$/), cardFieldValidator('cvv')]
+  };
+}
+
+/**
+ * Validates one card field against the card entered in the same form
+ * Error: `card` holding the message, phrased to follow the field's name (e.g. 'must be 4 digits for American Express')
+ */
+export function cardFieldValidator(field: CardIssue['field']): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    const form = control.parent;
+    if (!control.value || !form) {
+      return null;
+    }
+    const issue = validateCard({
+      method: 'credit',
+      cardNumber: form.get('cardNumber')?.value,
+      expiryDate: form.get('expiryDate')?.value,
+      cvv: form.get('cvv')?.value
+    }).find(candidate => candidate.field === field);
+    return issue ? { card: issue.message } : null;
+  };
+}
+
+/**
+ * Re-validate the CVV whenever the card number changes (its length depends on the brand)
+ */
+export function watchCardNumber(form: FormGroup): Subscription {
+  return form.get('cardNumber')!.valueChanges.subscribe(() => {
+    const cvv = form.get('cvv')!;
+    if (cvv.value) {
+      cvv.updateValueAndValidity();
+    }
+  });
+}
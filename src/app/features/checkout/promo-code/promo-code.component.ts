@@ -0,0 +1,59 @@
+import { Component, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { CartService } from '../../../core/services/cart.service';
+import { CurrencyService } from '../../../core/services/currency.service';
+import { PromotionError, describePromotionError } from '../../../../../shared/ipc-errors';
+
+/**
+ * Promo Code Component - Enter, show and remove the cart's promo code (checkout summary)
+ */
+@Component({
+  selector: 'app-promo-code',
+  standalone: true,
+  imports: [
+    FormsModule,
+    MatButtonModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatInputModule
+  ],
+  templateUrl: './promo-code.component.html',
+  styleUrl: './promo-code.component.scss'
+})
+export class PromoCodeComponent {
+  cartService = inject(CartService);
+  private currencyService = inject(CurrencyService);
+
+  code = '';
+  errorMessage = signal<string | null>(null);
+
+  apply(): void {
+    if (!this.code.trim()) {
+      return;
+    }
+
+    try {
+      this.cartService.applyPromoCode(this.code);
+      this.code = '';
+      this.errorMessage.set(null);
+    } catch (error) {
+      this.errorMessage.set(error instanceof PromotionError ? this.describe(error) : 'This promo code cannot be applied.');
+    }
+  }
+
+  remove(): void {
+    this.cartService.removePromoCode();
+    this.errorMessage.set(null);
+  }
+
+  /**
+   * Why a code does not apply, with the minimum spend in the display currency
+   */
+  describe(error: PromotionError | null): string {
+    return error ? describePromotionError(error, this.currencyService.currency()) : '';
+  }
+}
@@ -12,6 +12,8 @@ import { CartService } from '../../core/services/cart.service';
 import { Product } from '../../core/interfaces/product.interface';
 import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner/loading-spinner.component';
 import { ErrorMessageComponent } from '../../shared/components/error-message/error-message.component';
+import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { describeCartLimit } from '../../../../shared/cart-limits';
 
 @Component({
   selector: 'app-dashboard',
@@ -26,7 +28,8 @@ import { ErrorMessageComponent } from '../../shared/components/error-message/err
     MatIconModule,
     MatSnackBarModule,
     LoadingSpinnerComponent,
-    ErrorMessageComponent
+    ErrorMessageComponent,
+    MoneyPipe
   ],
   templateUrl: './dashboard.component.html',
   styleUrl: './dashboard.component.scss'
@@ -80,9 +83,10 @@ export class DashboardComponent implements OnInit {
    */
   addToCart(product: Product): void {
     console.log('🛒 Dashboard addToCart called with product:', product);
-    this.cartService.addToCart(product);
+    const limit = this.cartService.addToCart(product);
     console.log('🛒 After adding to cart, cart summary:', this.cartService.cartSummary());
-    this.snackBar.open(`${product.title} added to cart!`, 'View Cart', {
+    const message = limit ? describeCartLimit(limit) : `${product.title} added to cart!`;
+    this.snackBar.open(message, 'View Cart', {
       duration: 3000,
       horizontalPosition: 'right',
       verticalPosition: 'bottom',
@@ -0,0 +1,98 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatDividerModule } from '@angular/material/divider';
+import { MatSnackBarModule, MatSnackBar } from '@angular/material/snack-bar';
+import { Order } from '../../../core/interfaces/cart.interface';
+import { OrderService } from '../../../core/services/order.service';
+import { DocumentService } from '../../../core/services/document.service';
+import { PAYMENT_METHOD_LABELS, SHIPPING_METHOD_LABELS, describeChargeCard } from '../order-display';
+import { LoadingSpinnerComponent } from '../../../shared/components/loading-spinner/loading-spinner.component';
+import { ErrorMessageComponent } from '../../../shared/components/error-message/error-message.component';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { DeliveryWindowPipe } from '../../../shared/pipes/delivery-window.pipe';
+
+/**
+ * Order Confirmation Component - Receipt for a just-placed order, printable and savable as PDF
+ */
+@Component({
+  selector: 'app-order-confirmation',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatDividerModule,
+    MatSnackBarModule,
+    LoadingSpinnerComponent,
+    ErrorMessageComponent,
+    MoneyPipe,
+    DeliveryWindowPipe
+  ],
+  templateUrl: './order-confirmation.component.html',
+  styleUrl: './order-confirmation.component.scss'
+})
+export class OrderConfirmationComponent implements OnInit, OnDestroy {
+  private route = inject(ActivatedRoute);
+  private snackBar = inject(MatSnackBar);
+
+  orderService = inject(OrderService);
+  documents = inject(DocumentService);
+
+  readonly paymentLabels = PAYMENT_METHOD_LABELS;
+  readonly shippingLabels = SHIPPING_METHOD_LABELS;
+  readonly describeChargeCard = describeChargeCard;
+
+  orderId = '';
+  order = computed(() => this.orderService.selectedOrder());
+  saving = signal(false);
+
+  ngOnInit(): void {
+    this.route.params.subscribe(params => {
+      this.orderId = params['id'];
+
+      // Checkout hands over the submitted order; reloads and direct links fetch it
+      const submitted: Order | undefined = history.state?.order;
+      if (submitted?.id === this.orderId) {
+        this.orderService.selectOrder(submitted);
+      } else if (this.orderId) {
+        this.orderService.loadOrderById(this.orderId);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.orderService.clearSelectedOrder();
+  }
+
+  onRetry(): void {
+    this.orderService.clearError();
+    this.orderService.loadOrderById(this.orderId);
+  }
+
+  print(): void {
+    this.documents.print();
+  }
+
+  /**
+   * Save the receipt as a PDF (Electron only)
+   */
+  async saveAsPdf(): Promise<void> {
+    this.saving.set(true);
+    try {
+      const filePath = await this.documents.saveAsPdf(`receipt-${this.orderId}.pdf`);
+      if (filePath) {
+        this.snackBar.open(`Receipt saved to ${filePath}`, 'Close', { duration: 5000 });
+      }
+    } catch {
+      this.snackBar.open('Failed to save the receipt. Please try again.', 'Close', { duration: 5000 });
+    } finally {
+      this.saving.set(false);
+    }
+  }
+}
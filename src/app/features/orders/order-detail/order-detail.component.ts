@@ -0,0 +1,111 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatDividerModule } from '@angular/material/divider';
+import { MatSnackBarModule, MatSnackBar } from '@angular/material/snack-bar';
+import { OrderService } from '../../../core/services/order.service';
+import { OrderTransitionError } from '../../../../../shared/ipc-errors';
+import { isCancellable } from '../../../../../shared/order-status';
+import { ORDER_STATUS_DISPLAY, PAYMENT_METHOD_LABELS, SHIPPING_METHOD_LABELS, describeChargeCard } from '../order-display';
+import { LoadingSpinnerComponent } from '../../../shared/components/loading-spinner/loading-spinner.component';
+import { ErrorMessageComponent } from '../../../shared/components/error-message/error-message.component';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { DeliveryWindowPipe } from '../../../shared/pipes/delivery-window.pipe';
+
+@Component({
+  selector: 'app-order-detail',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatDividerModule,
+    MatSnackBarModule,
+    LoadingSpinnerComponent,
+    ErrorMessageComponent,
+    MoneyPipe,
+    DeliveryWindowPipe
+  ],
+  templateUrl: './order-detail.component.html',
+  styleUrl: './order-detail.component.scss'
+})
+export class OrderDetailComponent implements OnInit, OnDestroy {
+  orderId = '';
+
+  private snackBar = inject(MatSnackBar);
+
+  readonly statusDisplay = ORDER_STATUS_DISPLAY;
+  readonly paymentLabels = PAYMENT_METHOD_LABELS;
+  readonly shippingLabels = SHIPPING_METHOD_LABELS;
+  readonly describeChargeCard = describeChargeCard;
+
+  order = computed(() => this.orderService.selectedOrder());
+  canCancel = computed(() => {
+    const order = this.order();
+    return !!order && isCancellable(order);
+  });
+  cancelling = signal(false);
+
+  constructor(
+    public orderService: OrderService,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {}
+
+  ngOnInit(): void {
+    // Get order ID from route parameter
+    this.route.params.subscribe(params => {
+      this.orderId = params['id'];
+      if (this.orderId) {
+        this.orderService.loadOrderById(this.orderId);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    // Clear selected order when leaving the component
+    this.orderService.clearSelectedOrder();
+  }
+
+  /**
+   * Retry loading the order
+   */
+  onRetry(): void {
+    this.orderService.clearError();
+    this.orderService.loadOrderById(this.orderId);
+  }
+
+  /**
+   * Navigate back to order history
+   */
+  goBack(): void {
+    this.router.navigate(['/orders']);
+  }
+
+  /**
+   * Cancel the order (only before it ships)
+   */
+  async cancelOrder(): Promise<void> {
+    if (!confirm(`Cancel order ${this.orderId}?`)) {
+      return;
+    }
+
+    this.cancelling.set(true);
+    try {
+      await this.orderService.cancelOrder(this.orderId, 'Cancelled by customer');
+      this.snackBar.open('Order cancelled', 'Close', { duration: 3000 });
+    } catch (error) {
+      const message = error instanceof OrderTransitionError
+        ? error.message
+        : 'Failed to cancel order. Please try again.';
+      this.snackBar.open(message, 'Close', { duration: 5000 });
+    } finally {
+      this.cancelling.set(false);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { OrderStatus, PaymentInfo } from '../../core/interfaces/cart.interface';
+import { PaymentCharge } from '../../core/interfaces/payment.interface';
+import { CARD_BRANDS } from '../../../../shared/payments';
+
+/**
+ * Label and icon for each order status (status chips and the order timeline)
+ */
+export const ORDER_STATUS_DISPLAY: Record<OrderStatus, { label: string; icon: string }> = {
+  pending: { label: 'Pending', icon: 'schedule' },
+  processing: { label: 'Processing', icon: 'inventory' },
+  shipped: { label: 'Shipped', icon: 'local_shipping' },
+  delivered: { label: 'Delivered', icon: 'check_circle' },
+  cancelled: { label: 'Cancelled', icon: 'cancel' }
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentInfo['method'], string> = {
+  credit: 'Credit Card',
+  debit: 'Debit Card',
+  paypal: 'PayPal',
+  crypto: 'Cryptocurrency'
+};
+
+/**
+ * Card a charge was taken from, e.g. 'Visa ending in 4242' (null for payments without a card)
+ */
+export function describeChargeCard(charge: PaymentCharge): string | null {
+  if (!charge.last4) {
+    return null;
+  }
+  const brand = CARD_BRANDS.find(rule => rule.brand === charge.brand)?.label ?? 'Card';
+  return `${brand} ending in ${charge.last4}`;
+}
+
+export const SHIPPING_METHOD_LABELS: Record<string, string> = {
+  standard: 'Standard Shipping',
+  express: 'Express Shipping',
+  overnight: 'Overnight Shipping'
+};
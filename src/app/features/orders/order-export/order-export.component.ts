@@ -0,0 +1,82 @@
+import { Component, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBarModule, MatSnackBar } from '@angular/material/snack-bar';
+import { OrderExportFormat, OrderExportRows } from '../../../core/interfaces/order-export.interface';
+import { OrderExportService } from '../../../core/services/order-export.service';
+
+/**
+ * Order Export Component - Exports the order history for a date range (shown on the orders page)
+ */
+@Component({
+  selector: 'app-order-export',
+  standalone: true,
+  imports: [
+    FormsModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule
+  ],
+  templateUrl: './order-export.component.html',
+  styleUrl: './order-export.component.scss'
+})
+export class OrderExportComponent {
+  private orderExport = inject(OrderExportService);
+  private snackBar = inject(MatSnackBar);
+
+  readonly formats: { value: OrderExportFormat; label: string }[] = [
+    { value: 'csv', label: 'CSV' },
+    { value: 'spreadsheet', label: 'Excel (.xlsx)' },
+    { value: 'json', label: 'JSON' }
+  ];
+
+  format = signal<OrderExportFormat>('csv');
+  rows = signal<OrderExportRows>('order');
+  // yyyy-mm-dd values from the date inputs
+  from = signal('');
+  to = signal('');
+  exporting = signal(false);
+
+  async onExport(): Promise<void> {
+    const from = parseDay(this.from());
+    const to = parseDay(this.to());
+    if (from && to && from > to) {
+      this.snackBar.open('The start date must be on or before the end date', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.exporting.set(true);
+    try {
+      const result = await this.orderExport.exportOrders({ format: this.format(), rows: this.rows(), from, to });
+      if (result.count === 0) {
+        this.snackBar.open('No orders were placed in the selected date range', 'Close', { duration: 3000 });
+      } else if (result.location) {
+        this.snackBar.open(`Exported ${result.count} orders to ${result.location}`, 'Close', { duration: 5000 });
+      }
+    } catch (error) {
+      console.error('Order export failed:', error);
+      this.snackBar.open('Failed to export orders. Please try again.', 'Close', { duration: 5000 });
+    } finally {
+      this.exporting.set(false);
+    }
+  }
+}
+
+/**
+ * Local midnight of a yyyy-mm-dd date input value
+ */
+function parseDay(value: string): Date | undefined {
+  const [year, month, day] = value.split('-').map(Number);
+  return year && month && day ? new Date(year, month - 1, day) : undefined;
+}
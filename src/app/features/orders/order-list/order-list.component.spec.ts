@@ -0,0 +1,85 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { provideRouter } from '@angular/router';
+import { OrderListComponent } from './order-list.component';
+import { OrderService } from '../../../core/services/order.service';
+import { Order, OrderStatus } from '../../../core/interfaces/cart.interface';
+
+describe('OrderListComponent', () => {
+  const orders = signal<Order[]>([]);
+  let component: OrderListComponent;
+
+  function order(id: string, status: OrderStatus, total: number, createdAt: string, lastName = 'Lovelace'): Order {
+    const date = new Date(createdAt);
+    const address = { street: '1 Main St', city: 'Albany', state: 'NY', zipCode: '12207', country: 'United States' };
+    return {
+      id,
+      cart: { items: [], totalItems: 0, totalAmount: total, createdAt: date, updatedAt: date },
+      billing: { firstName: 'Ada', lastName, email: 'ada@example.com', address },
+      shipping: { firstName: 'Ada', lastName, address, shippingMethod: 'standard' },
+      payment: { method: 'paypal', paypalEmail: 'ada@example.com' },
+      subtotal: total,
+      shipping_cost: 0,
+      tax: 0,
+      total,
+      status,
+      statusHistory: [{ status, at: date }],
+      createdAt: date,
+      currency: { code: 'USD', rate: 1 }
+    };
+  }
+
+  beforeEach(() => {
+    orders.set([
+      order('ORD-A', 'pending', 30, '2024-03-01'),
+      order('ORD-B', 'shipped', 10, '2024-03-03', 'Hopper'),
+      order('ORD-C', 'pending', 20, '2024-03-02')
+    ]);
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([]),
+        { provide: OrderService, useValue: { orders: orders.asReadonly() } }
+      ]
+    });
+    component = TestBed.runInInjectionContext(() => new OrderListComponent());
+  });
+
+  function visibleIds(): string[] {
+    return component.visibleOrders().map(entry => entry.id);
+  }
+
+  it('should list the newest orders first', () => {
+    expect(visibleIds()).toEqual(['ORD-B', 'ORD-C', 'ORD-A']);
+  });
+
+  it('should sort by the chosen column and fall back to newest first', () => {
+    component.onSortChange({ active: 'total', direction: 'asc' });
+    expect(visibleIds()).toEqual(['ORD-B', 'ORD-C', 'ORD-A']);
+
+    component.onSortChange({ active: 'id', direction: 'desc' });
+    expect(visibleIds()).toEqual(['ORD-C', 'ORD-B', 'ORD-A']);
+
+    component.onSortChange({ active: 'id', direction: '' });
+    expect(component.sort()).toEqual({ column: 'createdAt', direction: 'desc' });
+  });
+
+  it('should filter by status and toggle the filter off again', () => {
+    component.toggleStatusFilter('pending');
+    expect(visibleIds()).toEqual(['ORD-C', 'ORD-A']);
+
+    component.toggleStatusFilter('pending');
+    expect(visibleIds().length).toBe(3);
+  });
+
+  it('should search by order id and customer name', () => {
+    component.searchTerm.set('ord-a');
+    expect(visibleIds()).toEqual(['ORD-A']);
+
+    component.searchTerm.set(' hopper ');
+    expect(visibleIds()).toEqual(['ORD-B']);
+  });
+
+  it('should count the orders in each status', () => {
+    expect(component.statusCounts()).toEqual({ pending: 2, processing: 0, shipped: 1, delivered: 0, cancelled: 0 });
+  });
+});
@@ -0,0 +1,142 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router, RouterLink } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatTableModule } from '@angular/material/table';
+import { MatSortModule, Sort } from '@angular/material/sort';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { OrderService } from '../../../core/services/order.service';
+import { Order, OrderStatus } from '../../../core/interfaces/cart.interface';
+import { ORDER_STATUSES } from '../../../../../shared/order-status';
+import { ORDER_STATUS_DISPLAY } from '../order-display';
+import { OrderExportComponent } from '../order-export/order-export.component';
+import { LoadingSpinnerComponent } from '../../../shared/components/loading-spinner/loading-spinner.component';
+import { ErrorMessageComponent } from '../../../shared/components/error-message/error-message.component';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+
+type SortColumn = 'createdAt' | 'id' | 'items' | 'status' | 'total';
+
+@Component({
+  selector: 'app-order-list',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    RouterLink,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatChipsModule,
+    MatTableModule,
+    MatSortModule,
+    MatFormFieldModule,
+    MatInputModule,
+    LoadingSpinnerComponent,
+    ErrorMessageComponent,
+    OrderExportComponent,
+    MoneyPipe
+  ],
+  templateUrl: './order-list.component.html',
+  styleUrl: './order-list.component.scss'
+})
+export class OrderListComponent implements OnInit {
+  private router = inject(Router);
+
+  orderService = inject(OrderService);
+
+  readonly statuses = ORDER_STATUSES;
+  readonly statusDisplay = ORDER_STATUS_DISPLAY;
+  displayedColumns: string[] = ['id', 'createdAt', 'items', 'status', 'total'];
+
+  // Filters and sort order
+  statusFilter = signal<OrderStatus | null>(null);
+  searchTerm = signal('');
+  showExport = signal(false);
+  sort = signal<{ column: SortColumn; direction: 'asc' | 'desc' }>({ column: 'createdAt', direction: 'desc' });
+
+  // Orders after filtering and sorting
+  visibleOrders = computed(() => {
+    const status = this.statusFilter();
+    const term = this.searchTerm().trim().toLowerCase();
+    const { column, direction } = this.sort();
+
+    const orders = this.orderService.orders().filter(order =>
+      (!status || order.status === status) &&
+      (!term || this.matchesSearch(order, term))
+    );
+
+    const factor = direction === 'asc' ? 1 : -1;
+    return [...orders].sort((a, b) => this.compare(a, b, column) * factor);
+  });
+
+  // Number of orders per status, for the filter chips
+  statusCounts = computed(() => {
+    const counts = {} as Record<OrderStatus, number>;
+    for (const status of ORDER_STATUSES) {
+      counts[status] = 0;
+    }
+    for (const order of this.orderService.orders()) {
+      counts[order.status]++;
+    }
+    return counts;
+  });
+
+  ngOnInit(): void {
+    this.orderService.loadOrders();
+  }
+
+  /**
+   * Retry loading orders on error
+   */
+  onRetry(): void {
+    this.orderService.clearError();
+    this.orderService.loadOrders();
+  }
+
+  onSortChange(sort: Sort): void {
+    // Clearing the sort falls back to newest first
+    this.sort.set(sort.direction
+      ? { column: sort.active as SortColumn, direction: sort.direction }
+      : { column: 'createdAt', direction: 'desc' });
+  }
+
+  toggleStatusFilter(status: OrderStatus): void {
+    this.statusFilter.set(this.statusFilter() === status ? null : status);
+  }
+
+  openOrder(order: Order): void {
+    this.router.navigate(['/orders', order.id]);
+  }
+
+  // Table rows are untyped in the template
+  displayFor(order: Order) {
+    return ORDER_STATUS_DISPLAY[order.status];
+  }
+
+  private matchesSearch(order: Order, term: string): boolean {
+    return order.id.toLowerCase().includes(term) ||
+      `${order.billing.firstName} ${order.billing.lastName}`.toLowerCase().includes(term) ||
+      order.cart.items.some(item => item.product.title.toLowerCase().includes(term));
+  }
+
+  private compare(a: Order, b: Order, column: SortColumn): number {
+    switch (column) {
+      case 'id':
+        return a.id.localeCompare(b.id);
+      case 'items':
+        return a.cart.totalItems - b.cart.totalItems;
+      case 'status':
+        return ORDER_STATUSES.indexOf(a.status) - ORDER_STATUSES.indexOf(b.status);
+      case 'total':
+        return a.total - b.total;
+      case 'createdAt':
+      default:
+        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Component, OnInit, OnDestroy, inject } from '@angular/core';
+import { Component, OnInit, OnDestroy, computed, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ActivatedRoute, Router } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
@@ -11,6 +11,8 @@ import { ProductService } from '../../../core/services/product.service';
 import { CartService } from '../../../core/services/cart.service';
 import { LoadingSpinnerComponent } from '../../../shared/components/loading-spinner/loading-spinner.component';
 import { ErrorMessageComponent } from '../../../shared/components/error-message/error-message.component';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { describeCartLimit } from '../../../../../shared/cart-limits';
 
 @Component({
   selector: 'app-product-detail',
@@ -24,7 +26,8 @@ import { ErrorMessageComponent } from '../../../shared/components/error-message/
     MatDividerModule,
     MatSnackBarModule,
     LoadingSpinnerComponent,
-    ErrorMessageComponent
+    ErrorMessageComponent,
+    MoneyPipe
   ],
   templateUrl: './product-detail.component.html',
   styleUrl: './product-detail.component.scss'
@@ -35,6 +38,9 @@ export class ProductDetailComponent implements OnInit, OnDestroy {
   private cartService = inject(CartService);
   private snackBar = inject(MatSnackBar);
 
+  // Subtotal from which standard shipping is free (undefined if it never is)
+  freeShippingThreshold = computed(() => this.cartService.pricingRules().freeShippingThresholds.standard);
+
   constructor(
     public productService: ProductService,
     private route: ActivatedRoute,
@@ -77,8 +83,9 @@ export class ProductDetailComponent implements OnInit, OnDestroy {
   addToCart(): void {
     const product = this.productService.selectedProduct();
     if (product) {
-      this.cartService.addToCart(product);
-      this.snackBar.open(`${product.title} added to cart!`, 'View Cart', {
+      const limit = this.cartService.addToCart(product);
+      const message = limit ? describeCartLimit(limit) : `${product.title} added to cart!`;
+      this.snackBar.open(message, 'View Cart', {
         duration: 3000,
         horizontalPosition: 'right',
         verticalPosition: 'bottom',
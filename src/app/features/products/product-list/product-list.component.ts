@@ -1,4 +1,4 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnInit, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import { FormsModule } from '@angular/forms';
@@ -10,8 +10,10 @@ import { MatInputModule } from '@angular/material/input';
 import { MatSelectModule } from '@angular/material/select';
 import { ProductService } from '../../../core/services/product.service';
 import { Product } from '../../../core/interfaces/product.interface';
+import { IDataApi } from '../../../core/interfaces/idata-api.interface';
 import { LoadingSpinnerComponent } from '../../../shared/components/loading-spinner/loading-spinner.component';
 import { ErrorMessageComponent } from '../../../shared/components/error-message/error-message.component';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
 
 @Component({
   selector: 'app-product-list',
@@ -27,7 +29,8 @@ import { ErrorMessageComponent } from '../../../shared/components/error-message/
     MatInputModule,
     MatSelectModule,
     LoadingSpinnerComponent,
-    ErrorMessageComponent
+    ErrorMessageComponent,
+    MoneyPipe
   ],
   templateUrl: './product-list.component.html',
   styleUrl: './product-list.component.scss'
@@ -37,6 +40,9 @@ export class ProductListComponent implements OnInit {
   selectedCategory: string = 'all';
   filteredProducts: Product[] = [];
 
+  // Offline catalog cache status (data APIs without a catalog cache report none)
+  readonly catalogStatus = inject(IDataApi).catalogStatus ?? signal(null).asReadonly();
+
   constructor(public productService: ProductService) {}
 
   ngOnInit(): void {
@@ -0,0 +1,205 @@
+import { Component, OnInit, computed, effect, inject, signal, untracked } from '@angular/core';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatIconModule } from '@angular/material/icon';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatDividerModule } from '@angular/material/divider';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBarModule, MatSnackBar } from '@angular/material/snack-bar';
+import { AuthService } from '../../core/services/auth.service';
+import { CustomerProfileService } from '../../core/services/customer-profile.service';
+import { AddressUse, SavedAddress } from '../../core/interfaces/customer-profile.interface';
+import { AddressFieldsComponent } from '../../shared/components/address-fields/address-fields.component';
+import { DEFAULT_COUNTRY, addressControls, watchAddressCountry } from '../../shared/components/address-fields/address-form';
+import { MAX_SAVED_ADDRESSES } from '../../../../shared/customer-profiles';
+import { IpcValidationError } from '../../../../shared/ipc-errors';
+
+type ProfileAction = 'contact' | 'address' | `default-${AddressUse}` | 'delete';
+
+/**
+ * Profile Component - Account, contact details and address book of the logged-in user (or guest)
+ * The saved details prefill checkout.
+ */
+@Component({
+  selector: 'app-profile',
+  standalone: true,
+  imports: [
+    ReactiveFormsModule,
+    MatCardModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatIconModule,
+    MatChipsModule,
+    MatDividerModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    AddressFieldsComponent
+  ],
+  templateUrl: './profile.component.html',
+  styleUrl: './profile.component.scss'
+})
+export class ProfileComponent implements OnInit {
+  private fb = inject(FormBuilder);
+  private snackBar = inject(MatSnackBar);
+
+  auth = inject(AuthService);
+  customerProfiles = inject(CustomerProfileService);
+  profile = this.customerProfiles.profile;
+
+  readonly maxAddresses = MAX_SAVED_ADDRESSES;
+  bookFull = computed(() => this.profile().addresses.length >= MAX_SAVED_ADDRESSES);
+
+  // Action currently running
+  busy = signal<ProfileAction | null>(null);
+
+  contactForm = this.fb.group({
+    firstName: ['', [Validators.required, Validators.minLength(2)]],
+    lastName: ['', [Validators.required, Validators.minLength(2)]],
+    email: ['', [Validators.required, Validators.email]],
+    phone: ['']
+  });
+
+  // Address being added ('new') or edited (its id); null while the form is closed
+  editing = signal<string | null>(null);
+  addressForm = this.fb.group({
+    label: ['', Validators.required],
+    firstName: ['', [Validators.required, Validators.minLength(2)]],
+    lastName: ['', [Validators.required, Validators.minLength(2)]],
+    phone: [''],
+    ...addressControls()
+  });
+
+  constructor() {
+    watchAddressCountry(this.addressForm);
+
+    // Show the saved contact details (or what the account knows) whenever the profile changes
+    effect(() => {
+      const contact = this.profile().contact;
+      const user = this.auth.currentUser();
+      untracked(() => this.contactForm.reset(contact ?? { email: user?.email ?? '' }));
+    });
+  }
+
+  ngOnInit(): void {
+    this.customerProfiles.load(true);
+  }
+
+  isDefault(entry: SavedAddress, use: AddressUse): boolean {
+    const profile = this.profile();
+    return (use === 'billing' ? profile.defaultBillingId : profile.defaultShippingId) === entry.id;
+  }
+
+  saveContact(): void {
+    if (this.contactForm.invalid) {
+      this.contactForm.markAllAsTouched();
+      return;
+    }
+    const { firstName, lastName, email, phone } = this.contactForm.getRawValue();
+    this.run('contact', () => this.customerProfiles.updateContact({
+      firstName: firstName!,
+      lastName: lastName!,
+      email: email!,
+      phone: phone || undefined
+    }), 'Contact details saved');
+  }
+
+  addAddress(): void {
+    const contact = this.profile().contact;
+    this.addressForm.reset({
+      firstName: contact?.firstName ?? '',
+      lastName: contact?.lastName ?? '',
+      country: DEFAULT_COUNTRY
+    });
+    this.editing.set('new');
+  }
+
+  editAddress(entry: SavedAddress): void {
+    this.addressForm.reset({
+      label: entry.label,
+      firstName: entry.firstName,
+      lastName: entry.lastName,
+      phone: entry.phone ?? '',
+      ...entry.address
+    });
+    this.editing.set(entry.id);
+  }
+
+  cancelEdit(): void {
+    this.editing.set(null);
+  }
+
+  async saveAddress(): Promise<void> {
+    if (this.addressForm.invalid) {
+      this.addressForm.markAllAsTouched();
+      return;
+    }
+    const value = this.addressForm.getRawValue();
+    const id = this.editing();
+    const saved = await this.run('address', () => this.customerProfiles.saveAddress({
+      ...(id && id !== 'new' ? { id } : {}),
+      label: value.label!.trim(),
+      firstName: value.firstName!,
+      lastName: value.lastName!,
+      phone: value.phone || undefined,
+      address: {
+        street: value.street!,
+        city: value.city!,
+        state: value.state ?? '',
+        zipCode: value.zipCode ?? '',
+        country: value.country!
+      }
+    }), 'Address saved');
+    if (saved && this.editing() === id) {
+      this.editing.set(null);
+    }
+  }
+
+  setDefault(entry: SavedAddress, use: AddressUse): void {
+    this.run(`default-${use}`, () => this.customerProfiles.setDefaultAddress(entry.id, use),
+      `${entry.label} is now your default ${use} address`);
+  }
+
+  deleteAddress(entry: SavedAddress): void {
+    if (!confirm(`Delete the address "${entry.label}"?`)) {
+      return;
+    }
+    if (this.editing() === entry.id) {
+      this.editing.set(null);
+    }
+    this.run('delete', () => this.customerProfiles.deleteAddress(entry.id), 'Address deleted');
+  }
+
+  /**
+   * Run a change, reporting the outcome in a snackbar
+   * @returns Whether the change was saved
+   */
+  private async run(action: ProfileAction, task: () => Promise<unknown>, successMessage: string): Promise<boolean> {
+    this.busy.set(action);
+
+    try {
+      await task();
+      this.snackBar.open(successMessage, 'Close', { duration: 4000 });
+      return true;
+    } catch (error) {
+      const issue = error instanceof IpcValidationError ? error.issues[0] : undefined;
+      const message = issue
+        ? `Please check the address: ${describeField(issue.path)} ${issue.message}.`
+        : 'Your changes could not be saved. Please try again.';
+      this.snackBar.open(message, 'Close', { duration: 5000, panelClass: ['error-snackbar'] });
+      return false;
+    } finally {
+      this.busy.set(null);
+    }
+  }
+}
+
+// Field named by a rejected address's issue path, e.g. 'address.address.zipCode' → 'postal code'
+function describeField(path: string): string {
+  const names: Record<string, string> = { zipCode: 'postal code', state: 'state / region' };
+  const field = path.split('.').pop() ?? path;
+  return names[field] ?? field;
+}
@@ -0,0 +1,111 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatIconModule } from '@angular/material/icon';
+import { MatDividerModule } from '@angular/material/divider';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBarModule, MatSnackBar } from '@angular/material/snack-bar';
+import { VaultService } from '../../core/services/vault.service';
+
+type VaultAction = 'enable' | 'change' | 'disable' | 'lock';
+
+/**
+ * Settings Component - Data encryption (desktop only)
+ */
+@Component({
+  selector: 'app-settings',
+  standalone: true,
+  imports: [
+    FormsModule,
+    MatCardModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatIconModule,
+    MatDividerModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule
+  ],
+  templateUrl: './settings.component.html',
+  styleUrl: './settings.component.scss'
+})
+export class SettingsComponent implements OnInit {
+  private snackBar = inject(MatSnackBar);
+
+  vault = inject(VaultService);
+  status = this.vault.status;
+
+  // Action currently running, and the action whose form shows an error
+  busy = signal<VaultAction | null>(null);
+  error = signal<{ action: VaultAction; message: string } | null>(null);
+
+  // Enable encryption
+  newPassphrase = '';
+  confirmPassphrase = '';
+
+  // Change passphrase
+  currentPassphrase = '';
+  nextPassphrase = '';
+  confirmNextPassphrase = '';
+
+  // Disable encryption
+  disablePassphrase = '';
+
+  ngOnInit(): void {
+    this.vault.refresh().catch(error =>
+      this.error.set({ action: 'lock', message: this.vault.describeError(error) }));
+  }
+
+  onEnable(): void {
+    if (this.newPassphrase !== this.confirmPassphrase) {
+      this.error.set({ action: 'enable', message: 'Passphrases do not match.' });
+      return;
+    }
+    this.run('enable', () => this.vault.enable(this.newPassphrase),
+      'Encryption enabled. Keep your passphrase safe; it cannot be recovered.');
+  }
+
+  onChangePassphrase(): void {
+    if (this.nextPassphrase !== this.confirmNextPassphrase) {
+      this.error.set({ action: 'change', message: 'New passphrases do not match.' });
+      return;
+    }
+    this.run('change', () => this.vault.changePassphrase(this.currentPassphrase, this.nextPassphrase),
+      'Passphrase changed');
+  }
+
+  onDisable(): void {
+    this.run('disable', () => this.vault.disable(this.disablePassphrase), 'Encryption disabled');
+  }
+
+  onLock(): void {
+    this.run('lock', () => this.vault.lock(), 'Data locked');
+  }
+
+  private async run(action: VaultAction, task: () => Promise<unknown>, successMessage: string): Promise<void> {
+    this.busy.set(action);
+    this.error.set(null);
+
+    try {
+      await task();
+      this.resetForms();
+      this.snackBar.open(successMessage, 'Close', { duration: 4000 });
+    } catch (error) {
+      this.error.set({ action, message: this.vault.describeError(error) });
+    } finally {
+      this.busy.set(null);
+    }
+  }
+
+  private resetForms(): void {
+    this.newPassphrase = '';
+    this.confirmPassphrase = '';
+    this.currentPassphrase = '';
+    this.nextPassphrase = '';
+    this.confirmNextPassphrase = '';
+    this.disablePassphrase = '';
+  }
+}
@@ -0,0 +1,65 @@
+import { Component, Input } from '@angular/core';
+import { FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { ADDRESS_FORMATS, AddressFieldRule, AddressFormat, addressFormatFor } from '../../../../../shared/address-formats';
+
+/**
+ * Address Fields Component - Country, street, city, region and postal code of an address form
+ * Labels and region choices follow the selected country; the form's controls come from addressControls().
+ */
+@Component({
+  selector: 'app-address-fields',
+  standalone: true,
+  imports: [
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule
+  ],
+  templateUrl: './address-fields.component.html',
+  styleUrl: './address-fields.component.scss'
+})
+export class AddressFieldsComponent {
+  @Input({ required: true }) group!: FormGroup;
+
+  readonly countries = ADDRESS_FORMATS.map(format => format.country).sort();
+
+  get format(): AddressFormat {
+    return addressFormatFor(this.group.get('country')?.value);
+  }
+
+  get regionOptions(): { code: string; name: string }[] {
+    return Object.entries(this.format.region.options ?? {}).map(([code, name]) => ({ code, name }));
+  }
+
+  showError(field: string): boolean {
+    const control = this.group.get(field);
+    return !!control?.invalid && !!control.touched;
+  }
+
+  getErrorMessage(field: 'street' | 'city' | 'state' | 'zipCode' | 'country'): string {
+    const control = this.group.get(field);
+    const rule: AddressFieldRule | undefined = field === 'state' ? this.format.region
+      : field === 'zipCode' ? this.format.postalCode
+      : undefined;
+    const label = rule?.label ?? FIELD_LABELS[field];
+
+    if (control?.hasError('required')) {
+      return `${label} is required`;
+    }
+    if (control?.hasError('address') && rule) {
+      return rule.options
+        ? `Select a valid ${label.toLowerCase()}`
+        : `Enter a valid ${label}${rule.example ? ` (e.g. ${rule.example})` : ''}`;
+    }
+    return '';
+  }
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  street: 'Street address',
+  city: 'City',
+  country: 'Country'
+};
@@ -0,0 +1,56 @@
+import { AbstractControl, FormGroup, ValidationErrors, ValidatorFn, Validators } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { addressFormatFor, checkField } from '../../../../../shared/address-formats';
+
+/**
+ * Address Form Helpers
+ * Controls and validators for the address part of a form (checkout billing and shipping,
+ * address book entries).
+ * Region and postal code rules follow the selected country (shared/address-formats.ts).
+ */
+
+export const DEFAULT_COUNTRY = 'United States';
+
+/**
+ * Control configs for FormBuilder.group(), to spread into a form
+ */
+export function addressControls(country = DEFAULT_COUNTRY) {
+  return {
+    street: ['', Validators.required],
+    city: ['', Validators.required],
+    state: ['', addressFieldValidator('state')],
+    zipCode: ['', addressFieldValidator('zipCode')],
+    country: [country, Validators.required]
+  };
+}
+
+/**
+ * Validates the region or postal code against the country selected in the same form
+ * Errors: `required`, or `address` for a value the country's format does not allow
+ */
+export function addressFieldValidator(field: 'state' | 'zipCode'): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    const format = addressFormatFor(control.parent?.get('country')?.value);
+    const problem = checkField(control.value, field === 'state' ? format.region : format.postalCode);
+    if (!problem) {
+      return null;
+    }
+    return problem === 'required' ? { required: true } : { address: true };
+  };
+}
+
+/**
+ * Re-validate region and postal code whenever the form's country changes
+ * A region that is not one of the new country's listed regions is cleared.
+ */
+export function watchAddressCountry(form: FormGroup): Subscription {
+  return form.get('country')!.valueChanges.subscribe(country => {
+    const state = form.get('state')!;
+    const regions = addressFormatFor(country).region.options;
+    if (regions && state.value && !(String(state.value).toUpperCase() in regions)) {
+      state.setValue('');
+    }
+    state.updateValueAndValidity();
+    form.get('zipCode')!.updateValueAndValidity();
+  });
+}
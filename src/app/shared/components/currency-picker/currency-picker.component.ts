@@ -0,0 +1,44 @@
+import { Component, inject } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { CurrencyService } from '../../../core/services/currency.service';
+
+/**
+ * Currency Picker Component - Toolbar menu for the display currency
+ */
+@Component({
+  selector: 'app-currency-picker',
+  standalone: true,
+  imports: [
+    MatButtonModule,
+    MatIconModule,
+    MatMenuModule,
+    MatTooltipModule
+  ],
+  template: `
+    <button mat-button [matMenuTriggerFor]="currencyMenu" matTooltip="Display currency" class="currency-button">
+      <mat-icon>currency_exchange</mat-icon>
+      {{ currency().code }}
+    </button>
+    <mat-menu #currencyMenu="matMenu">
+      @for (option of currencies(); track option.code) {
+        <button mat-menu-item (click)="currencyService.select(option.code)">
+          <mat-icon>{{ option.code === currency().code ? 'radio_button_checked' : 'radio_button_unchecked' }}</mat-icon>
+          <span>{{ option.code }} - {{ option.name }}</span>
+        </button>
+      }
+    </mat-menu>
+  `,
+  styles: [`
+    .currency-button {
+      color: inherit;
+    }
+  `]
+})
+export class CurrencyPickerComponent {
+  readonly currencyService = inject(CurrencyService);
+  readonly currencies = this.currencyService.currencies;
+  readonly currency = this.currencyService.currency;
+}
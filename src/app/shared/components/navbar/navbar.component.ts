@@ -60,9 +60,9 @@ export class NavbarComponent {
 
   async ngOnInit() {
     // Try to get version from Electron API if available
-    if (typeof window !== 'undefined' && (window as any).electronAPI) {
+    if (typeof window !== 'undefined' && window.electronAPI) {
       try {
-        const v = await (window as any).electronAPI.getAppVersion();
+        const v = await window.electronAPI.app.getVersion();
         this.version.set(v);
       } catch (err) {
         console.warn('Could not get app version from Electron API');
@@ -0,0 +1,148 @@
+import { Component, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatIconModule } from '@angular/material/icon';
+import { VaultService } from '../../../core/services/vault.service';
+
+/**
+ * Vault Unlock Component - Blocks the shell until the encrypted data stores are unlocked
+ */
+@Component({
+  selector: 'app-vault-unlock',
+  standalone: true,
+  imports: [
+    FormsModule,
+    MatCardModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatButtonModule,
+    MatProgressSpinnerModule,
+    MatIconModule
+  ],
+  template: `
+    <div class="unlock-overlay">
+      <mat-card class="unlock-card">
+        <mat-card-header>
+          <mat-icon mat-card-avatar class="lock-icon">lock</mat-icon>
+          <mat-card-title>Unlock your data</mat-card-title>
+          <mat-card-subtitle>Orders and cart are encrypted on this device</mat-card-subtitle>
+        </mat-card-header>
+
+        <mat-card-content>
+          <form #unlockForm="ngForm" (ngSubmit)="onUnlock()">
+            <mat-form-field appearance="outline" class="full-width">
+              <mat-label>Passphrase</mat-label>
+              <input
+                matInput
+                [type]="hidePassphrase() ? 'password' : 'text'"
+                [(ngModel)]="passphrase"
+                name="passphrase"
+                required
+                autocomplete="current-password"
+                [disabled]="loading()">
+              <button
+                mat-icon-button
+                matSuffix
+                type="button"
+                (click)="hidePassphrase.set(!hidePassphrase())"
+                [disabled]="loading()">
+                <mat-icon>{{ hidePassphrase() ? 'visibility_off' : 'visibility' }}</mat-icon>
+              </button>
+            </mat-form-field>
+
+            @if (errorMessage()) {
+              <div class="error-message">
+                <mat-icon>error</mat-icon>
+                <span>{{ errorMessage() }}</span>
+              </div>
+            }
+
+            <button
+              mat-raised-button
+              color="primary"
+              type="submit"
+              class="full-width"
+              [disabled]="!unlockForm.valid || loading()">
+              @if (loading()) {
+                <mat-spinner diameter="20"></mat-spinner>
+              } @else {
+                <span>Unlock</span>
+              }
+            </button>
+          </form>
+        </mat-card-content>
+      </mat-card>
+    </div>
+  `,
+  styles: [`
+    .unlock-overlay {
+      position: fixed;
+      inset: 0;
+      z-index: 2000;
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      background: linear-gradient(135deg, #1976d2 0%, #1565c0 100%);
+      padding: 1rem;
+    }
+
+    .unlock-card {
+      width: 100%;
+      max-width: 400px;
+      padding: 1.5rem;
+    }
+
+    .lock-icon {
+      color: #1976d2;
+    }
+
+    mat-card-header {
+      margin-bottom: 1.5rem;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .error-message {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      color: #f44336;
+      background-color: #ffebee;
+      padding: 0.75rem;
+      border-radius: 4px;
+      margin-bottom: 1rem;
+    }
+
+    mat-spinner {
+      display: inline-block;
+    }
+  `]
+})
+export class VaultUnlockComponent {
+  private vault = inject(VaultService);
+
+  passphrase = '';
+  hidePassphrase = signal(true);
+  loading = signal(false);
+  errorMessage = signal<string | null>(null);
+
+  async onUnlock(): Promise<void> {
+    this.loading.set(true);
+    this.errorMessage.set(null);
+
+    try {
+      await this.vault.unlock(this.passphrase);
+    } catch (error) {
+      this.errorMessage.set(this.vault.describeError(error));
+    } finally {
+      this.passphrase = '';
+      this.loading.set(false);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { LOCALE_ID, Pipe, PipeTransform, inject } from '@angular/core';
+import { formatDate } from '@angular/common';
+import { DeliveryWindow } from '../../core/interfaces/cart.interface';
+
+/**
+ * Delivery Window Pipe - Formats a delivery window as a date range
+ * Usage: {{ order.deliveryWindow | deliveryWindow }} → 'Mon, Oct 20 – Wed, Oct 22'
+ * (a single date when the earliest and latest day are the same)
+ */
+@Pipe({
+  name: 'deliveryWindow',
+  standalone: true
+})
+export class DeliveryWindowPipe implements PipeTransform {
+  private locale = inject(LOCALE_ID);
+
+  transform(window: DeliveryWindow | null | undefined, format = 'EEE, MMM d'): string {
+    if (!window) {
+      return '';
+    }
+    const earliest = formatDate(window.earliest, format, this.locale);
+    const latest = formatDate(window.latest, format, this.locale);
+    return earliest === latest ? earliest : `${earliest} – ${latest}`;
+  }
+}
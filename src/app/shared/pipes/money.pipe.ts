@@ -0,0 +1,25 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { OrderCurrency } from '../../core/interfaces/currency.interface';
+import { CurrencyService } from '../../core/services/currency.service';
+
+/**
+ * Money Pipe - Formats a base-currency (USD) amount in the display currency
+ * Usage: {{ product.price | money }}, or {{ order.total | money: order.currency }} to show
+ * an order in the currency and at the rate it was placed with.
+ * Impure so amounts re-render when the customer switches currency.
+ */
+@Pipe({
+  name: 'money',
+  standalone: true,
+  pure: false
+})
+export class MoneyPipe implements PipeTransform {
+  private currencyService = inject(CurrencyService);
+
+  transform(amount: number | null | undefined, currency?: OrderCurrency): string {
+    if (amount === null || amount === undefined) {
+      return '';
+    }
+    return this.currencyService.format(amount, currency);
+  }
+}
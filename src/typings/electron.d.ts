@@ -1,39 +1,13 @@
-import { Product } from '../app/core/interfaces/product.interface';
+import type { ElectronAPI } from '../../shared/ipc-contract';
 
 export {};
 
 declare global {
   interface Window {
-    electronAPI: {
-      // App-level APIs
-      getAppVersion: () => Promise<string>;
-      getAppConfig: () => Promise<any>;
-      quitApp: () => Promise<void>;
-      
-      // Product APIs
-      products: {
-        /**
-         * Get all products from FakeStoreAPI
-         */
-        getAll: () => Promise<Product[]>;
-        
-        /**
-         * Get a single product by ID
-         * @param id Product ID
-         */
-        getById: (id: number) => Promise<Product>;
-        
-        /**
-         * Get all product categories
-         */
-        getCategories: () => Promise<string[]>;
-        
-        /**
-         * Get products by category
-         * @param category Category name
-         */
-        getByCategory: (category: string) => Promise<Product[]>;
-      };
-    };
+    /**
+     * Exposed by electron/preload.ts; derived from the shared IPC contract.
+     * Undefined when running in a regular browser.
+     */
+    electronAPI: ElectronAPI;
   }
 }